@@ -1,7 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import ChatInterface from './components/ChatInterface';
 import PlanVisualizer from './components/PlanVisualizer';
 import ApprovalModal from './components/ApprovalModal';
+import ClarificationForm, { ClarificationRequest } from './components/ClarificationForm';
 import './App.css';
 
 // ============================================================
@@ -61,12 +62,50 @@ interface PlanResponse {
   requiresApproval: boolean;
 }
 
+interface RunEvent {
+  seq: number;
+  timestamp: string;
+  type: string;
+  message: string;
+  stepId?: number;
+  agent?: string;
+  durationMs?: number;
+  payload?: Record<string, any>;
+}
+
 interface AppState {
   plan: PlanStep[];
   planResponse?: PlanResponse;
-  logs: string[];
+  logs: RunEvent[];
   currentStep: number;
   pendingApproval: boolean;
+  pendingStepApprovals?: number[];
+  pendingClarifications?: ClarificationRequest[];
+}
+
+interface StepApprovalRequest {
+  stepId: number;
+  step: PlanStep;
+  reasons: string[];
+}
+
+interface SessionInfo {
+  sessionId: string;
+  userRequest: string;
+  planId?: string;
+  running: boolean;
+  pendingApproval: boolean;
+  totalSteps: number;
+  completedSteps: number;
+  createdAt: string;
+}
+
+interface BreakerInfo {
+  key: string;
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  lastFailure?: string;
+  openedAt?: string;
 }
 
 interface ApprovalRequest {
@@ -76,6 +115,22 @@ interface ApprovalRequest {
   risks: Risk[];
 }
 
+// Messages that originate in the UI rather than the run itself
+const localEvent = (type: string, message: string): RunEvent => ({
+  seq: 0,
+  timestamp: new Date().toISOString(),
+  type,
+  message
+});
+
+const formatEvent = (event: RunEvent): string => {
+  const time = new Date(event.timestamp).toLocaleTimeString();
+  const step = event.stepId !== undefined ? ` Step ${event.stepId}` : '';
+  const agent = event.agent ? ` [${event.agent}]` : '';
+  const duration = event.durationMs !== undefined ? ` (${(event.durationMs / 1000).toFixed(1)}s)` : '';
+  return `${time}${step}${agent}: ${event.message}${duration}`;
+};
+
 // ============================================================
 // App Component
 // ============================================================
@@ -88,7 +143,14 @@ function App() {
   });
   const [ws, setWs] = useState<WebSocket | null>(null);
   const [approvalRequest, setApprovalRequest] = useState<ApprovalRequest | null>(null);
+  const [stepApprovals, setStepApprovals] = useState<StepApprovalRequest[]>([]);
+  const [clarifications, setClarifications] = useState<ClarificationRequest[]>([]);
+  const [liveOutput, setLiveOutput] = useState<Record<number, string>>({});
   const [executionComplete, setExecutionComplete] = useState<any>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [breakers, setBreakers] = useState<BreakerInfo[]>([]);
+  const sessionRef = useRef<string | null>(null);
 
   useEffect(() => {
     const socket = new WebSocket('ws://localhost:8080');
@@ -101,9 +163,46 @@ function App() {
     socket.onmessage = (event) => {
       const message = JSON.parse(event.data);
 
+      // Updates for sessions started by other clients are not ours to render
+      if (message.sessionId && sessionRef.current && message.sessionId !== sessionRef.current
+        && message.type !== 'SESSION_CREATED') {
+        return;
+      }
+
       switch (message.type) {
+        case 'SESSION_CREATED':
+          sessionRef.current = message.sessionId;
+          setSessionId(message.sessionId);
+          break;
+
+        case 'SESSION_LIST':
+          setSessions(message.payload.sessions);
+          break;
+
+        case 'CIRCUIT_UPDATE':
+          setBreakers(message.payload.breakers);
+          break;
+
         case 'STATE_UPDATE':
           setState(message.payload);
+          setStepApprovals(prev =>
+            prev.filter(r => (message.payload.pendingStepApprovals || []).includes(r.stepId))
+          );
+          setClarifications(message.payload.pendingClarifications || []);
+          break;
+
+        case 'STEP_OUTPUT': {
+          const { stepId, delta, reset } = message.payload;
+          setLiveOutput(prev => ({ ...prev, [stepId]: (reset ? '' : prev[stepId] || '') + delta }));
+          break;
+        }
+
+        case 'CLARIFICATION_REQUIRED':
+          setClarifications(prev => [...prev.filter(r => r.requestId !== message.payload.requestId), message.payload]);
+          break;
+
+        case 'STEP_APPROVAL_REQUIRED':
+          setStepApprovals(prev => [...prev.filter(r => r.stepId !== message.payload.stepId), message.payload]);
           break;
 
         case 'PLAN_APPROVAL_REQUIRED':
@@ -115,11 +214,49 @@ function App() {
           setApprovalRequest(null);
           break;
 
+        case 'RUN_EVENT':
+          // Live events also arrive with STATE_UPDATE; only replays are applied here
+          if (message.payload.replay) {
+            const event: RunEvent = message.payload.event;
+            setState(prev => ({
+              ...prev,
+              logs: event.seq === 1 ? [event] : [...prev.logs, event]
+            }));
+          }
+          break;
+
+        case 'REPORT': {
+          const { planId, format, content } = message.payload;
+          const extension = format === 'junit' ? 'junit.xml' : format === 'json' ? 'json' : 'md';
+          const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `${planId}.${extension}`;
+          link.click();
+          URL.revokeObjectURL(url);
+          break;
+        }
+
+        case 'REPLAY_COMPLETE':
+          setState(prev => ({
+            ...prev,
+            plan: message.payload.plan,
+            planResponse: message.payload.planResponse
+          }));
+          break;
+
+        case 'ROLLBACK_COMPLETE':
+          setState(prev => ({
+            ...prev,
+            logs: [...prev.logs, localEvent('run.rolled-back', `Rolled back ${message.payload.planId}: ${message.payload.restored.length} restored, ${message.payload.deleted.length} deleted, ${message.payload.kept.length} kept`)]
+          }));
+          break;
+
         case 'ERROR':
           console.error('Orchestrator error:', message.payload);
           setState(prev => ({
             ...prev,
-            logs: [...prev.logs, `ERROR: ${message.payload.message}`]
+            logs: [...prev.logs, localEvent('error', `ERROR: ${message.payload.message}`)]
           }));
           break;
       }
@@ -136,28 +273,86 @@ function App() {
   const sendRequest = (request: string) => {
     if (ws && ws.readyState === WebSocket.OPEN) {
       setExecutionComplete(null);
+      setLiveOutput({});
+      // Each request starts a fresh session so runs from other tabs stay separate
+      sessionRef.current = null;
       ws.send(JSON.stringify({ type: 'REQUEST', payload: request }));
     }
   };
 
   const handleApprove = () => {
     if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'APPROVE_PLAN' }));
+      ws.send(JSON.stringify({ type: 'APPROVE_PLAN', sessionId }));
       setApprovalRequest(null);
     }
   };
 
   const handleReject = () => {
     if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'REJECT_PLAN' }));
+      ws.send(JSON.stringify({ type: 'REJECT_PLAN', sessionId }));
+      setApprovalRequest(null);
+    }
+  };
+
+  const handleStepDecision = (stepId: number, approved: boolean) => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: approved ? 'APPROVE_STEP' : 'REJECT_STEP', sessionId, payload: { stepId } }));
+      setStepApprovals(prev => prev.filter(r => r.stepId !== stepId));
+    }
+  };
+
+  const handleClarification = (requestId: string, answers: Record<string, string>) => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'ANSWER_CLARIFICATION', sessionId, payload: { requestId, answers } }));
+      setClarifications(prev => prev.filter(r => r.requestId !== requestId));
+    }
+  };
+
+  const handleCancel = () => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'CANCEL', sessionId }));
       setApprovalRequest(null);
     }
   };
 
+  const handleUndo = () => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'UNDO_RUN', payload: { planId: executionComplete?.summary?.planId } }));
+    }
+  };
+
+  const handleReplay = () => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'REPLAY_RUN', payload: { planId: executionComplete?.summary?.planId } }));
+    }
+  };
+
+  const handleExport = (format: 'json' | 'markdown' | 'junit') => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'EXPORT_REPORT', payload: { planId: executionComplete?.summary?.planId, format } }));
+    }
+  };
+
+  const isRunning = state.pendingApproval || stepApprovals.length > 0 || clarifications.length > 0 ||
+    (!executionComplete && state.plan.some(s => s.status === 'in-progress' || s.status === 'pending'));
+
   return (
     <div className="app-container">
       <header>
         <h1>AI Collaboration Plugin</h1>
+        {isRunning && (
+          <button className="cancel-button" onClick={handleCancel}>Cancel</button>
+        )}
+        {sessions.length > 1 && (
+          <span className="session-count">
+            {sessions.filter(s => s.running).length} active session(s)
+          </span>
+        )}
+        {breakers.filter(b => b.state !== 'closed').map(b => (
+          <span key={b.key} className={`circuit-badge ${b.state}`} title={`${b.failures} failure(s), last: ${b.lastFailure}`}>
+            {b.key} {b.state}
+          </span>
+        ))}
         <div className="connection-status">
           <span className={`status-dot ${ws ? 'connected' : 'disconnected'}`} />
           {ws ? 'Connected' : 'Disconnected'}
@@ -166,24 +361,58 @@ function App() {
 
       <main>
         <div className="panel left">
-          <ChatInterface onSend={sendRequest} logs={state.logs} />
+          <ChatInterface onSend={sendRequest} logs={state.logs.map(formatEvent)} />
         </div>
 
         <div className="panel right">
+          {clarifications.map(request => (
+            <ClarificationForm key={request.requestId} request={request} onAnswer={handleClarification} />
+          ))}
+
+          {stepApprovals.map(request => (
+            <div key={request.stepId} className="step-approval">
+              <div className="step-approval-title">
+                Step #{request.stepId} needs approval: {request.step.description}
+              </div>
+              <ul>
+                {request.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+              <div className="step-approval-actions">
+                <button onClick={() => handleStepDecision(request.stepId, true)}>Run step</button>
+                <button className="cancel-button" onClick={() => handleStepDecision(request.stepId, false)}>Skip step</button>
+              </div>
+            </div>
+          ))}
+
           <PlanVisualizer
             plan={state.plan}
             planResponse={state.planResponse}
             currentStep={state.currentStep}
+            liveOutput={liveOutput}
           />
 
           {executionComplete && (
             <div className={`execution-summary ${executionComplete.success ? 'success' : 'failure'}`}>
-              <h3>{executionComplete.success ? 'Execution Complete' : 'Execution Failed'}</h3>
+              <h3>
+                {executionComplete.success
+                  ? 'Execution Complete'
+                  : executionComplete.status === 'cancelled' ? 'Execution Cancelled' : 'Execution Failed'}
+              </h3>
               <div className="summary-stats">
-                <span>Completed: {executionComplete.summary?.completed || 0}</span>
-                <span>Failed: {executionComplete.summary?.failed || 0}</span>
-                <span>Skipped: {executionComplete.summary?.skipped || 0}</span>
+                <span>Completed: {executionComplete.summary?.completedSteps || 0}</span>
+                <span>Failed: {executionComplete.summary?.failedSteps || 0}</span>
+                <span>Skipped: {executionComplete.summary?.skippedSteps || 0}</span>
+                <span>Duration: {((executionComplete.summary?.totalDuration || 0) / 1000).toFixed(1)}s</span>
+                <span>Files: {executionComplete.summary?.filesChanged?.length || 0}</span>
               </div>
+              {executionComplete.summary?.planId && (
+                <div className="summary-actions">
+                  <button className="secondary-button" onClick={handleReplay}>Replay</button>
+                  <button className="secondary-button" onClick={handleUndo}>Undo run</button>
+                  <button className="secondary-button" onClick={() => handleExport('markdown')}>Markdown report</button>
+                  <button className="secondary-button" onClick={() => handleExport('junit')}>JUnit XML</button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+
+export interface ClarifyingQuestion {
+    id: string;
+    question: string;
+    options?: string[];
+    askedBy: string;
+    stepId?: number;
+}
+
+export interface ClarificationRequest {
+    requestId: string;
+    stepId?: number;
+    questions: ClarifyingQuestion[];
+}
+
+interface Props {
+    request: ClarificationRequest;
+    onAnswer: (requestId: string, answers: Record<string, string>) => void;
+}
+
+const ClarificationForm: React.FC<Props> = ({ request, onAnswer }) => {
+    const [answers, setAnswers] = useState<Record<string, string>>({});
+
+    const setAnswer = (id: string, value: string) => setAnswers(prev => ({ ...prev, [id]: value }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onAnswer(request.requestId, answers);
+    };
+
+    const asker = request.questions[0]?.askedBy || 'agent';
+
+    return (
+        <form className="clarification" onSubmit={handleSubmit}>
+            <div className="clarification-title">
+                {request.stepId !== undefined
+                    ? `Step #${request.stepId} (${asker}) has questions`
+                    : `${asker} has questions before planning`}
+            </div>
+            {request.questions.map(q => (
+                <label key={q.id} className="clarification-question">
+                    <span>{q.question}</span>
+                    {q.options && (
+                        <div className="clarification-options">
+                            {q.options.map(option => (
+                                <button
+                                    key={option}
+                                    type="button"
+                                    className={answers[q.id] === option ? 'selected' : 'secondary-button'}
+                                    onClick={() => setAnswer(q.id, option)}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <input
+                        type="text"
+                        value={answers[q.id] || ''}
+                        onChange={(e) => setAnswer(q.id, e.target.value)}
+                        placeholder="Your answer"
+                    />
+                </label>
+            ))}
+            <div className="clarification-actions">
+                <button type="submit">Send answers</button>
+                <button type="button" className="cancel-button" onClick={() => onAnswer(request.requestId, {})}>
+                    Let the agent decide
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default ClarificationForm;
@@ -15,6 +15,12 @@ interface PlanStep {
   outputs?: string[];
   output?: string;
   error?: string;
+  attempts?: {
+    attempt: number;
+    output: string;
+    review: { approved: boolean; approvalRatio: number; issues: string[] };
+    timestamp: string;
+  }[];
 }
 
 interface Risk {
@@ -46,12 +52,23 @@ interface PlanResponse {
   confidence: ConfidenceBreakdown;
   estimatedTokens: number;
   requiresApproval: boolean;
+  revision?: number;
+  history?: PlanRevision[];
+}
+
+interface PlanRevision {
+  revision: number;
+  steps: PlanStep[];
+  confidence: number;
+  reason: string;
+  replacedAt: string;
 }
 
 interface Props {
   plan: PlanStep[];
   planResponse?: PlanResponse;
   currentStep: number;
+  liveOutput?: Record<number, string>;  // Streamed output of running steps
 }
 
 // ============================================================
@@ -104,7 +121,7 @@ const ConfidenceGauge: React.FC<{ value: number }> = ({ value }) => {
 // ============================================================
 // PlanVisualizer Component
 // ============================================================
-const PlanVisualizer: React.FC<Props> = ({ plan, planResponse, currentStep }) => {
+const PlanVisualizer: React.FC<Props> = ({ plan, planResponse, currentStep, liveOutput }) => {
   const hasSteps = plan && plan.length > 0;
 
   return (
@@ -123,6 +140,20 @@ const PlanVisualizer: React.FC<Props> = ({ plan, planResponse, currentStep }) =>
             <span className="label">Approach:</span>
             <span className="value">{planResponse.analysis.chosenApproach}</span>
           </div>
+          {planResponse.revision && planResponse.revision > 1 && (
+            <div className="summary-item revision">
+              <span className="label">Revision:</span>
+              <span className="value">{planResponse.revision}</span>
+            </div>
+          )}
+          {planResponse.history?.map(rev => (
+            <div key={rev.revision} className="summary-item revision-history">
+              <span className="label">Rev {rev.revision}:</span>
+              <span className="value">
+                {rev.steps.length} steps, {Math.round(rev.confidence * 100)}% confidence. Replaced: {rev.reason}
+              </span>
+            </div>
+          ))}
           {planResponse.risks.length > 0 && (
             <div className="summary-item risks">
               <span className="label">Risks:</span>
@@ -164,6 +195,10 @@ const PlanVisualizer: React.FC<Props> = ({ plan, planResponse, currentStep }) =>
               )}
             </div>
 
+            {step.status === 'in-progress' && liveOutput?.[step.id] && (
+              <pre className="step-live-output">{liveOutput[step.id].slice(-2000)}</pre>
+            )}
+
             {step.output && (
               <div className="step-output">
                 <span className="output-label">Output:</span>
@@ -178,6 +213,14 @@ const PlanVisualizer: React.FC<Props> = ({ plan, planResponse, currentStep }) =>
               </div>
             )}
 
+            {step.attempts && step.attempts.length > 1 && (
+              <div className="step-attempts">
+                Review attempts: {step.attempts.map(a =>
+                  `#${a.attempt} ${a.review.approved ? 'approved' : 'rejected'} (${Math.round(a.review.approvalRatio * 100)}%)`
+                ).join(', ')}
+              </div>
+            )}
+
             {step.inputs && step.inputs.length > 0 && (
               <div className="step-deps">
                 Depends on: {step.inputs.map(id => `#${id}`).join(', ')}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentPool, PoolOptions } from './agent-pool';
+import { ModelConfig } from './cli-manager';
+
+// Answers "<pid>:<first line>" to each prompt; "crash" exits, "slow" waits first
+const AGENT = `
+let buffer = '';
+process.stdin.on('data', data => {
+  buffer += data;
+  let end;
+  while ((end = buffer.indexOf('--DONE--\\n')) !== -1) {
+    const first = buffer.slice(0, end).split('\\n')[0];
+    buffer = buffer.slice(end + 9);
+    if (first === 'crash') process.exit(1);
+    const reply = () => process.stdout.write(process.pid + ':' + first + '\\n--DONE--\\n');
+    first === 'slow' ? setTimeout(reply, 100) : reply();
+  }
+});
+`;
+
+describe('AgentPool', () => {
+  let dir: string;
+  let script: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-pool-'));
+    script = path.join(dir, 'agent.js');
+    await fs.writeFile(script, AGENT);
+  });
+
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  function makePool(pool: PoolOptions): AgentPool {
+    const config: ModelConfig = {
+      name: 'echo',
+      command: process.execPath,
+      args: [script],
+      interactionMode: 'stdin',
+      sentinel: '--DONE--',
+      timeoutMs: 5000,
+      pool: { probeIntervalMs: 0, restartDelayMs: 10, ...pool }
+    };
+    const agentPool = new AgentPool(config, dir);
+    agentPool.start();
+    return agentPool;
+  }
+
+  const pidOf = (response: string) => response.split(':')[0];
+
+  it('queues prompts while every worker is busy', async () => {
+    const pool = makePool({ size: 1 });
+    try {
+      const responses = await Promise.all([pool.send('slow'), pool.send('second')]);
+
+      expect(responses.map(r => r.split(':')[1])).toEqual(['slow', 'second']);
+      expect(pool.status()).toMatchObject({ size: 1, busy: 0, queued: 0 });
+    } finally {
+      pool.stop();
+    }
+  });
+
+  it('recycles a worker after maxRequests prompts', async () => {
+    const pool = makePool({ size: 1, maxRequests: 2 });
+    try {
+      const first = await pool.send('a');
+      const second = await pool.send('b');
+      const third = await pool.send('c');
+
+      expect(pidOf(second)).toBe(pidOf(first));
+      expect(pidOf(third)).not.toBe(pidOf(first));
+    } finally {
+      pool.stop();
+    }
+  });
+
+  it('restarts a worker that dies and gives up after maxRestarts', async () => {
+    const pool = makePool({ size: 1, maxRestarts: 1 });
+    try {
+      await expect(pool.send('crash')).rejects.toThrow('exited before sentinel');
+      expect(await pool.send('again')).toMatch(/^\d+:again$/);
+
+      await expect(pool.send('crash')).rejects.toThrow('exited before sentinel');
+      await expect(pool.send('crash')).rejects.toThrow('exited before sentinel');
+      expect(pool.isAvailable()).toBe(false);
+      await expect(pool.send('late')).rejects.toThrow('no live workers');
+    } finally {
+      pool.stop();
+    }
+  });
+});
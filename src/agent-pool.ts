@@ -0,0 +1,426 @@
+// ============================================================
+// Agent Pool - Supervised Persistent Processes for stdin Agents
+// Keeps warm agent processes, restarts them with backoff when they
+// die, recycles them after a number of prompts and queues prompts
+// while every process is busy.
+// ============================================================
+
+import { ChildProcess } from 'child_process';
+import type { ModelConfig } from './cli-manager';
+import { spawnAgent } from './sandbox';
+
+export const DEFAULT_SENTINEL = '--END-OF-RESPONSE--';
+
+const KILL_GRACE_MS = 5000;
+
+export interface PoolOptions {
+    /**
+     * Warm processes kept for the agent (default 1).
+     */
+    size?: number;
+    /**
+     * Prompts a process answers before it is replaced by a fresh one
+     * (default: never recycled).
+     */
+    maxRequests?: number;
+    /**
+     * How often idle processes are health-checked, in ms (default 30000;
+     * 0 disables probing).
+     */
+    probeIntervalMs?: number;
+    /**
+     * Prompt sent to idle processes as a health probe. Without one, a probe
+     * only checks that the process is alive and accepting input.
+     */
+    probePrompt?: string;
+    probeTimeoutMs?: number;            // Default 15000
+    /**
+     * Delay before restarting a process that died, doubled for every
+     * consecutive failure up to maxRestartDelayMs (defaults 1000 / 30000).
+     */
+    restartDelayMs?: number;
+    maxRestartDelayMs?: number;
+    /**
+     * Consecutive failures after which a process is given up (default 5).
+     */
+    maxRestarts?: number;
+}
+
+export interface PoolStatus {
+    size: number;
+    live: number;
+    busy: number;
+    queued: number;
+}
+
+export interface ExchangeOptions {
+    signal?: AbortSignal;
+    onChunk?: (chunk: string) => void;
+}
+
+interface Worker {
+    id: number;
+    child: ChildProcess | null;
+    busy: boolean;
+    requests: number;                   // Prompts answered by the current process
+    failures: number;                   // Consecutive deaths without a healthy answer
+    replacing: boolean;                 // Killed on purpose; restart without backoff
+    restartTimer: NodeJS.Timeout | null;
+    retired: boolean;                   // Gave up after maxRestarts
+}
+
+interface Waiter {
+    resolve: (worker: Worker) => void;
+    reject: (error: Error) => void;
+}
+
+export class AgentPool {
+    private workers: Worker[] = [];
+    private waiting: Waiter[] = [];
+    private probeTimer: NodeJS.Timeout | null = null;
+    private probing = false;
+    private stopped = false;
+
+    constructor(private config: ModelConfig, private cwd: string) { }
+
+    private get options(): PoolOptions {
+        return this.config.pool || {};
+    }
+
+    public start() {
+        const size = Math.max(1, this.options.size ?? 1);
+        for (let id = 1; id <= size; id++) {
+            const worker: Worker = {
+                id, child: null, busy: false, requests: 0, failures: 0,
+                replacing: false, restartTimer: null, retired: false
+            };
+            this.workers.push(worker);
+            this.spawnWorker(worker);
+        }
+
+        const interval = this.options.probeIntervalMs ?? 30000;
+        if (interval > 0) {
+            this.probeTimer = setInterval(() => this.probe(), interval);
+            this.probeTimer.unref();
+        }
+        console.log(`[AgentPool] ${this.config.name}: started ${size} worker(s)`);
+    }
+
+    /**
+     * True while at least one worker is running or due to be restarted.
+     */
+    public isAvailable(): boolean {
+        return !this.stopped && this.workers.some(w => !w.retired);
+    }
+
+    public status(): PoolStatus {
+        return {
+            size: this.workers.length,
+            live: this.workers.filter(w => w.child).length,
+            busy: this.workers.filter(w => w.busy).length,
+            queued: this.waiting.length
+        };
+    }
+
+    /**
+     * Sends a prompt to the next free worker, waiting for one if all are
+     * busy or restarting.
+     */
+    public async send(prompt: string, options: ExchangeOptions = {}): Promise<string> {
+        const worker = await this.acquire(options.signal);
+        try {
+            const response = await this.exchange(worker, prompt, options, this.config.timeoutMs);
+            worker.failures = 0;
+            worker.requests++;
+            return response;
+        } finally {
+            this.release(worker);
+        }
+    }
+
+    public stop() {
+        this.stopped = true;
+        if (this.probeTimer) clearInterval(this.probeTimer);
+        for (const worker of this.workers) {
+            if (worker.restartTimer) clearTimeout(worker.restartTimer);
+            if (worker.child) killProcess(worker.child);
+        }
+        this.rejectWaiting(`Agent ${this.config.name} stopped`);
+    }
+
+    // --------------------------------------------------------
+    // Supervision
+    // --------------------------------------------------------
+    private spawnWorker(worker: Worker) {
+        const child = spawnAgent(this.config, this.cwd);
+        worker.child = child;
+        worker.requests = 0;
+
+        child.on('error', (err) => {
+            console.error(`[AgentPool] ${this.config.name} worker ${worker.id} failed:`, err);
+            if (child.pid === undefined) {
+                this.onExit(worker, child, null, null);
+            }
+        });
+        child.on('exit', (code, signal) => this.onExit(worker, child, code, signal));
+        child.stderr?.on('data', (data) => {
+            console.error(`[${this.config.name} STDERR]: ${data.toString()}`);
+        });
+
+        console.log(`[AgentPool] ${this.config.name} worker ${worker.id} started (PID: ${child.pid}).`);
+        this.dispatch();
+    }
+
+    private onExit(worker: Worker, child: ChildProcess, code: number | null, signal: NodeJS.Signals | null) {
+        if (worker.child !== child) {
+            return;
+        }
+        worker.child = null;
+        if (this.stopped) {
+            return;
+        }
+
+        if (worker.replacing) {
+            worker.replacing = false;
+            this.spawnWorker(worker);
+            return;
+        }
+
+        worker.failures++;
+        const maxRestarts = this.options.maxRestarts ?? 5;
+        if (worker.failures > maxRestarts) {
+            worker.retired = true;
+            console.error(`[AgentPool] ${this.config.name} worker ${worker.id} gave up after ${maxRestarts} restarts`);
+            if (!this.isAvailable()) {
+                this.rejectWaiting(`Agent ${this.config.name} has no live workers`);
+            }
+            return;
+        }
+
+        const delay = Math.min(
+            (this.options.restartDelayMs ?? 1000) * 2 ** (worker.failures - 1),
+            this.options.maxRestartDelayMs ?? 30000
+        );
+        console.warn(`[AgentPool] ${this.config.name} worker ${worker.id} exited (code=${code}, signal=${signal}), restarting in ${delay}ms`);
+        worker.restartTimer = setTimeout(() => {
+            worker.restartTimer = null;
+            if (!this.stopped) {
+                this.spawnWorker(worker);
+            }
+        }, delay);
+    }
+
+    /**
+     * Kills a worker's process so a fresh one takes its place right away.
+     */
+    private replace(worker: Worker) {
+        if (worker.child) {
+            worker.replacing = true;
+            killProcess(worker.child);
+        }
+    }
+
+    /**
+     * Checks idle workers; ones that died, stopped taking input or fail the
+     * probe prompt are replaced.
+     */
+    private async probe() {
+        if (this.probing) return;
+        this.probing = true;
+        try {
+            for (const worker of this.workers) {
+                const child = worker.child;
+                if (!child || worker.busy) continue;
+
+                if (child.exitCode !== null || !child.stdin?.writable) {
+                    console.warn(`[AgentPool] ${this.config.name} worker ${worker.id} is not accepting input, replacing it`);
+                    this.replace(worker);
+                    continue;
+                }
+                if (!this.options.probePrompt) {
+                    continue;
+                }
+
+                worker.busy = true;
+                try {
+                    await this.exchange(worker, this.options.probePrompt, {}, this.options.probeTimeoutMs ?? 15000);
+                    worker.failures = 0;
+                } catch (error) {
+                    console.warn(`[AgentPool] ${this.config.name} worker ${worker.id} failed its health probe: ${error}`);
+                } finally {
+                    worker.busy = false;
+                    this.dispatch();
+                }
+            }
+        } finally {
+            this.probing = false;
+        }
+    }
+
+    // --------------------------------------------------------
+    // Queue
+    // --------------------------------------------------------
+    private acquire(signal?: AbortSignal): Promise<Worker> {
+        const idle = this.idleWorker();
+        if (idle) {
+            idle.busy = true;
+            return Promise.resolve(idle);
+        }
+        if (!this.isAvailable()) {
+            return Promise.reject(new Error(`Agent ${this.config.name} has no live workers`));
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(w => w !== waiter);
+                reject(new Error(`${this.config.name} cancelled`));
+            };
+            const waiter: Waiter = {
+                resolve: (worker) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(worker);
+                },
+                reject: (error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                }
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.waiting.push(waiter);
+            console.log(`[AgentPool] ${this.config.name}: all workers busy, ${this.waiting.length} prompt(s) queued`);
+        });
+    }
+
+    private release(worker: Worker) {
+        worker.busy = false;
+        const maxRequests = this.options.maxRequests;
+        if (maxRequests && worker.requests >= maxRequests && worker.child) {
+            console.log(`[AgentPool] ${this.config.name} worker ${worker.id} recycled after ${worker.requests} prompts`);
+            this.replace(worker);
+            return;
+        }
+        this.dispatch();
+    }
+
+    private dispatch() {
+        while (this.waiting.length > 0) {
+            const idle = this.idleWorker();
+            if (!idle) break;
+            idle.busy = true;
+            this.waiting.shift()!.resolve(idle);
+        }
+    }
+
+    private idleWorker(): Worker | undefined {
+        return this.workers.find(w => w.child && !w.busy && !w.replacing);
+    }
+
+    private rejectWaiting(message: string) {
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(w => w.reject(new Error(message)));
+    }
+
+    // --------------------------------------------------------
+    // Prompt Exchange
+    // --------------------------------------------------------
+    /**
+     * Writes the prompt to the worker's stdin and resolves with its output
+     * up to the sentinel. A worker that times out or is cancelled is still
+     * answering, so it is replaced rather than reused.
+     */
+    private exchange(worker: Worker, prompt: string, options: ExchangeOptions, timeoutMs?: number): Promise<string> {
+        const child = worker.child;
+        const name = this.config.name;
+        if (!child || !child.stdin || !child.stdout) {
+            return Promise.reject(new Error(`Agent ${name} is not running or has no stdin/stdout.`));
+        }
+        const stdin = child.stdin;
+        const stdout = child.stdout;
+        const { signal, onChunk } = options;
+
+        return new Promise((resolve, reject) => {
+            const sentinel = this.config.sentinel || DEFAULT_SENTINEL;
+            const fullPrompt = `${prompt}\n\nIMPORTANT: When you have finished your response, you MUST print the following line exactly:\n${sentinel}\n`;
+            const stream = sentinelStream(sentinel, onChunk);
+
+            let buffer = "";
+            let resolved = false;
+
+            const settle = (error: Error | null, response?: string) => {
+                if (resolved) return;
+                resolved = true;
+                if (timer) clearTimeout(timer);
+                stdout.off('data', onData);
+                child.off('exit', onExit);
+                signal?.removeEventListener('abort', onAbort);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(response!);
+                }
+            };
+
+            const onAbort = () => {
+                this.replace(worker);
+                settle(new Error(`${name} cancelled`));
+            };
+
+            const timer = timeoutMs ? setTimeout(() => {
+                this.replace(worker);
+                settle(new Error(`Timeout waiting for sentinel from ${name}`));
+            }, timeoutMs) : null;
+
+            const onExit = (code: number | null, exitSignal: NodeJS.Signals | null) => {
+                settle(new Error(`Agent ${name} exited before sentinel (code=${code}, signal=${exitSignal})`));
+            };
+
+            const onData = (data: Buffer) => {
+                buffer += data.toString();
+                stream(buffer);
+                if (buffer.includes(sentinel)) {
+                    settle(null, buffer.split(sentinel)[0].trim());
+                }
+            };
+
+            stdout.on('data', onData);
+            child.on('exit', onExit);
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            stdin.write(fullPrompt);
+        });
+    }
+}
+
+/**
+ * Sends SIGTERM, escalating to SIGKILL if the process ignores it.
+ */
+export function killProcess(child: ChildProcess) {
+    if (child.exitCode !== null || child.signalCode !== null) {
+        return;
+    }
+    child.kill('SIGTERM');
+    setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
+            child.kill('SIGKILL');
+        }
+    }, KILL_GRACE_MS).unref();
+}
+
+/**
+ * Turns a growing buffer into chunks for onChunk, stopping at the sentinel.
+ * The tail that could be the start of the sentinel is held back until the
+ * next call shows it isn't.
+ */
+export function sentinelStream(sentinel: string, onChunk?: (chunk: string) => void): (buffer: string) => void {
+    let emitted = 0;
+    return buffer => {
+        if (!onChunk) return;
+        const end = buffer.indexOf(sentinel);
+        const safe = end !== -1 ? end : Math.max(0, buffer.length - sentinel.length + 1);
+        if (safe > emitted) {
+            onChunk(buffer.slice(emitted, safe));
+            emitted = safe;
+        }
+    };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { AgentRouter } from './agent-router';
+import { ModelConfig } from './cli-manager';
+
+function agent(name: string, capabilities: string[], maxConcurrency = 1): ModelConfig {
+  return { name, command: 'claude', args: ['-p'], interactionMode: 'oneshot', maxConcurrency, capabilities };
+}
+
+const registry: Record<string, ModelConfig> = {
+  codex: agent('codex', ['write', 'edit', 'execute'], 2),
+  opus: agent('opus', ['analyze']),
+  antigravity: agent('antigravity', ['write', 'edit', 'execute'], 2)
+};
+
+describe('AgentRouter', () => {
+  it('should keep the assigned agent when it is capable and has capacity', () => {
+    const router = new AgentRouter(registry);
+    expect(router.route({ action: 'edit', assignedAgent: 'antigravity' })).toBe('antigravity');
+  });
+
+  it('should reroute steps to an agent with the matching capability', () => {
+    const router = new AgentRouter(registry);
+    expect(router.route({ action: 'analyze', assignedAgent: 'codex' })).toBe('opus');
+    expect(router.route({ action: 'write', assignedAgent: 'unknown' })).toBe('codex');
+  });
+
+  it('should balance load across agents sharing a capability', () => {
+    const router = new AgentRouter(registry);
+    const load = (name: string) => (name === 'codex' ? 2 : 1);
+    expect(router.route({ action: 'write', assignedAgent: 'codex' }, { load })).toBe('antigravity');
+  });
+
+  it('should prefer the assigned agent when every candidate is saturated', () => {
+    const router = new AgentRouter(registry);
+    const load = () => 2;
+    expect(router.route({ action: 'write', assignedAgent: 'antigravity' }, { load })).toBe('antigravity');
+  });
+
+  it('should fall back when the assigned agent is unavailable', () => {
+    const router = new AgentRouter(registry);
+    router.setAvailable('codex', false);
+    expect(router.route({ action: 'execute', assignedAgent: 'codex' })).toBe('antigravity');
+
+    router.setAvailable('antigravity', false);
+    expect(router.route({ action: 'execute', assignedAgent: 'codex' })).toBeNull();
+
+    router.setAvailable('codex', true);
+    expect(router.route({ action: 'execute', assignedAgent: 'codex' })).toBe('codex');
+  });
+
+  it('should keep the assigned agent for actions no agent declares', () => {
+    const router = new AgentRouter(registry);
+    expect(router.route({ action: 'delegate', assignedAgent: 'opus' })).toBe('opus');
+    expect(router.route({ action: 'delegate', assignedAgent: 'opus' }, { exclude: ['opus'] })).toBeNull();
+  });
+
+  it('should describe available agents and their capabilities', () => {
+    const router = new AgentRouter(registry);
+    router.setAvailable('opus', false);
+    expect(router.describe()).toBe('- codex: write, edit, execute\n- antigravity: write, edit, execute');
+  });
+});
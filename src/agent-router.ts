@@ -0,0 +1,99 @@
+// ============================================================
+// Agent Router - Capability-Based Step Assignment
+// Matches a step's action against the capabilities declared in
+// agents.config.json and spreads work across agents sharing one.
+// ============================================================
+
+import { ModelConfig } from './cli-manager';
+import { PlanStep } from './types';
+
+export interface RouteOptions {
+    /**
+     * Number of steps an agent is currently running. Agents with spare
+     * capacity (below their maxConcurrency) are preferred.
+     */
+    load?: (agentName: string) => number;
+    /**
+     * Agents that must not be picked for this step.
+     */
+    exclude?: string[];
+}
+
+export class AgentRouter {
+    private unavailable = new Set<string>();
+
+    constructor(private registry: Record<string, ModelConfig>) { }
+
+    public isKnown(agentName: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.registry, agentName);
+    }
+
+    /**
+     * Agents whose capabilities include the action, in registry order.
+     */
+    public capableOf(action: string): string[] {
+        return Object.entries(this.registry)
+            .filter(([, config]) => (config.capabilities || []).includes(action))
+            .map(([name]) => name);
+    }
+
+    // --------------------------------------------------------
+    // Availability
+    // --------------------------------------------------------
+    public setAvailable(agentName: string, available: boolean) {
+        if (available) {
+            this.unavailable.delete(agentName);
+        } else {
+            this.unavailable.add(agentName);
+        }
+    }
+
+    public isAvailable(agentName: string): boolean {
+        return this.isKnown(agentName) && !this.unavailable.has(agentName);
+    }
+
+    // --------------------------------------------------------
+    // Routing
+    // --------------------------------------------------------
+    /**
+     * Picks the agent that should run a step. The step's assignedAgent is
+     * kept while it is capable, available and has spare capacity; otherwise
+     * the least busy capable agent takes over. When no agent declares the
+     * action, the assigned agent is used as long as it is available.
+     * Returns null if no agent can run the step.
+     */
+    public route(step: Pick<PlanStep, 'action' | 'assignedAgent'>, options: RouteOptions = {}): string | null {
+        const load = options.load || (() => 0);
+        const usable = (name: string) => this.isAvailable(name) && !(options.exclude || []).includes(name);
+        const preferred = step.assignedAgent;
+
+        const candidates = this.capableOf(step.action).filter(usable);
+        if (candidates.length === 0) {
+            return usable(preferred) ? preferred : null;
+        }
+
+        if (candidates.includes(preferred) && load(preferred) < this.concurrencyOf(preferred)) {
+            return preferred;
+        }
+
+        // Lowest utilisation wins; ties go to the assigned agent, then registry order
+        const utilisation = (name: string) => load(name) / this.concurrencyOf(name);
+        return candidates
+            .slice()
+            .sort((a, b) => utilisation(a) - utilisation(b) || Number(b === preferred) - Number(a === preferred))[0];
+    }
+
+    /**
+     * One line per agent, e.g. "- codex: write, edit, read, execute".
+     */
+    public describe(): string {
+        return Object.entries(this.registry)
+            .filter(([name, config]) => this.isAvailable(name) && (config.capabilities || []).length > 0)
+            .map(([name, config]) => `- ${name}: ${(config.capabilities || []).join(', ')}`)
+            .join('\n');
+    }
+
+    private concurrencyOf(agentName: string): number {
+        return Math.max(1, this.registry[agentName]?.maxConcurrency ?? 1);
+    }
+}
@@ -1,5 +1,7 @@
 import { CLIManager, ModelConfig } from '../cli-manager';
 import { SharedContext } from '../types';
+import { activeCassette } from '../cassette';
+import { estimatedUsage, recordUsage } from '../usage';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as fs from 'fs-extra';
 import * as path from 'path';
@@ -7,12 +9,18 @@ import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+const GEMINI_MODEL = 'gemini-3-pro-preview';
+
+// Larger files are generated or vendored far more often than hand-written
+const MAX_FILE_BYTES = 256 * 1024;
+
 export class GeminiAgent {
     private genAI: GoogleGenerativeAI;
     private model: any;
 
     constructor(private cliManager: CLIManager, private config: ModelConfig) {
-        const apiKey = process.env.GEMINI_API_KEY;
+        // Replayed runs never reach the API, so they need no key
+        const apiKey = process.env.GEMINI_API_KEY || (activeCassette()?.mode === 'replay' ? 'replay' : undefined);
         if (!apiKey) {
             console.error("[GeminiAgent] GEMINI_API_KEY not found in environment variables.");
             throw new Error("GEMINI_API_KEY is required for GeminiAgent (Free Tier).");
@@ -21,19 +29,23 @@ export class GeminiAgent {
         this.genAI = new GoogleGenerativeAI(apiKey);
         // Debug: List available models
         // Use gemini-3-pro-preview as confirmed by ListModels
-        this.model = this.genAI.getGenerativeModel({ model: 'gemini-3-pro-preview' });
+        this.model = this.genAI.getGenerativeModel({ model: GEMINI_MODEL });
     }
 
     /**
      * Enriches the shared context by reading all relevant files and summarizing them if needed.
      */
-    public async enrichContext(context: SharedContext): Promise<void> {
+    public async enrichContext(context: SharedContext, signal?: AbortSignal): Promise<void> {
         console.log("[GeminiAgent] Reading entire repository to enrich context...");
 
         const files = await this.listFiles(this.cliManager['workspaceDir']);
 
         for (const file of files) {
+            signal?.throwIfAborted();
             if (file.endsWith('.ts') || file.endsWith('.json') || file.endsWith('.md')) {
+                if ((await fs.stat(file)).size > MAX_FILE_BYTES || path.basename(file) === 'package-lock.json') {
+                    continue;
+                }
                 const content = await fs.readFile(file, 'utf-8');
                 context.workspaceFiles.set(file, content);
             }
@@ -44,11 +56,23 @@ export class GeminiAgent {
         // Use Gemini to generate a summary
         try {
             const prompt = `Summarize the following project structure: ${files.join(', ')} `;
-            const result = await this.model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
+            const live = async (): Promise<string> => {
+                const result = await this.model.generateContent(prompt, { signal });
+                const response = await result.response;
+                const summary = response.text();
+                const usage = response.usageMetadata;
+                recordUsage(usage
+                    ? { model: GEMINI_MODEL, inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 }
+                    : estimatedUsage(GEMINI_MODEL, prompt, summary));
+                return summary;
+            };
+            const cassette = activeCassette();
+            const text = cassette ? await cassette.play('gemini', GEMINI_MODEL, prompt, live, signal) : await live();
             console.log("[GeminiAgent] Project Summary (Gemini Free Tier):", text);
         } catch (e: any) {
+            if (signal?.aborted) {
+                throw e;
+            }
             console.error("[GeminiAgent] Failed to generate summary with Gemini:", e);
             if (e.response) {
                 console.error("[GeminiAgent] Full Error Response:", JSON.stringify(e.response, null, 2));
@@ -61,7 +85,8 @@ export class GeminiAgent {
         const files: string[] = [];
         for (const entry of entries) {
             const fullPath = path.join(dir, entry.name);
-            if (entry.isDirectory() && entry.name !== 'node_modules' && entry.name !== '.git' && entry.name !== 'dist' && entry.name !== 'frontend') {
+            // Dot-directories hold tool state (.git, .ai-collab), not project code
+            if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.') && entry.name !== 'dist' && entry.name !== 'frontend') {
                 files.push(...await this.listFiles(fullPath));
             } else if (entry.isFile()) {
                 files.push(fullPath);
@@ -3,6 +3,13 @@
 // ============================================================
 
 import { CLIManager, ModelConfig } from '../cli-manager';
+import { AgentRouter } from '../agent-router';
+import { REGISTRY } from '../registry';
+import { formatClarifications, parseQuestions } from '../clarification';
+import { formatExtraContext } from '../plugins';
+import { JsonSchema, requestStructured } from '../structured-output';
+import { DEFAULT_CONTEXT_TOKENS } from '../context-builder';
+import { estimatePlanTokens } from '../usage';
 import {
     SharedContext,
     PlanStep,
@@ -13,17 +20,86 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 
 const CONFIDENCE_THRESHOLD = 0.7;
+export const STEP_ACTIONS: PlanStep['action'][] = ['read', 'write', 'edit', 'analyze', 'delegate', 'validate', 'execute'];
+
+const RISK_SEVERITIES: Risk['severity'][] = ['low', 'medium', 'high', 'critical'];
+const RISK_CATEGORIES: Risk['category'][] = ['breaking-change', 'security', 'performance', 'compatibility', 'data-loss', 'other'];
+
+export const PLAN_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['understanding', 'steps', 'confidence'],
+    properties: {
+        understanding: { type: 'string' },
+        approach: { type: 'string' },
+        steps: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['id', 'agent', 'type', 'action', 'target'],
+                properties: {
+                    id: { type: 'integer' },
+                    agent: { type: 'string' },
+                    type: { type: 'string', enum: STEP_ACTIONS },
+                    action: { type: 'string', minLength: 1 },
+                    target: { type: 'string' },
+                    dependsOn: { type: 'array', items: { type: 'integer' } }
+                }
+            }
+        },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        risks: {
+            type: 'array',
+            // Plain strings are still accepted as unrated risks
+            items: {
+                type: ['object', 'string'],
+                required: ['description', 'severity'],
+                properties: {
+                    description: { type: 'string' },
+                    severity: { type: 'string', enum: RISK_SEVERITIES },
+                    category: { type: 'string', enum: RISK_CATEGORIES },
+                    mitigation: { type: 'string' },
+                    steps: { type: 'array', items: { type: 'integer' } }
+                }
+            }
+        },
+        questions: { type: 'array', maxItems: 3 }
+    }
+};
+
+/**
+ * Problems PLAN_SCHEMA can't catch: step ids must be unique, or dependencies
+ * and risks would point at the wrong step.
+ */
+export function checkPlan(plan: SimplifiedPlanResponse): string[] {
+    const seen = new Set<number>();
+    const duplicates = new Set<number>();
+    for (const step of plan.steps) {
+        (seen.has(step.id) ? duplicates : seen).add(step.id);
+    }
+    return [...duplicates].map(id => `$.steps: step id ${id} is used more than once`);
+}
 
-interface SimplifiedPlanResponse {
+export interface SimplifiedPlanResponse {
     understanding: string;
     approach: string;
-    steps: { id: number; agent: string; action: string; target: string }[];
+    steps: { id: number; agent: string; type?: string; action: string; target: string; dependsOn?: number[] }[];
     confidence: number;
-    risks: string[];
+    risks: (string | PlannedRisk)[];
+    questions?: unknown[];
+}
+
+interface PlannedRisk {
+    description: string;
+    severity: Risk['severity'];
+    category?: Risk['category'];
+    mitigation?: string;
+    steps?: number[];                  // Ids of the steps the risk affects
 }
 
 export class OpusPlannerAgent {
     private workspaceDir: string;
+    private router = new AgentRouter(REGISTRY);
 
     constructor(
         private cliManager: CLIManager,
@@ -36,20 +112,17 @@ export class OpusPlannerAgent {
     // --------------------------------------------------------
     // Main Entry Point
     // --------------------------------------------------------
-    public async generatePlan(context: SharedContext): Promise<PlanResponse> {
+    public async generatePlan(context: SharedContext, signal?: AbortSignal): Promise<PlanResponse> {
         // Build minimal context
         const projectInfo = await this.getProjectInfo();
         const keyModules = await this.identifyKeyModules();
 
         // Construct compact prompt
-        const prompt = this.constructPrompt(context.userRequest, projectInfo, keyModules);
+        const prompt = this.constructPrompt(context, projectInfo, keyModules);
 
         // Send to Claude
         console.log('[OpusPlanner] Sending request to Claude Opus...');
-        const response = await this.cliManager.sendPrompt(this.config.name, prompt, this.config);
-
-        // Parse the simplified response
-        const simplified = this.parseSimplifiedResponse(response);
+        const simplified = await this.requestPlan(prompt, signal);
 
         // Convert to full PlanResponse
         const planResponse = this.convertToFullResponse(simplified);
@@ -57,7 +130,18 @@ export class OpusPlannerAgent {
         // Determine if approval is needed
         planResponse.requiresApproval = planResponse.confidence.overall < CONFIDENCE_THRESHOLD;
 
+        const questions = parseQuestions(simplified.questions, {
+            askedBy: this.config.name,
+            prior: context.clarifications
+        });
+        if (questions.length > 0) {
+            planResponse.questions = questions;
+        }
+
         console.log(`[OpusPlanner] Plan generated with ${planResponse.confidence.overall.toFixed(2)} confidence`);
+        if (questions.length > 0) {
+            console.log(`[OpusPlanner] ${questions.length} clarifying question(s) for the user`);
+        }
         if (planResponse.requiresApproval) {
             console.log('[OpusPlanner] Low confidence - plan requires user approval');
         }
@@ -65,6 +149,76 @@ export class OpusPlannerAgent {
         return planResponse;
     }
 
+    // --------------------------------------------------------
+    // Replanning After a Failure
+    // --------------------------------------------------------
+    /**
+     * Asks the planner for a new plan covering the work that is left after
+     * `failedSteps` failed. Completed steps are kept as-is; the returned
+     * response carries the same planId, the next revision number and the
+     * superseded plan in its history.
+     */
+    public async replan(context: SharedContext, failedSteps: PlanStep[], signal?: AbortSignal): Promise<PlanResponse> {
+        const current = context.planResponse;
+        if (!current) {
+            throw new Error('Cannot replan without an existing plan');
+        }
+
+        const completed = context.plan.filter(s => s.status === 'completed');
+        const prompt = this.constructReplanPrompt(context, completed, failedSteps);
+
+        console.log(`[OpusPlanner] Replanning after ${failedSteps.length} failed step(s)...`);
+        const revised = this.convertToFullResponse(await this.requestPlan(prompt, signal));
+
+        // New steps are numbered after every id the plan has used so far, so
+        // they never collide with completed steps or earlier revisions
+        const usedIds = [
+            ...context.plan.map(s => s.id),
+            ...(current.history || []).flatMap(r => r.steps.map(s => s.id))
+        ];
+        const nextId = Math.max(0, ...usedIds) + 1;
+        const idMap = new Map(revised.steps.map((step, idx) => [step.id, nextId + idx]));
+        const completedIds = new Set(completed.map(s => s.id));
+
+        const newSteps = revised.steps.map(step => ({
+            ...step,
+            id: idMap.get(step.id)!,
+            inputs: step.inputs
+                .map(dep => idMap.get(dep) ?? (completedIds.has(dep) ? dep : undefined))
+                .filter((dep): dep is number => dep !== undefined)
+        }));
+
+        const revision = (current.revision || 1) + 1;
+        const reason = failedSteps
+            .map(s => `Step ${s.id} failed: ${s.error || 'unknown error'}`)
+            .join('; ');
+
+        const planResponse: PlanResponse = {
+            ...revised,
+            planId: current.planId,
+            steps: [...completed, ...newSteps],
+            risks: revised.risks.map(risk => ({
+                ...risk,
+                affectedSteps: risk.affectedSteps.map(id => idMap.get(id)!)
+            })),
+            revision,
+            history: [
+                ...(current.history || []),
+                {
+                    revision: current.revision || 1,
+                    steps: JSON.parse(JSON.stringify(context.plan)),
+                    confidence: current.confidence.overall,
+                    reason,
+                    replacedAt: new Date().toISOString()
+                }
+            ]
+        };
+        planResponse.requiresApproval = planResponse.confidence.overall < CONFIDENCE_THRESHOLD;
+
+        console.log(`[OpusPlanner] Revision ${revision}: ${newSteps.length} new step(s), ${planResponse.confidence.overall.toFixed(2)} confidence`);
+        return planResponse;
+    }
+
     // --------------------------------------------------------
     // Get Project Info
     // --------------------------------------------------------
@@ -124,7 +278,7 @@ export class OpusPlannerAgent {
     // Prompt Construction (Compact)
     // --------------------------------------------------------
     private constructPrompt(
-        userRequest: string,
+        context: SharedContext,
         projectInfo: { name: string; type: string },
         keyModules: { path: string; purpose: string }[]
     ): string {
@@ -136,129 +290,109 @@ Project: ${projectInfo.name} (${projectInfo.type})
 Key files:
 ${keyFiles || '- Standard project structure'}
 
-TASK: ${userRequest}
-
+TASK: ${context.userRequest}
+${formatExtraContext(context)}${formatClarifications(context.clarifications)}
 Respond with ONLY a JSON object (no markdown, no extra text):
-{"understanding":"brief task summary","approach":"your approach","steps":[{"id":1,"agent":"codex","action":"what to do","target":"file.ts"}],"confidence":0.8,"risks":["potential risk"]}
+{"understanding":"brief task summary","approach":"your approach","steps":[{"id":1,"agent":"codex","type":"edit","action":"what to do","target":"file.ts","dependsOn":[]}],"confidence":0.8,"risks":[{"description":"potential risk","severity":"medium","steps":[1]}]}
 
+"dependsOn" lists the ids of steps that must finish first. Steps with no dependency between them run in parallel.
+If the task is ambiguous in a way that changes the plan, also add "questions":[{"question":"...","options":["..."]}] (at most 3) and lower "confidence"; the user's answers will be sent back to you.
+${this.agentGuide()}
 Keep it concise. Max 3-5 steps.`;
     }
 
-    // --------------------------------------------------------
-    // Response Parsing (Simplified format)
-    // --------------------------------------------------------
-    private parseSimplifiedResponse(response: string): SimplifiedPlanResponse {
-        const cleaned = response.trim();
-
-        // Try multiple extraction strategies
-        const strategies = [
-            () => this.extractPureJson(cleaned),
-            () => this.extractFromFence(cleaned),
-            () => this.extractFromBraces(cleaned),
-            () => this.repairAndParse(cleaned)
-        ];
+    private constructReplanPrompt(context: SharedContext, completed: PlanStep[], failedSteps: PlanStep[]): string {
+        const truncate = (text: string | undefined, max: number) =>
+            !text ? '(no output)' : text.length > max ? `${text.slice(0, max)}...[truncated]` : text;
 
-        for (const strategy of strategies) {
-            try {
-                const result = strategy();
-                if (result && result.steps) {
-                    return result;
-                }
-            } catch (e) {
-                // Try next strategy
-            }
-        }
+        const done = completed
+            .map(s => `- Step ${s.id} [${s.assignedAgent}] ${s.description} (${s.target})\n  Output: ${truncate(s.output, 500)}`)
+            .join('\n');
+        const failed = failedSteps
+            .map(s => `- Step ${s.id} [${s.assignedAgent}] ${s.description} (${s.target})\n  Error: ${truncate(s.error, 500)}`)
+            .join('\n');
+        const abandoned = context.plan
+            .filter(s => s.status !== 'completed' && !failedSteps.includes(s))
+            .map(s => `- Step ${s.id}: ${s.description} (${s.target})`)
+            .join('\n');
 
-        // All strategies failed - return fallback
-        console.error('[OpusPlanner] All parsing strategies failed.');
-        console.error('[OpusPlanner] Raw response (first 300 chars):', cleaned.slice(0, 300));
-        return this.createFallbackSimplified();
-    }
+        return `You are Opus, a planning agent. A plan you made has partly failed. Create a revised plan for the REMAINING work only.
 
-    private extractPureJson(text: string): SimplifiedPlanResponse {
-        // Try to parse as pure JSON
-        if (text.startsWith('{')) {
-            return JSON.parse(text);
-        }
-        throw new Error('Not pure JSON');
-    }
+ORIGINAL TASK: ${context.userRequest}
+${formatExtraContext(context)}${formatClarifications(context.clarifications)}
+COMPLETED STEPS (already done, do not repeat):
+${done || '- None'}
 
-    private extractFromFence(text: string): SimplifiedPlanResponse {
-        const match = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (match) {
-            return JSON.parse(match[1]);
-        }
-        throw new Error('No fence found');
-    }
-
-    private extractFromBraces(text: string): SimplifiedPlanResponse {
-        const start = text.indexOf('{');
-        const end = text.lastIndexOf('}');
-        if (start !== -1 && end > start) {
-            return JSON.parse(text.slice(start, end + 1));
-        }
-        throw new Error('No braces found');
-    }
+FAILED STEPS:
+${failed}
 
-    private repairAndParse(text: string): SimplifiedPlanResponse {
-        // Try to repair truncated JSON
-        let json = text;
+STEPS NOT YET RUN:
+${abandoned || '- None'}
 
-        // Find JSON start
-        const start = json.indexOf('{');
-        if (start !== -1) {
-            json = json.slice(start);
-        }
+Avoid the approach that caused the failure.
 
-        // Check if truncated (no closing brace or missing parts)
-        if (!json.includes('}')) {
-            // Add missing closing braces/brackets
-            const openBraces = (json.match(/{/g) || []).length;
-            const closeBraces = (json.match(/}/g) || []).length;
-            const openBrackets = (json.match(/\[/g) || []).length;
-            const closeBrackets = (json.match(/]/g) || []).length;
+Respond with ONLY a JSON object (no markdown, no extra text):
+{"understanding":"brief task summary","approach":"your revised approach","steps":[{"id":1,"agent":"codex","type":"edit","action":"what to do","target":"file.ts","dependsOn":[]}],"confidence":0.8,"risks":[{"description":"potential risk","severity":"medium","steps":[1]}]}
 
-            json += ']'.repeat(Math.max(0, openBrackets - closeBrackets));
-            json += '}'.repeat(Math.max(0, openBraces - closeBraces));
-        }
+"dependsOn" lists the ids of steps in your new plan that must finish first. Steps with no dependency between them run in parallel.
+${this.agentGuide()}
+Keep it concise. Max 3-5 steps.`;
+    }
 
-        return JSON.parse(json);
+    private agentGuide(): string {
+        return `Each risk's "severity" is one of: ${RISK_SEVERITIES.join(', ')}; its "steps" lists the ids of the steps it affects.
+"type" is one of: ${STEP_ACTIONS.join(', ')}. Pick an "agent" whose capabilities include the step's type:
+${this.router.describe()}`;
     }
 
-    private createFallbackSimplified(): SimplifiedPlanResponse {
-        return {
-            understanding: 'Unable to parse plan response',
-            approach: 'Manual review required',
-            steps: [
-                { id: 1, agent: 'opus', action: 'Review request and create plan manually', target: 'task' }
-            ],
-            confidence: 0.3,
-            risks: ['Response parsing failed']
-        };
+    // --------------------------------------------------------
+    // Response Parsing (Simplified format)
+    // --------------------------------------------------------
+    /**
+     * Sends a planning prompt and returns the reply validated against
+     * PLAN_SCHEMA, re-asking with the validation errors if needed.
+     */
+    private requestPlan(prompt: string, signal?: AbortSignal): Promise<SimplifiedPlanResponse> {
+        return requestStructured<SimplifiedPlanResponse>(
+            text => this.cliManager.sendPrompt(this.config.name, text, this.config, { signal }),
+            prompt,
+            { schema: PLAN_SCHEMA, check: checkPlan, label: 'Plan' }
+        );
     }
 
     // --------------------------------------------------------
     // Convert Simplified to Full Response
     // --------------------------------------------------------
     private convertToFullResponse(simplified: SimplifiedPlanResponse): PlanResponse {
-        const steps: PlanStep[] = (simplified.steps || []).map((step, idx) => ({
-            id: step.id ?? idx + 1,
-            action: 'execute' as const,
-            target: step.target || 'unknown',
-            description: step.action || 'No description',
-            assignedAgent: this.normalizeAgent(step.agent),
-            status: 'pending' as const,
-            inputs: [],
-            outputs: []
-        }));
-
-        const risks: Risk[] = (simplified.risks || []).map((risk) => ({
-            severity: 'medium' as const,
-            category: 'other' as const,
-            description: typeof risk === 'string' ? risk : 'Unknown risk',
-            mitigation: 'Review before execution',
-            affectedSteps: steps.map(s => s.id)
-        }));
+        const steps: PlanStep[] = (simplified.steps || []).map((step, idx) => {
+            const action = this.normalizeAction(step.type);
+            return {
+                id: step.id ?? idx + 1,
+                action,
+                target: step.target || 'unknown',
+                description: step.action || 'No description',
+                assignedAgent: this.normalizeAgent(step.agent, action),
+                status: 'pending' as const,
+                inputs: Array.isArray(step.dependsOn)
+                    ? step.dependsOn.filter(dep => typeof dep === 'number')
+                    : [],
+                outputs: []
+            };
+        });
+
+        // Unrated risks, and risks naming no steps, apply to the whole plan
+        const stepIds = steps.map(s => s.id);
+        const risks: Risk[] = (simplified.risks || []).map(risk => {
+            const planned: PlannedRisk = typeof risk === 'string' ? { description: risk, severity: 'medium' } : risk;
+            const affected = (planned.steps || []).filter(id => stepIds.includes(id));
+            return {
+                severity: planned.severity,
+                category: planned.category || 'other',
+                description: planned.description,
+                mitigation: planned.mitigation || 'Review before execution',
+                affectedSteps: affected.length > 0 ? affected : stepIds
+            };
+        });
 
         const confidence = typeof simplified.confidence === 'number'
             ? simplified.confidence
@@ -287,16 +421,25 @@ Keep it concise. Max 3-5 steps.`;
                 executionFeasibility: confidence,
                 overall: confidence
             },
-            estimatedTokens: 500,
+            estimatedTokens: estimatePlanTokens(steps, step => REGISTRY[step.assignedAgent]?.contextTokens ?? DEFAULT_CONTEXT_TOKENS),
             requiresApproval: false
         };
     }
 
-    private normalizeAgent(agent: string): 'codex' | 'opus' | 'gemini' | 'antigravity' {
-        const normalized = (agent || 'codex').toLowerCase();
-        if (['codex', 'opus', 'gemini', 'antigravity'].includes(normalized)) {
-            return normalized as 'codex' | 'opus' | 'gemini' | 'antigravity';
+    private normalizeAction(type: string | undefined): PlanStep['action'] {
+        const normalized = (type || '').toLowerCase() as PlanStep['action'];
+        return STEP_ACTIONS.includes(normalized) ? normalized : 'execute';
+    }
+
+    /**
+     * Agents missing from the registry are replaced by the first agent
+     * capable of the step's action.
+     */
+    private normalizeAgent(agent: string, action: PlanStep['action']): string {
+        const normalized = (agent || '').toLowerCase();
+        if (this.router.isKnown(normalized)) {
+            return normalized;
         }
-        return 'codex';
+        return this.router.capableOf(action)[0] || this.router.capableOf('execute')[0] || 'codex';
     }
 }
@@ -1,6 +1,9 @@
 import { CLIManager, ModelConfig } from '../cli-manager';
-import { PlanStep } from '../types';
+import { PlanStep, ReviewVerdict } from '../types';
 import { OpenAI } from 'openai';
+import { createChatCompletion } from '../cassette';
+import { badOutput, withResilience } from '../resilience';
+import { JsonSchema, requestStructured } from '../structured-output';
 
 // ============================================================
 // Self-Correcting OSS Agent Swarm Protocol
@@ -26,12 +29,28 @@ const DEFAULT_CONFIG: SwarmConfig = {
     consensusThreshold: 0.6,   // 60% must approve
 };
 
+export const VOTE_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['vote', 'confidence', 'reason'],
+    properties: {
+        vote: { type: 'string', enum: ['APPROVE', 'REJECT'] },
+        confidence: { type: 'number', minimum: 0, maximum: 100 },
+        reason: { type: 'string' }
+    }
+};
+
+export interface VoteReply {
+    vote: "APPROVE" | "REJECT";
+    confidence: number;
+    reason: string;
+}
+
 interface AgentResult {
     agentId: number;
     model: string;
     initialAssessment: string;
     correctedAssessment: string;
-    finalVote: "APPROVE" | "REJECT";
+    finalVote: "APPROVE" | "REJECT" | "ABSTAIN";
     confidence: number;
     reasoning: string;
 }
@@ -57,7 +76,16 @@ export class ReviewerAgent {
     // ============================================================
     // Main Entry: Self-Correcting Swarm Review
     // ============================================================
-    public async reviewStep(step: PlanStep, output: string): Promise<boolean> {
+    public async reviewStep(step: PlanStep, output: string, signal?: AbortSignal): Promise<boolean> {
+        const verdict = await this.reviewStepDetailed(step, output, signal);
+        return verdict.approved;
+    }
+
+    /**
+     * Same review as reviewStep, but returns the individual votes and the
+     * issues the swarm raised so callers can ask for a revision.
+     */
+    public async reviewStepDetailed(step: PlanStep, output: string, signal?: AbortSignal): Promise<ReviewVerdict> {
         console.log(`\n[Swarm] 🐝 Deploying Self-Correcting Swarm (${this.config.swarmSize} agents)...`);
         console.log(`[Swarm] Protocol: Generate(T=${this.config.generateTemp}) → Correct(T=${this.config.correctTemp}) → Vote`);
 
@@ -70,7 +98,7 @@ export class ReviewerAgent {
         for (let i = 0; i < this.config.swarmSize; i++) {
             // Distribute across models for diversity
             const model = SWARM_MODELS[i % SWARM_MODELS.length];
-            agentPromises.push(this.runAgentWorkflow(i, model, step, tinyContext));
+            agentPromises.push(this.runAgentWorkflow(i, model, step, tinyContext, signal));
         }
 
         const results = await Promise.all(agentPromises);
@@ -86,7 +114,8 @@ export class ReviewerAgent {
         agentId: number,
         model: string,
         step: PlanStep,
-        context: string
+        context: string,
+        signal?: AbortSignal
     ): Promise<AgentResult> {
         const shortModel = model.split('/').pop() || model;
         console.log(`[Agent #${agentId}] Starting workflow with ${shortModel}...`);
@@ -109,13 +138,13 @@ ISSUES: [list any problems found, or "None"]
 QUALITY: [1-10 score]
 NOTES: [any observations]`;
 
-            const generateResponse = await this.client.chat.completions.create({
+            const generateResponse = await this.complete({
                 model: model,
                 messages: [{ role: "user", content: generatePrompt }],
                 max_tokens: 300,
                 temperature: this.config.generateTemp,
                 seed: 1000 + agentId, // Unique seed per agent
-            });
+            }, signal);
 
             const initialAssessment = generateResponse.choices[0]?.message?.content || "No assessment";
             console.log(`[Agent #${agentId}] Phase 1 (Generate) complete`);
@@ -139,12 +168,12 @@ CORRECTIONS: [what you're changing and why, or "None needed"]
 FINAL_ISSUES: [updated list of real problems]
 FINAL_QUALITY: [1-10 score, justified]`;
 
-            const correctResponse = await this.client.chat.completions.create({
+            const correctResponse = await this.complete({
                 model: model,
                 messages: [{ role: "user", content: correctPrompt }],
                 max_tokens: 300,
                 temperature: this.config.correctTemp,
-            });
+            }, signal);
 
             const correctedAssessment = correctResponse.choices[0]?.message?.content || "No correction";
             console.log(`[Agent #${agentId}] Phase 2 (Correct) complete`);
@@ -159,20 +188,19 @@ Task requirement: ${step.description}
 
 Based on your analysis, does this code PASS or FAIL the requirements?
 
-You must respond in EXACTLY this format:
-VOTE: APPROVE or REJECT
-CONFIDENCE: [0-100]%
-REASON: [one sentence explanation]`;
-
-            const voteResponse = await this.client.chat.completions.create({
-                model: model,
-                messages: [{ role: "user", content: votePrompt }],
-                max_tokens: 100,
-                temperature: 0.0, // Deterministic voting
-            });
+Respond with ONLY a JSON object (no markdown, no extra text):
+{"vote":"APPROVE","confidence":85,"reason":"one sentence explanation"}
+"vote" is APPROVE or REJECT; "confidence" is 0-100.`;
 
-            const voteContent = voteResponse.choices[0]?.message?.content || "APPROVE";
-            const parsed = this.parseVote(voteContent);
+            const parsed = await requestStructured<VoteReply>(async prompt => {
+                const voteResponse = await this.complete({
+                    model: model,
+                    messages: [{ role: "user", content: prompt }],
+                    max_tokens: 100,
+                    temperature: 0.0, // Deterministic voting
+                }, signal);
+                return voteResponse.choices[0]?.message?.content || "";
+            }, votePrompt, { schema: VOTE_SCHEMA, label: `Agent #${agentId} vote` });
 
             console.log(`[Agent #${agentId}] Phase 3 (Vote): ${parsed.vote} (${parsed.confidence}%)`);
 
@@ -183,46 +211,46 @@ REASON: [one sentence explanation]`;
                 correctedAssessment,
                 finalVote: parsed.vote,
                 confidence: parsed.confidence,
-                reasoning: parsed.reasoning,
+                reasoning: parsed.reason,
             };
 
         } catch (error: any) {
+            // Cancellation must never turn into a vote
+            if (signal?.aborted) {
+                throw error;
+            }
             console.error(`[Agent #${agentId}] Error: ${error.message}`);
-            // Fail open on error - don't block deployment
+            // A failed agent abstains rather than voting either way
             return {
                 agentId,
                 model: shortModel,
                 initialAssessment: "Error during assessment",
                 correctedAssessment: "Error during correction",
-                finalVote: "APPROVE",
-                confidence: 30,
+                finalVote: "ABSTAIN",
+                confidence: 0,
                 reasoning: `API error: ${error.message.substring(0, 50)}`,
             };
         }
     }
 
-    // ============================================================
-    // Parse Vote Response
-    // ============================================================
-    private parseVote(content: string): { vote: "APPROVE" | "REJECT"; confidence: number; reasoning: string } {
-        const lines = content.trim().split('\n');
-        const voteLine = lines[0]?.toUpperCase() || "";
-        const vote = voteLine.includes("REJECT") ? "REJECT" : "APPROVE";
-
-        // Extract confidence (look for a number)
-        const confidenceMatch = content.match(/(\d+)/);
-        const confidence = confidenceMatch ? Math.min(100, parseInt(confidenceMatch[1])) : 50;
-
-        // Rest is reasoning
-        const reasoning = lines.slice(2).join(' ').trim() || "No reasoning provided";
-
-        return { vote, confidence, reasoning };
+    /**
+     * One chat completion, retried on transient errors and empty replies
+     * under the model's circuit breaker.
+     */
+    private complete(params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, signal?: AbortSignal) {
+        return withResilience(`model:${params.model}`, async () => {
+            const response = await createChatCompletion(this.client, params, { signal });
+            if (!response.choices[0]?.message?.content?.trim()) {
+                throw badOutput(`${params.model} returned an empty completion`);
+            }
+            return response;
+        }, { ...this.modelConfig.retry, signal });
     }
 
     // ============================================================
     // Consensus Calculation (Weighted by Confidence)
     // ============================================================
-    private calculateConsensus(results: AgentResult[]): boolean {
+    private calculateConsensus(results: AgentResult[]): ReviewVerdict {
         console.log("\n[Swarm] 📊 Swarm Consensus Report:");
         console.log("─".repeat(70));
 
@@ -238,6 +266,10 @@ REASON: [one sentence explanation]`;
         // Calculate weighted consensus
         const approvals = results.filter(r => r.finalVote === "APPROVE");
         const rejections = results.filter(r => r.finalVote === "REJECT");
+        const abstentions = results.length - approvals.length - rejections.length;
+        if (abstentions === results.length) {
+            throw new Error(`Swarm review failed: all ${results.length} agents errored`);
+        }
 
         const approvalWeight = approvals.reduce((sum, r) => sum + r.confidence, 0);
         const rejectionWeight = rejections.reduce((sum, r) => sum + r.confidence, 0);
@@ -247,7 +279,7 @@ REASON: [one sentence explanation]`;
         const simpleRatio = approvals.length / results.length;
 
         console.log("─".repeat(70));
-        console.log(`[Swarm] Simple Vote: ${approvals.length} APPROVE vs ${rejections.length} REJECT`);
+        console.log(`[Swarm] Simple Vote: ${approvals.length} APPROVE vs ${rejections.length} REJECT${abstentions ? ` (${abstentions} abstained)` : ''}`);
         console.log(`[Swarm] Weighted Score: ${(approvalRatio * 100).toFixed(1)}% approval`);
         console.log(`[Swarm] Threshold: ${this.config.consensusThreshold * 100}%`);
 
@@ -261,36 +293,44 @@ REASON: [one sentence explanation]`;
         }
         console.log("─".repeat(70));
 
-        return approved;
+        return {
+            approved,
+            approvalRatio,
+            votes: results.map(r => ({
+                agentId: r.agentId,
+                model: r.model,
+                vote: r.finalVote,
+                confidence: r.confidence,
+                reasoning: r.reasoning
+            })),
+            issues: this.collectIssues(results)
+        };
     }
 
     // ============================================================
-    // Quick Review (Single Agent, No Self-Correction)
-    // For fast, low-stakes reviews
+    // Collect Issues (FINAL_ISSUES from each corrected assessment)
     // ============================================================
-    public async quickReview(task: string, output: string): Promise<boolean> {
-        console.log("[Swarm] ⚡ Quick review (single agent)...");
-
-        const prompt = `Does this output correctly complete the task?
-Task: ${task}
-Output: ${output.substring(0, 1000)}
+    private collectIssues(results: AgentResult[]): string[] {
+        const issues = new Set<string>();
+
+        for (const result of results) {
+            const match = result.correctedAssessment.match(/FINAL_ISSUES:\s*([\s\S]*?)(?:\n\s*FINAL_QUALITY:|$)/i);
+            const section = match?.[1]?.trim();
+            if (!section || /^\[?none\]?\.?$/i.test(section)) {
+                continue;
+            }
+
+            section.split('\n')
+                .map(line => line.replace(/^[\s\-*\d.)\[\]]+/, '').replace(/\]$/, '').trim())
+                .filter(line => line && !/^none\.?$/i.test(line))
+                .forEach(line => issues.add(line));
+        }
 
-Answer YES or NO with a brief reason.`;
+        // Rejecting agents' reasons matter even if they listed no issues
+        results
+            .filter(r => r.finalVote === "REJECT")
+            .forEach(r => issues.add(r.reasoning));
 
-        try {
-            const response = await this.client.chat.completions.create({
-                model: SWARM_MODELS[0],
-                messages: [{ role: "user", content: prompt }],
-                max_tokens: 50,
-                temperature: 0.1,
-            });
-
-            const content = response.choices[0]?.message?.content || "YES";
-            const approved = content.toUpperCase().includes("YES");
-            console.log(`[Swarm] Quick: ${approved ? "✅ YES" : "❌ NO"} - ${content.substring(0, 50)}`);
-            return approved;
-        } catch {
-            return true; // Fail open
-        }
+        return [...issues];
     }
 }
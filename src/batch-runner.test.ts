@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { loadBatchTasks, planViolation, runQueue, BatchTask } from './batch-runner';
+import { PlanResponse } from './types';
+
+function makeTask(overrides: Partial<BatchTask> = {}): BatchTask {
+  return { id: 'task', request: 'Refactor', workspace: '/repo', ...overrides };
+}
+
+function makePlan(steps: number, requiresApproval = false): PlanResponse {
+  return {
+    steps: Array.from({ length: steps }, (_, i) => ({ id: i + 1, status: 'pending' })),
+    requiresApproval,
+    confidence: { overall: requiresApproval ? 0.5 : 0.9 }
+  } as unknown as PlanResponse;
+}
+
+describe('loadBatchTasks', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should load every JSON file in a directory, resolving workspaces', async () => {
+    await fs.writeJson(path.join(dir, 'a.json'), { request: 'Add tests', workspace: 'app' });
+    await fs.writeJson(path.join(dir, 'b.json'), [
+      { id: 'lint', request: 'Fix lint' },
+      { request: 'Update docs', budget: { maxSteps: 3 } }
+    ]);
+    await fs.writeFile(path.join(dir, 'notes.txt'), 'ignored');
+
+    const tasks = await loadBatchTasks(dir);
+
+    expect(tasks.map(t => t.id)).toEqual(['a', 'lint', 'b-2']);
+    expect(tasks[0].workspace).toBe(path.join(dir, 'app'));
+    expect(tasks[1].workspace).toBe(dir);
+    expect(tasks[2].budget).toEqual({ maxSteps: 3 });
+  });
+
+  it('should reject tasks without a request or with duplicate ids', async () => {
+    const file = path.join(dir, 'tasks.json');
+    await fs.writeJson(file, [{ id: 'x' }]);
+    await expect(loadBatchTasks(file)).rejects.toThrow('Task x has no "request"');
+
+    await fs.writeJson(file, [{ id: 'x', request: 'a' }, { id: 'x', request: 'b' }]);
+    await expect(loadBatchTasks(file)).rejects.toThrow('Duplicate task id: x');
+  });
+});
+
+describe('planViolation', () => {
+  it('should reject plans over the step budget', () => {
+    expect(planViolation(makeTask({ budget: { maxSteps: 2 } }), makePlan(3))).toBe('Plan has 3 steps, budget allows 2');
+    expect(planViolation(makeTask({ budget: { maxSteps: 3 } }), makePlan(3))).toBeNull();
+  });
+
+  it('should reject low-confidence plans unless plans are auto-approved', () => {
+    expect(planViolation(makeTask(), makePlan(1, true))).toContain('needs approval');
+    expect(planViolation(makeTask({ approval: { plans: 'auto' } }), makePlan(1, true))).toBeNull();
+  });
+});
+
+describe('runQueue', () => {
+  it('should run tasks in parallel but never two in the same workspace', async () => {
+    const tasks = [
+      makeTask({ id: 'a', workspace: '/one' }),
+      makeTask({ id: 'b', workspace: '/one' }),
+      makeTask({ id: 'c', workspace: '/two' })
+    ];
+    const active = new Set<string>();
+    let maxActive = 0;
+
+    const results = await runQueue(tasks, 3, async task => {
+      expect([...active].some(id => tasks.find(t => t.id === id)!.workspace === task.workspace)).toBe(false);
+      active.add(task.id);
+      maxActive = Math.max(maxActive, active.size);
+      await new Promise(r => setTimeout(r, 5));
+      active.delete(task.id);
+      return task.id;
+    });
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should respect the parallel limit', async () => {
+    const tasks = ['a', 'b', 'c'].map(id => makeTask({ id, workspace: `/${id}` }));
+    let active = 0;
+    let maxActive = 0;
+
+    await runQueue(tasks, 1, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(r => setTimeout(r, 1));
+      active--;
+    });
+
+    expect(maxActive).toBe(1);
+  });
+});
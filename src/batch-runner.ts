@@ -0,0 +1,317 @@
+// ============================================================
+// Batch Runner - Headless Task Queue
+// Runs a queue of task definitions through the Orchestrator
+// without a frontend and writes one consolidated report.
+// ============================================================
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Orchestrator, HeadlessApprovalRequest } from './orchestrator';
+import { RunStore, RunStatus } from './run-store';
+import { StepApprovalPolicy } from './step-policy';
+import { PlanResponse, PlanStep } from './types';
+
+export interface BatchApprovalPolicy {
+    /**
+     * "confident" (default) rejects plans the planner flags for approval;
+     * "auto" runs every plan.
+     */
+    plans?: 'confident' | 'auto';
+    /**
+     * What happens to steps the step policy gates: "reject" (default)
+     * skips them, "approve" runs them.
+     */
+    steps?: 'reject' | 'approve';
+    /**
+     * Overrides for the workspace's stepApproval policy.
+     */
+    stepApproval?: Partial<StepApprovalPolicy>;
+}
+
+export interface BatchBudget {
+    /**
+     * Wall-clock limit; the run is cancelled once it is exceeded.
+     */
+    maxMinutes?: number;
+    /**
+     * Plans with more steps than this are rejected.
+     */
+    maxSteps?: number;
+}
+
+export interface BatchTask {
+    id: string;
+    request: string;
+    workspace: string;                 // Absolute path once loaded
+    approval?: BatchApprovalPolicy;
+    budget?: BatchBudget;
+}
+
+export type BatchTaskStatus = RunStatus | 'timed-out' | 'error';
+
+export interface BatchTaskResult {
+    id: string;
+    request: string;
+    workspace: string;
+    planId?: string;
+    status: BatchTaskStatus;
+    totalSteps: number;
+    completedSteps: number;
+    failedSteps: number;
+    skippedSteps: number;
+    durationMs: number;
+    error?: string;
+    steps: { id: number; agent: string; description: string; status: PlanStep['status']; error?: string }[];
+}
+
+export interface BatchReport {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    parallel: number;
+    summary: Partial<Record<BatchTaskStatus, number>> & { total: number };
+    tasks: BatchTaskResult[];
+}
+
+export interface BatchRunnerOptions {
+    /**
+     * How many tasks may run at once (default 1). Tasks that share a
+     * workspace always run one after another.
+     */
+    parallel?: number;
+}
+
+// ------------------------------------------------------------
+// Task Definitions
+// ------------------------------------------------------------
+/**
+ * Reads task definitions from a JSON file or from every *.json file in a
+ * directory. A file holds one task or an array of tasks; workspaces are
+ * resolved relative to the file and default to its directory.
+ */
+export async function loadBatchTasks(source: string): Promise<BatchTask[]> {
+    const resolved = path.resolve(source);
+    const files = (await fs.stat(resolved)).isDirectory()
+        ? (await fs.readdir(resolved)).filter(f => f.endsWith('.json')).sort().map(f => path.join(resolved, f))
+        : [resolved];
+
+    const tasks: BatchTask[] = [];
+    for (const file of files) {
+        const content = await fs.readJson(file);
+        const entries: unknown[] = Array.isArray(content) ? content : [content];
+        const base = path.basename(file, '.json');
+
+        entries.forEach((entry, idx) => {
+            tasks.push(normalizeTask(entry, entries.length > 1 ? `${base}-${idx + 1}` : base, path.dirname(file)));
+        });
+    }
+
+    const seen = new Set<string>();
+    for (const task of tasks) {
+        if (seen.has(task.id)) {
+            throw new Error(`Duplicate task id: ${task.id}`);
+        }
+        seen.add(task.id);
+    }
+    return tasks;
+}
+
+function normalizeTask(entry: any, fallbackId: string, baseDir: string): BatchTask {
+    if (!entry || typeof entry.request !== 'string' || !entry.request.trim()) {
+        throw new Error(`Task ${entry?.id || fallbackId} has no "request"`);
+    }
+    return {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : fallbackId,
+        request: entry.request,
+        workspace: path.resolve(baseDir, typeof entry.workspace === 'string' ? entry.workspace : '.'),
+        approval: entry.approval,
+        budget: entry.budget
+    };
+}
+
+/**
+ * Why a plan may not run under the task's policy and budget, or null if
+ * it may.
+ */
+export function planViolation(task: BatchTask, planResponse: PlanResponse): string | null {
+    if (planResponse.veto) {
+        return `Plan vetoed by plugin ${planResponse.veto}`;
+    }
+    const maxSteps = task.budget?.maxSteps;
+    const pending = planResponse.steps.filter(s => s.status !== 'completed').length;
+    if (maxSteps !== undefined && pending > maxSteps) {
+        return `Plan has ${pending} steps, budget allows ${maxSteps}`;
+    }
+    if (planResponse.requiresApproval && (task.approval?.plans ?? 'confident') !== 'auto') {
+        return `Plan confidence ${(planResponse.confidence.overall * 100).toFixed(0)}% needs approval`;
+    }
+    return null;
+}
+
+// ------------------------------------------------------------
+// Queue
+// ------------------------------------------------------------
+/**
+ * Runs tasks with up to `parallel` in flight, never two with the same
+ * workspace at once. Results come back in task order.
+ */
+export async function runQueue<R>(
+    tasks: BatchTask[],
+    parallel: number,
+    worker: (task: BatchTask) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(tasks.length);
+    const pending = tasks.map((task, idx) => ({ task, idx }));
+    const busy = new Set<string>();
+    const running = new Set<Promise<void>>();
+
+    while (pending.length > 0 || running.size > 0) {
+        while (running.size < Math.max(1, parallel)) {
+            const next = pending.findIndex(p => !busy.has(p.task.workspace));
+            if (next === -1) break;
+
+            const [{ task, idx }] = pending.splice(next, 1);
+            busy.add(task.workspace);
+            const run: Promise<void> = worker(task)
+                .then(result => { results[idx] = result; })
+                .finally(() => {
+                    busy.delete(task.workspace);
+                    running.delete(run);
+                });
+            running.add(run);
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running);
+    }
+    return results;
+}
+
+export class BatchRunner {
+    private parallel: number;
+
+    constructor(options: BatchRunnerOptions = {}) {
+        this.parallel = Math.max(1, options.parallel ?? 1);
+    }
+
+    public async run(tasks: BatchTask[]): Promise<BatchReport> {
+        const startedAt = new Date();
+        console.log(`[Batch] Running ${tasks.length} task(s), ${this.parallel} at a time`);
+
+        const results = await runQueue(tasks, this.parallel, task => this.runTask(task));
+
+        const summary: BatchReport['summary'] = { total: results.length };
+        for (const result of results) {
+            summary[result.status] = (summary[result.status] || 0) + 1;
+        }
+
+        const finishedAt = new Date();
+        return {
+            startedAt: startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            parallel: this.parallel,
+            summary,
+            tasks: results
+        };
+    }
+
+    // --------------------------------------------------------
+    // Single Task
+    // --------------------------------------------------------
+    private async runTask(task: BatchTask): Promise<BatchTaskResult> {
+        const startTime = Date.now();
+        const sessionId = `batch-${task.id}`;
+        let timedOut = false;
+        let planId: string | undefined;
+        let status: BatchTaskStatus = 'error';
+        let error: string | undefined;
+
+        console.log(`[Batch] Starting ${task.id} in ${task.workspace}`);
+        const orchestrator = new Orchestrator(task.workspace, {
+            serve: false,
+            stepApproval: task.approval?.stepApproval,
+            approveHeadless: request => this.approve(task, request)
+        });
+
+        const maxMinutes = task.budget?.maxMinutes;
+        const timer = maxMinutes ? setTimeout(() => {
+            console.log(`[Batch] ${task.id} exceeded its ${maxMinutes} minute budget - cancelling`);
+            timedOut = true;
+            orchestrator.cancel(sessionId);
+        }, maxMinutes * 60 * 1000) : null;
+
+        try {
+            await orchestrator.initialize(task.request, sessionId);
+            const planResponse = await orchestrator.generatePlan(sessionId);
+            planId = planResponse.planId;
+
+            const violation = planViolation(task, planResponse);
+            if (violation) {
+                await orchestrator.rejectPlan(sessionId, `Plan rejected by batch policy: ${violation}`);
+                status = 'rejected';
+                error = violation;
+            } else {
+                await orchestrator.executePlan(sessionId);
+            }
+        } catch (e) {
+            error = String(e);
+        } finally {
+            if (timer) clearTimeout(timer);
+            orchestrator.shutdown();
+        }
+
+        const run = planId ? await new RunStore(task.workspace).load(planId) : null;
+        if (timedOut) {
+            status = 'timed-out';
+        } else if (run && status !== 'rejected' && !error) {
+            status = run.status;
+        }
+
+        const plan = run?.plan || [];
+        const result: BatchTaskResult = {
+            id: task.id,
+            request: task.request,
+            workspace: task.workspace,
+            planId,
+            status,
+            totalSteps: plan.length,
+            completedSteps: plan.filter(s => s.status === 'completed').length,
+            failedSteps: plan.filter(s => s.status === 'failed').length,
+            skippedSteps: plan.filter(s => s.status === 'skipped').length,
+            durationMs: Date.now() - startTime,
+            error,
+            steps: plan.map(s => ({
+                id: s.id,
+                agent: s.assignedAgent,
+                description: s.description,
+                status: s.status,
+                error: s.error
+            }))
+        };
+        console.log(`[Batch] Finished ${task.id}: ${status} (${result.completedSteps}/${result.totalSteps} steps)`);
+        return result;
+    }
+
+    private approve(task: BatchTask, request: HeadlessApprovalRequest): boolean {
+        if (request.kind === 'step') {
+            const approved = task.approval?.steps === 'approve';
+            console.log(`[Batch] ${task.id} step ${request.step.id} ${approved ? 'approved' : 'rejected'} by policy (${request.reasons.join('; ')})`);
+            return approved;
+        }
+
+        // Revised plans pass the same gate as the original
+        const violation = planViolation(task, request.planResponse);
+        if (violation) {
+            console.log(`[Batch] ${task.id} revised plan rejected: ${violation}`);
+        }
+        return violation === null;
+    }
+}
+
+export async function writeBatchReport(report: BatchReport, file: string) {
+    await fs.ensureDir(path.dirname(file));
+    const tmpFile = `${file}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(report, null, 2), 'utf-8');
+    await fs.rename(tmpFile, file);
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Cassette, requestKey } from './cassette';
+
+describe('Cassette', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-test-'));
+    file = path.join(dir, 'run.cassette.json');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('replays recorded responses without calling the live function', async () => {
+    const recorder = new Cassette(file, 'record');
+    await recorder.play('cli', 'codex', 'write a.ts', async () => 'done a');
+    await recorder.play('chat', 'model-x', { prompt: 'vote' }, async () => ({ choices: [{ message: { content: 'APPROVE' } }] }));
+
+    const player = new Cassette(file, 'replay');
+    const live = async (): Promise<never> => { throw new Error('live call during replay'); };
+
+    expect(await player.play('cli', 'codex', 'write a.ts', live)).toBe('done a');
+    expect(await player.play('chat', 'model-x', { prompt: 'vote' }, live))
+      .toEqual({ choices: [{ message: { content: 'APPROVE' } }] });
+  });
+
+  it('prefers exact matches and otherwise replays in recorded order', async () => {
+    const recorder = new Cassette(file, 'record');
+    await recorder.play('cli', 'codex', 'first', async () => 'one');
+    await recorder.play('cli', 'codex', 'second', async () => 'two');
+    await recorder.play('cli', 'codex', 'third', async () => 'three');
+
+    const player = new Cassette(file, 'replay');
+    const live = async () => 'live';
+
+    expect(await player.play('cli', 'codex', 'second', live)).toBe('two');
+    expect(await player.play('cli', 'codex', '/other/workspace/first', live)).toBe('one');
+    expect(await player.play('cli', 'codex', 'third', live)).toBe('three');
+    await expect(player.play('cli', 'codex', 'third', live)).rejects.toThrow(/no recorded cli response for codex/);
+  });
+
+  it('replays recorded failures as errors', async () => {
+    const recorder = new Cassette(file, 'record');
+    await expect(recorder.play('cli', 'claude', 'fix', async () => { throw new Error('rate limited'); }))
+      .rejects.toThrow('rate limited');
+
+    const player = new Cassette(file, 'replay');
+    await expect(player.play('cli', 'claude', 'fix', async () => 'live')).rejects.toThrow('rate limited');
+  });
+
+  it('does not record cancelled calls', async () => {
+    const controller = new AbortController();
+    const recorder = new Cassette(file, 'record');
+    await recorder.play('cli', 'codex', 'kept', async () => 'ok');
+    await expect(recorder.play('cli', 'codex', 'cancelled', async () => {
+      controller.abort();
+      throw new Error('codex cancelled');
+    }, controller.signal)).rejects.toThrow('codex cancelled');
+
+    const content = await fs.readJson(file);
+    expect(content.entries.map((e: any) => e.request)).toEqual(['kept']);
+  });
+
+  it('fails clearly when the cassette file is missing', async () => {
+    const player = new Cassette(file, 'replay');
+    await expect(player.play('cli', 'codex', 'x', async () => 'live')).rejects.toThrow(/Cassette not found/);
+  });
+});
+
+describe('requestKey', () => {
+  it('ignores plan ids and timestamps', () => {
+    const a = requestKey('cli', 'codex', 'Run plan-1700000000000 at 2024-01-01T10:00:00.000Z');
+    const b = requestKey('cli', 'codex', 'Run plan-1800000000000 at 2025-06-30T23:59:59Z');
+    expect(a).toBe(b);
+    expect(requestKey('cli', 'claude', 'Run plan-1700000000000')).not.toBe(requestKey('cli', 'codex', 'Run plan-1700000000000'));
+  });
+});
@@ -0,0 +1,217 @@
+// ============================================================
+// Cassettes - Record and Replay Agent Interactions
+// Saves every prompt/response pair that leaves the process (CLI
+// agents, the HuggingFace swarm, Gemini) so a whole pipeline run
+// can be reproduced offline and deterministically.
+//
+//   AI_COLLAB_CASSETTE=run.cassette.json      cassette file
+//   AI_COLLAB_CASSETTE_MODE=record|replay     default: replay
+// ============================================================
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OpenAI } from 'openai';
+import { activePromptCache } from './prompt-cache';
+import { estimatedUsage, recordUsage } from './usage';
+
+export type CassetteMode = 'record' | 'replay';
+export type InteractionKind = 'cli' | 'chat' | 'gemini';
+
+export interface CassetteEntry {
+    kind: InteractionKind;
+    target: string;                    // Agent name or model
+    key: string;                       // Hash of the normalized request
+    request: unknown;
+    response?: unknown;
+    error?: string;                    // Recorded failures are replayed as errors
+    recordedAt: string;
+}
+
+interface CassetteFile {
+    version: number;
+    entries: CassetteEntry[];
+}
+
+const CASSETTE_VERSION = 1;
+
+// Values that differ between otherwise identical runs
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+    [/plan-\d{10,}/g, 'plan-*'],
+    [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g, '<timestamp>']
+];
+
+export class Cassette {
+    private entries: CassetteEntry[] = [];
+    private used = new Set<number>();
+    private loaded: Promise<void> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(public readonly file: string, public readonly mode: CassetteMode) { }
+
+    /**
+     * Record mode calls `live` and stores its result; replay mode returns the
+     * recorded result without calling it. Replay prefers an unused entry with
+     * the same request and otherwise takes the next unused entry for the
+     * same target, so prompts that embed workspace paths still line up.
+     */
+    public async play<T>(
+        kind: InteractionKind,
+        target: string,
+        request: unknown,
+        live: () => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        await this.load();
+        const key = requestKey(kind, target, request);
+
+        if (this.mode === 'replay') {
+            signal?.throwIfAborted();
+            const idx = this.findEntry(kind, target, key);
+            if (idx === -1) {
+                throw new Error(`Cassette ${this.file} has no recorded ${kind} response for ${target} (${key.slice(0, 12)})`);
+            }
+            this.used.add(idx);
+            const entry = this.entries[idx];
+            if (entry.error !== undefined) {
+                throw new Error(entry.error);
+            }
+            return JSON.parse(JSON.stringify(entry.response ?? null));
+        }
+
+        const entry: CassetteEntry = { kind, target, key, request, recordedAt: new Date().toISOString() };
+        try {
+            entry.response = await live();
+            return entry.response as T;
+        } catch (error) {
+            entry.error = error instanceof Error ? error.message : String(error);
+            throw error;
+        } finally {
+            // A cancelled call says nothing about how the agent responds
+            if (!signal?.aborted) {
+                this.entries.push(entry);
+                await this.save();
+            }
+        }
+    }
+
+    private findEntry(kind: InteractionKind, target: string, key: string): number {
+        const unused = (entry: CassetteEntry, idx: number) =>
+            !this.used.has(idx) && entry.kind === kind && entry.target === target;
+
+        const exact = this.entries.findIndex((entry, idx) => unused(entry, idx) && entry.key === key);
+        return exact !== -1 ? exact : this.entries.findIndex(unused);
+    }
+
+    // --------------------------------------------------------
+    // Cassette File
+    // --------------------------------------------------------
+    /**
+     * Replay reads the file once; recording always starts a fresh cassette.
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                if (this.mode === 'record') {
+                    return;
+                }
+                if (!await fs.pathExists(this.file)) {
+                    throw new Error(`Cassette not found: ${this.file}`);
+                }
+                const content: CassetteFile = await fs.readJson(this.file);
+                this.entries = content.entries || [];
+            })();
+        }
+        return this.loaded;
+    }
+
+    private save(): Promise<void> {
+        const content: CassetteFile = { version: CASSETTE_VERSION, entries: this.entries };
+        const json = JSON.stringify(content, null, 2);
+
+        this.writeQueue = this.writeQueue.then(async () => {
+            await fs.ensureDir(path.dirname(this.file));
+            const tmpFile = `${this.file}.tmp`;
+            await fs.writeFile(tmpFile, json, 'utf-8');
+            await fs.rename(tmpFile, this.file);
+        }).catch(error => {
+            console.error(`[Cassette] Failed to write ${this.file}:`, error);
+        });
+        return this.writeQueue;
+    }
+}
+
+export function requestKey(kind: InteractionKind, target: string, request: unknown): string {
+    let text = JSON.stringify(request);
+    for (const [pattern, replacement] of VOLATILE_PATTERNS) {
+        text = text.replace(pattern, replacement);
+    }
+    return crypto.createHash('sha256').update(`${kind}\n${target}\n${text}`).digest('hex');
+}
+
+// ------------------------------------------------------------
+// Process-Wide Cassette
+// ------------------------------------------------------------
+let active: Cassette | null | undefined;
+
+/**
+ * The cassette every agent call goes through, configured from the
+ * environment on first use. Null when recording/replay is off.
+ */
+export function activeCassette(): Cassette | null {
+    if (active === undefined) {
+        const file = process.env.AI_COLLAB_CASSETTE;
+        const mode = process.env.AI_COLLAB_CASSETTE_MODE === 'record' ? 'record' : 'replay';
+        active = file ? new Cassette(path.resolve(file), mode) : null;
+        if (active) {
+            console.log(`[Cassette] ${mode === 'record' ? 'Recording to' : 'Replaying from'} ${active.file}`);
+        }
+    }
+    return active;
+}
+
+/**
+ * Replaces the process-wide cassette (null turns recording/replay off).
+ */
+export function useCassette(cassette: Cassette | null) {
+    active = cassette;
+}
+
+export function isReplaying(): boolean {
+    return activeCassette()?.mode === 'replay';
+}
+
+/**
+ * chat.completions.create through the active cassette and prompt cache,
+ * recording the call's usage on the current run.
+ */
+export async function createChatCompletion(
+    client: OpenAI,
+    params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    options: { signal?: AbortSignal } = {}
+): Promise<OpenAI.Chat.ChatCompletion> {
+    let called = false;
+    const call = async () => {
+        called = true;
+        const response = await client.chat.completions.create(params, options);
+        const usage = response.usage;
+        recordUsage(usage
+            ? { model: response.model || params.model, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens }
+            : estimatedUsage(params.model, JSON.stringify(params.messages), response.choices[0]?.message?.content || ''));
+        return response;
+    };
+    const cache = activePromptCache();
+    const live = !cache ? call : () => cache.through({
+        model: params.model,
+        prompt: params.messages,
+        temperature: params.temperature ?? undefined,
+        seed: params.seed ?? undefined,
+        maxTokens: params.max_tokens ?? undefined
+    }, call, { keep: response => !!response.choices[0]?.message?.content?.trim() });
+    const cassette = activeCassette();
+    const response = cassette ? await cassette.play('chat', params.model, params, live, options.signal) : await live();
+    if (!called) {
+        recordUsage({ model: params.model, inputTokens: 0, outputTokens: 0, cached: true });
+    }
+    return response;
+}
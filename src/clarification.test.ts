@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractClarifyingQuestions,
+  formatClarifications,
+  parseQuestions,
+  resolveAnswers
+} from './clarification';
+import { Clarification } from './types';
+
+describe('parseQuestions', () => {
+  it('accepts strings and objects, numbering planner questions', () => {
+    const questions = parseQuestions(
+      ['Which framework?', { question: 'Keep the old API?', options: ['Yes', 'No', 42] }, { nope: true }],
+      { askedBy: 'opus' }
+    );
+
+    expect(questions).toEqual([
+      { id: 'plan-1', question: 'Which framework?', askedBy: 'opus' },
+      { id: 'plan-2', question: 'Keep the old API?', options: ['Yes', 'No'], askedBy: 'opus' }
+    ]);
+  });
+
+  it('numbers step questions after the ones that step already asked', () => {
+    const prior: Clarification[] = [
+      { questionId: 'step-2-1', question: 'a', answer: 'b', askedBy: 'codex', stepId: 2 },
+      { questionId: 'plan-1', question: 'c', answer: 'd', askedBy: 'opus' }
+    ];
+    const [question] = parseQuestions(['Which file?'], { askedBy: 'codex', stepId: 2, prior });
+
+    expect(question).toEqual({ id: 'step-2-2', question: 'Which file?', askedBy: 'codex', stepId: 2 });
+  });
+
+  it('ignores anything that is not a list and caps the number of questions', () => {
+    expect(parseQuestions('Which one?', { askedBy: 'opus' })).toEqual([]);
+    expect(parseQuestions(['a', 'b', 'c', 'd'], { askedBy: 'opus' })).toHaveLength(3);
+  });
+});
+
+describe('extractClarifyingQuestions', () => {
+  it('reads questions from a clarify block', () => {
+    const output = 'I need to know more.\n```clarify\n[{"question":"Sync or async?","options":["sync","async"]}]\n```';
+    const questions = extractClarifyingQuestions(output, { askedBy: 'codex', stepId: 1 });
+
+    expect(questions).toEqual([
+      { id: 'step-1-1', question: 'Sync or async?', options: ['sync', 'async'], askedBy: 'codex', stepId: 1 }
+    ]);
+  });
+
+  it('returns nothing for ordinary output or a malformed block', () => {
+    expect(extractClarifyingQuestions('Wrote src/a.ts', { askedBy: 'codex' })).toEqual([]);
+    expect(extractClarifyingQuestions('```clarify\n[not json\n```', { askedBy: 'codex' })).toEqual([]);
+  });
+});
+
+describe('resolveAnswers / formatClarifications', () => {
+  it('pairs answers with questions and fills in unanswered ones', () => {
+    const questions = parseQuestions(['Which database?', 'Which port?'], { askedBy: 'opus' });
+    const clarifications = resolveAnswers(questions, { 'plan-1': ' Postgres ', 'plan-2': '  ' });
+
+    expect(clarifications.map(c => c.answer)).toEqual(['Postgres', 'No answer given - use your best judgement.']);
+
+    const section = formatClarifications(clarifications);
+    expect(section).toContain('Q: Which database?\nA: Postgres');
+    expect(formatClarifications([])).toBe('');
+  });
+});
@@ -0,0 +1,119 @@
+// ============================================================
+// Clarifying Questions - Agent/User Round Trip
+// Agents that can't go on without more information ask the
+// user structured questions; the answers are kept in
+// SharedContext and included in every later prompt.
+// ============================================================
+
+import { Clarification, ClarifyingQuestion } from './types';
+
+/**
+ * How many times the planner, or one step's agent, may ask before it has
+ * to go ahead with what it knows.
+ */
+export const MAX_CLARIFICATION_ROUNDS = 2;
+
+const MAX_QUESTIONS = 3;
+const NO_ANSWER = 'No answer given - use your best judgement.';
+
+/**
+ * How coding agents ask: a ```clarify block holding a JSON array of
+ * questions, instead of doing the work.
+ */
+export const CLARIFY_INSTRUCTIONS = `If you cannot complete this step without more information from the user, do not guess. Reply with ONLY a \`\`\`clarify block containing a JSON array of questions, e.g.:
+\`\`\`clarify
+[{"question":"Which database should the cache use?","options":["Redis","In-memory"]}]
+\`\`\``;
+
+export interface QuestionSource {
+    askedBy: string;                   // Agent name
+    stepId?: number;                   // Unset for the planner
+    prior?: Clarification[];           // Earlier answers, to keep ids unique
+}
+
+/**
+ * Builds questions from an agent's raw list (strings or
+ * {question, options} objects). Ids are "plan-N" or "step-<id>-N",
+ * numbered after the questions that source has already asked.
+ */
+export function parseQuestions(raw: unknown, source: QuestionSource): ClarifyingQuestion[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+
+    const prefix = source.stepId === undefined ? 'plan' : `step-${source.stepId}`;
+    const asked = (source.prior || []).filter(c => c.stepId === source.stepId).length;
+
+    return raw
+        .map(entry => typeof entry === 'string' ? { question: entry } : entry)
+        .filter((entry: any) => typeof entry?.question === 'string' && entry.question.trim())
+        .slice(0, MAX_QUESTIONS)
+        .map((entry: any, idx) => {
+            const question: ClarifyingQuestion = {
+                id: `${prefix}-${asked + idx + 1}`,
+                question: entry.question.trim(),
+                askedBy: source.askedBy
+            };
+            const options = Array.isArray(entry.options)
+                ? entry.options.filter((o: unknown) => typeof o === 'string' && o.trim())
+                : [];
+            if (options.length > 0) {
+                question.options = options;
+            }
+            if (source.stepId !== undefined) {
+                question.stepId = source.stepId;
+            }
+            return question;
+        });
+}
+
+/**
+ * Questions from a ```clarify block in an agent's output; none if the
+ * block is missing or isn't valid JSON.
+ */
+export function extractClarifyingQuestions(output: string, source: QuestionSource): ClarifyingQuestion[] {
+    const match = output.match(/```clarify\s*([\s\S]*?)```/);
+    if (!match) {
+        return [];
+    }
+    try {
+        return parseQuestions(JSON.parse(match[1]), source);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Pairs questions with the user's answers (keyed by question id).
+ * Unanswered questions tell the agent to go ahead on its own judgement.
+ */
+export function resolveAnswers(questions: ClarifyingQuestion[], answers: Record<string, string>): Clarification[] {
+    return questions.map(q => {
+        const answer = typeof answers[q.id] === 'string' ? answers[q.id].trim() : '';
+        const clarification: Clarification = {
+            questionId: q.id,
+            question: q.question,
+            answer: answer || NO_ANSWER,
+            askedBy: q.askedBy
+        };
+        if (q.stepId !== undefined) {
+            clarification.stepId = q.stepId;
+        }
+        return clarification;
+    });
+}
+
+/**
+ * Prompt section listing the answers so far, or "" when there are none.
+ */
+export function formatClarifications(clarifications: Clarification[] = []): string {
+    if (clarifications.length === 0) {
+        return '';
+    }
+    const pairs = clarifications.map(c => `Q: ${c.question}\nA: ${c.answer}`).join('\n\n');
+    return `## Clarifications from the user
+${pairs}
+
+Treat these answers as part of the task and do not ask about them again.
+`;
+}
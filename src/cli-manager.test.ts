@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIManager, ModelConfig } from './cli-manager';
+
+const config: ModelConfig = {
+  name: 'ide',
+  command: '',
+  args: [],
+  interactionMode: 'file-watch',
+  watchPath: '.ai-requests',
+  sentinel: '--DONE--',
+  timeoutMs: 2000
+};
+
+/**
+ * Stands in for an IDE assistant: answers the first request it sees.
+ */
+async function answerRequest(dir: string, response: string) {
+  for (let i = 0; i < 50; i++) {
+    const request = (await fs.readdir(dir)).find(f => f.endsWith('.request.md'));
+    if (request) {
+      const content = await fs.readFile(path.join(dir, request), 'utf-8');
+      const responseFile = content.match(/Response file: (.+)/)![1].trim();
+      await fs.writeFile(responseFile, response);
+      return;
+    }
+    await new Promise(r => setTimeout(r, 20));
+  }
+  throw new Error('No request written');
+}
+
+describe('CLIManager file-watch mode', () => {
+  let workspace: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'file-watch-'));
+    dir = path.join(workspace, '.ai-requests');
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspace);
+  });
+
+  it('returns the response up to the sentinel and removes both files', async () => {
+    const manager = new CLIManager(workspace);
+    await manager.startAgent(config);
+    expect(await manager.isAvailable(config)).toBe(true);
+
+    const pending = manager.sendPrompt('ide', 'Write a haiku', config);
+    await answerRequest(dir, 'Autumn moonlight\n--DONE--\nignored');
+
+    expect(await pending).toBe('Autumn moonlight');
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('times out when the response never completes', async () => {
+    const manager = new CLIManager(workspace);
+    const pending = manager.sendPrompt('ide', 'Write a haiku', { ...config, timeoutMs: 300 });
+    await answerRequest(dir, 'Still thinking...');
+
+    await expect(pending).rejects.toThrow('Timeout waiting for response file from ide');
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('cleans up when cancelled', async () => {
+    const manager = new CLIManager(workspace);
+    const controller = new AbortController();
+    const pending = manager.sendPrompt('ide', 'Write a haiku', config, { signal: controller.signal });
+    await answerRequest(dir, 'Half a');
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('ide cancelled');
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+});
+
+describe('CLIManager streaming', () => {
+  it('passes oneshot output through onChunk as it arrives', async () => {
+    const manager = new CLIManager(os.tmpdir());
+    const cat: ModelConfig = { name: 'cat', command: 'cat', args: [], interactionMode: 'oneshot', timeoutMs: 5000 };
+    const chunks: string[] = [];
+
+    const response = await manager.sendPrompt('cat', 'hello stream', cat, { onChunk: chunk => chunks.push(chunk) });
+
+    expect(response).toBe('hello stream');
+    expect(chunks.join('')).toBe('hello stream');
+  });
+
+  it('yields file-watch output from streamPrompt without the sentinel', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'file-watch-'));
+    try {
+      const manager = new CLIManager(workspace);
+      const chunks: string[] = [];
+      const reading = (async () => {
+        for await (const chunk of manager.streamPrompt('ide', 'Write a haiku', config)) {
+          chunks.push(chunk);
+        }
+      })();
+      await answerRequest(path.join(workspace, '.ai-requests'), 'Autumn moonlight\n--DONE--');
+      await reading;
+
+      expect(chunks.join('')).toBe('Autumn moonlight\n');
+    } finally {
+      await fs.remove(workspace);
+    }
+  });
+});
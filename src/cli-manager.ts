@@ -1,4 +1,14 @@
-import { spawn, ChildProcess } from 'child_process';
+import { ChildProcess } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { activeCassette } from './cassette';
+import { AgentPool, DEFAULT_SENTINEL, PoolOptions, killProcess, sentinelStream } from './agent-pool';
+import { SandboxOptions, spawnAgent } from './sandbox';
+import { RetryOptions, badOutput, withResilience } from './resilience';
+import { HttpOptions, apiKeyEnv, httpEndpoint, sendHttpPrompt } from './http-adapter';
+import { AgentCacheOptions, activePromptCache } from './prompt-cache';
+import { AgentReply, ClaudeOutputReader, estimatedUsage, recordUsage } from './usage';
 /**
  * Configuration for each AI CLI agent.
  */
@@ -7,23 +17,123 @@ export interface ModelConfig {
     command: string;
     args: string[];
     /**
-     * Communication mode: direct stdin streaming or one-shot process.
+     * Communication mode: direct stdin streaming, one-shot process,
+     * request/response files exchanged through watchPath, or a chat
+     * endpoint called directly (see http).
      */
-    interactionMode: 'stdin' | 'oneshot' | 'file-watch';
+    interactionMode: 'stdin' | 'oneshot' | 'file-watch' | 'http';
     /**
      * Sentinel token that the agent must emit to signal end-of-response.
-     * Only required for stdin mode.
+     * Used by stdin and file-watch modes.
      */
     sentinel?: string;
     /**
      * Timeout in milliseconds for waiting on the sentinel.
      */
     timeoutMs?: number;
+    /**
+     * File-watch only: directory (relative to the workspace) where prompts
+     * are written as <id>.request.md and the agent writes <id>.response.md.
+     */
     watchPath?: string;
+    /**
+     * Http only: the chat API, endpoint, model and sampling settings.
+     * command and args are unused.
+     */
+    http?: HttpOptions;
+    /**
+     * Stdin only: how many warm processes to keep and how they are
+     * supervised, restarted and recycled.
+     */
+    pool?: PoolOptions;
+    /**
+     * Runs the agent without a shell, with an allowlisted environment and
+     * resource limits, optionally read-only. Unset keeps the plain spawn.
+     */
+    sandbox?: SandboxOptions;
+    /**
+     * Retries for transient failures (timeouts, rate limits, crashed
+     * processes, empty output) and the agent's circuit breaker.
+     */
+    retry?: RetryOptions;
+    /**
+     * Answers repeated prompts from the prompt cache when it is enabled
+     * (AI_COLLAB_CACHE). Only for agents that don't edit files.
+     */
+    cache?: AgentCacheOptions;
+    /**
+     * How the agent's token usage is read and priced.
+     */
+    usage?: AgentUsageOptions;
+    /**
+     * Maximum number of plan steps this agent may run at the same time.
+     * Defaults to 1 (sequential).
+     */
+    maxConcurrency?: number;
+    /**
+     * Step actions this agent can carry out (e.g. "write", "analyze").
+     * Steps are routed to agents whose capabilities include their action.
+     */
+    capabilities?: string[];
+    /**
+     * Token budget for workspace files in this agent's step prompts.
+     * Overrides the workspace's context.maxTokens.
+     */
+    contextTokens?: number;
+    /**
+     * Reviewer only: how many outputs a step may submit for review before it
+     * is failed. Each rejection sends the swarm's issues back to the step's
+     * agent for a revision. Defaults to 1 (no retries).
+     */
+    maxReviewAttempts?: number;
+    /**
+     * Planner only: how many times a run may ask for a revised plan after
+     * steps fail. Defaults to 0 (failed steps just skip their dependents).
+     */
+    maxReplans?: number;
+}
+
+export interface AgentUsageOptions {
+    /**
+     * Oneshot only: "claude-json" parses the claude CLI's
+     * `--output-format json` or `stream-json` output for the reply, its
+     * token counts and its cost. Otherwise tokens are estimated.
+     */
+    output?: 'text' | 'claude-json';
+    /**
+     * Model id estimated usage is priced as (default: the http model, or
+     * the agent name).
+     */
+    model?: string;
+}
+
+/**
+ * Per-call options for sendPrompt.
+ */
+export interface SendPromptOptions {
+    /**
+     * Aborting kills the agent process and rejects the pending prompt.
+     */
+    signal?: AbortSignal;
+    /**
+     * Called with each piece of output as the agent produces it. The
+     * pieces concatenate to the raw response (the assistant text for
+     * claude-json output); the sentinel is never passed on.
+     */
+    onChunk?: (chunk: string) => void;
+    /**
+     * Called before a failed prompt is retried. Output passed to onChunk
+     * after this starts over.
+     */
+    onRetry?: (attempt: number, error: unknown) => void;
 }
 
+// fs.watch misses events on some filesystems, so response files are also polled
+const WATCH_POLL_MS = 500;
+
 export class CLIManager {
-    private processes: Map<string, ChildProcess> = new Map();
+    private pools: Map<string, AgentPool> = new Map();
+    private oneshotProcesses: Set<ChildProcess> = new Set();
 
     constructor(private workspaceDir: string) { }
 
@@ -31,148 +141,246 @@ export class CLIManager {
      * Spawns a CLI tool in a persistent mode if possible, or prepares it for single-shot execution.
      */
     public async startAgent(config: ModelConfig): Promise<void> {
+        if (activeCassette()?.mode === 'replay') {
+            console.log(`[CLIManager] Agent ${config.name} replayed from cassette.`);
+            return;
+        }
+
         // For oneshot mode, we don't need to start anything
         if (config.interactionMode === 'oneshot') {
             console.log(`[CLIManager] Agent ${config.name} configured for oneshot mode.`);
             return;
         }
 
-        console.log(`[CLIManager] Starting agent: ${config.name}`);
-
-        if (config.interactionMode === 'stdin') {
-            const child = spawn(config.command, config.args, {
-                cwd: this.workspaceDir,
-                stdio: ['pipe', 'pipe', 'pipe'],
-                shell: true
-            });
-
-            child.on('error', (err) => {
-                console.error(`[CLIManager] Failed to start agent ${config.name}:`, err);
-            });
-
-            child.on('exit', (code, signal) => {
-                console.log(`[CLIManager] Agent ${config.name} exited with code ${code} and signal ${signal}`);
-                this.processes.delete(config.name);
-            });
-
-            child.stdout?.on('data', (data) => {
-                console.log(`[${config.name} STDOUT]: ${data.toString()}`);
-            });
+        if (config.interactionMode === 'http') {
+            console.log(`[CLIManager] Agent ${config.name} configured for http mode (${describeTransport(config)}).`);
+            return;
+        }
 
-            child.stderr?.on('data', (data) => {
-                console.error(`[${config.name} STDERR]: ${data.toString()}`);
-            });
+        if (config.interactionMode === 'file-watch') {
+            const dir = this.watchDir(config);
+            await fs.ensureDir(dir);
+            console.log(`[CLIManager] Agent ${config.name} configured for file-watch mode (${dir}).`);
+            return;
+        }
 
-            this.processes.set(config.name, child);
-            console.log(`[CLIManager] Agent ${config.name} started successfully (PID: ${child.pid}).`);
+        if (config.interactionMode === 'stdin') {
+            // A running pool stays warm across runs
+            if (this.pools.get(config.name)?.isAvailable()) {
+                return;
+            }
+            this.pools.get(config.name)?.stop();
+            const pool = new AgentPool(config, this.workspaceDir);
+            pool.start();
+            this.pools.set(config.name, pool);
         }
     }
 
     /**
-     * Sends a prompt to the agent.
-     * For oneshot mode, spawns a new process for each request.
+     * Whether the agent can take prompts right now: stdin agents need a
+     * pool with live or restarting workers, oneshot agents need their
+     * command to be installed, file-watch agents their watch directory and
+     * http agents their API key.
      */
-    public async sendPrompt(agentName: string, prompt: string, config: ModelConfig): Promise<string> {
-        if (config.interactionMode === 'oneshot') {
-            return this.sendOneshotPrompt(prompt, config);
+    public async isAvailable(config: ModelConfig): Promise<boolean> {
+        if (activeCassette()?.mode === 'replay') {
+            return true;
         }
-
-        // Stream mode: send via stdin and await sentinel
-        const child = this.processes.get(agentName);
-        if (!child || !child.stdin || !child.stdout) {
-            throw new Error(`Agent ${agentName} is not running or has no stdin/stdout.`);
+        if (config.interactionMode === 'file-watch') {
+            return !!config.watchPath && fs.pathExists(this.watchDir(config));
         }
-        const stdin = child.stdin;
-        const stdout = child.stdout;
-
-        return new Promise((resolve, reject) => {
-            const sentinel = config.sentinel || "--END-OF-RESPONSE--";
-            const timeoutMs = config.timeoutMs;
-            const fullPrompt = `${prompt}\n\nIMPORTANT: When you have finished your response, you MUST print the following line exactly:\n${sentinel}\n`;
+        if (config.interactionMode === 'http') {
+            const keyEnv = config.http ? apiKeyEnv(config.http) : null;
+            return !!config.http && (!keyEnv || !!process.env[keyEnv]);
+        }
+        if (config.interactionMode !== 'oneshot') {
+            return this.pools.get(config.name)?.isAvailable() ?? false;
+        }
+        return this.commandExists(config.command);
+    }
 
-            let buffer = "";
-            let resolved = false;
+    private async commandExists(command: string): Promise<boolean> {
+        if (command.includes('/') || command.includes('\\')) {
+            return fs.pathExists(path.resolve(this.workspaceDir, command));
+        }
 
-            const onError = (err: Error) => {
-                if (!resolved) {
-                    resolved = true;
-                    cleanup();
-                    reject(err);
+        const extensions = process.platform === 'win32'
+            ? (process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';')
+            : [''];
+        for (const dir of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+            for (const ext of extensions) {
+                if (await fs.pathExists(path.join(dir, command + ext))) {
+                    return true;
                 }
-            };
+            }
+        }
+        return false;
+    }
 
-            const cleanup = () => {
-                if (timer) clearTimeout(timer);
-                stdout.off('data', onData);
-                child.off('exit', onExit);
-                child.off('error', onError);
-            };
+    /**
+     * Sends a prompt to the agent, through the active cassette if one is
+     * recording or replaying and the prompt cache if the agent opts in.
+     * Live calls are retried and go through the agent's circuit breaker.
+     * Each call's token usage is recorded on the current run's meter.
+     */
+    public async sendPrompt(
+        agentName: string,
+        prompt: string,
+        config: ModelConfig,
+        options: SendPromptOptions = {}
+    ): Promise<string> {
+        const { signal, onChunk } = options;
+        if (signal?.aborted) {
+            throw new Error(`${agentName} cancelled before start`);
+        }
 
-            const timer = timeoutMs ? setTimeout(() => {
-                if (!resolved) {
-                    resolved = true;
-                    cleanup();
-                    reject(new Error(`Timeout waiting for sentinel from ${agentName}`));
+        const usageModel = config.usage?.model || config.http?.model || agentName;
+        let streamed = false;
+        const live = () => {
+            streamed = true;
+            return withResilience(`agent:${agentName}`, async () => {
+                const reply = await this.sendLivePrompt(agentName, prompt, config, options);
+                recordUsage(reply.usage || estimatedUsage(usageModel, prompt, reply.text));
+                if (!reply.text.trim()) {
+                    throw badOutput(`${agentName} returned an empty response`);
                 }
-            }, timeoutMs) : null;
+                return reply.text;
+            }, {
+                ...config.retry,
+                signal,
+                onRetry: (attempt, _kind, error) => options.onRetry?.(attempt, error)
+            });
+        };
 
-            const onExit = (code: number, signal: NodeJS.Signals) => {
-                if (!resolved) {
-                    resolved = true;
-                    cleanup();
-                    reject(new Error(`Agent ${agentName} exited before sentinel (code=${code}, signal=${signal})`));
-                }
-            };
+        const cache = config.cache ? activePromptCache() : null;
+        const answer = !cache ? live : () => cache.through(
+            { model: `${agentName}: ${describeTransport(config)}`, prompt },
+            live,
+            { ttlMs: config.cache?.ttlMs }
+        );
 
-            const onData = (data: Buffer) => {
-                buffer += data.toString();
-                if (buffer.includes(sentinel)) {
-                    if (!resolved) { // Ensure we only resolve once
-                        resolved = true;
-                        cleanup();
-                        const response = buffer.split(sentinel)[0].trim();
-                        resolve(response);
-                    }
-                }
-            };
+        const cassette = activeCassette();
+        const response = cassette
+            ? await cassette.play('cli', agentName, prompt, answer, signal)
+            : await answer();
+        // Replayed and cached responses arrive in one piece and cost nothing
+        if (!streamed) {
+            recordUsage({ model: usageModel, inputTokens: 0, outputTokens: 0, cached: true });
+            onChunk?.(response);
+        }
+        return response;
+    }
 
-            stdout.on('data', onData);
-            child.on('exit', onExit);
-            child.on('error', onError);
+    /**
+     * Streams the agent's output as it arrives. The iterator ends when the
+     * response is complete and throws if the prompt fails.
+     */
+    public async *streamPrompt(
+        agentName: string,
+        prompt: string,
+        config: ModelConfig,
+        options: Omit<SendPromptOptions, 'onChunk'> = {}
+    ): AsyncGenerator<string> {
+        const chunks: string[] = [];
+        let wake: (() => void) | null = null;
+        let done = false;
+        let failure: unknown;
 
-            stdin.write(fullPrompt);
+        this.sendPrompt(agentName, prompt, config, {
+            ...options,
+            onChunk: chunk => {
+                chunks.push(chunk);
+                wake?.();
+            }
+        }).catch(error => { failure = error; }).finally(() => {
+            done = true;
+            wake?.();
         });
+
+        while (true) {
+            if (chunks.length > 0) {
+                yield chunks.shift()!;
+                continue;
+            }
+            if (done) {
+                break;
+            }
+            await new Promise<void>(resolve => { wake = resolve; });
+            wake = null;
+        }
+        if (failure) {
+            throw failure;
+        }
+    }
+
+    /**
+     * For oneshot mode, spawns a new process for each request.
+     */
+    private async sendLivePrompt(
+        agentName: string,
+        prompt: string,
+        config: ModelConfig,
+        options: SendPromptOptions
+    ): Promise<AgentReply> {
+        if (config.interactionMode === 'oneshot') {
+            return this.sendOneshotPrompt(prompt, config, options);
+        }
+        if (config.interactionMode === 'file-watch') {
+            return { text: await this.sendFileWatchPrompt(prompt, config, options) };
+        }
+        if (config.interactionMode === 'http') {
+            return sendHttpPrompt(config, prompt, options);
+        }
+
+        // Stream mode: send via stdin to a pooled process and await sentinel
+        const pool = this.pools.get(agentName);
+        if (!pool) {
+            throw new Error(`Agent ${agentName} is not running.`);
+        }
+        return { text: await pool.send(prompt, options) };
     }
 
     /**
      * One-shot execution: spawn process, pipe prompt, collect response.
      * Includes timeout handling for long-running commands.
      */
-    private sendOneshotPrompt(prompt: string, config: ModelConfig): Promise<string> {
+    private sendOneshotPrompt(prompt: string, config: ModelConfig, options: SendPromptOptions): Promise<AgentReply> {
+        const { signal, onChunk } = options;
+        const reader = config.usage?.output === 'claude-json' ? new ClaudeOutputReader(onChunk) : null;
         return new Promise((resolve, reject) => {
             const TIMEOUT_MS = config.timeoutMs || 120000; // 2 minute default timeout
             let timeoutHandle: NodeJS.Timeout | null = null;
             let resolved = false;
 
-            const child = spawn(config.command, config.args, {
-                cwd: this.workspaceDir,
-                stdio: ['pipe', 'pipe', 'pipe'],
-                shell: true
-            });
+            const child = spawnAgent(config, this.workspaceDir);
+            this.oneshotProcesses.add(child);
 
             let stdout = '';
             let stderr = '';
 
+            const onAbort = () => {
+                if (!resolved) {
+                    resolved = true;
+                    if (timeoutHandle) clearTimeout(timeoutHandle);
+                    console.warn(`[CLIManager] ${config.name} cancelled, killing PID ${child.pid}`);
+                    killProcess(child);
+                    reject(new Error(`${config.name} cancelled`));
+                }
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
             // Set timeout
             timeoutHandle = setTimeout(() => {
                 if (!resolved) {
                     resolved = true;
+                    signal?.removeEventListener('abort', onAbort);
                     console.warn(`[CLIManager] ${config.name} timed out after ${TIMEOUT_MS / 1000}s`);
-                    child.kill('SIGTERM');
+                    killProcess(child);
                     // Return whatever we collected so far
-                    if (stdout.trim()) {
-                        console.log(`[CLIManager] Returning partial response (${stdout.length} chars)`);
-                        resolve(stdout.trim());
+                    const partial = reader ? reader.partial() : stdout.trim();
+                    if (partial) {
+                        console.log(`[CLIManager] Returning partial response (${partial.length} chars)`);
+                        resolve({ text: partial });
                     } else {
                         reject(new Error(`Command timed out after ${TIMEOUT_MS / 1000}s with no output`));
                     }
@@ -180,7 +388,16 @@ export class CLIManager {
             }, TIMEOUT_MS);
 
             child.stdout?.on('data', (data) => {
-                stdout += data.toString();
+                const chunk = data.toString();
+                stdout += chunk;
+                if (resolved) {
+                    return;
+                }
+                if (reader) {
+                    reader.push(chunk);
+                } else {
+                    onChunk?.(chunk);
+                }
             });
 
             child.stderr?.on('data', (data) => {
@@ -188,21 +405,33 @@ export class CLIManager {
             });
 
             child.on('error', (err) => {
+                this.oneshotProcesses.delete(child);
                 if (!resolved) {
                     resolved = true;
                     if (timeoutHandle) clearTimeout(timeoutHandle);
+                    signal?.removeEventListener('abort', onAbort);
                     reject(new Error(`Failed to spawn ${config.command}: ${err.message}`));
                 }
             });
 
             child.on('close', (code) => {
+                this.oneshotProcesses.delete(child);
                 if (!resolved) {
                     resolved = true;
                     if (timeoutHandle) clearTimeout(timeoutHandle);
+                    signal?.removeEventListener('abort', onAbort);
                     if (code !== 0 && stderr) {
                         console.error(`[CLIManager] ${config.name} stderr:`, stderr);
                     }
-                    resolve(stdout.trim());
+                    if (code !== 0 && !stdout.trim()) {
+                        reject(new Error(`${config.name} exited with code ${code}: ${stderr.trim().slice(-500)}`));
+                        return;
+                    }
+                    try {
+                        resolve(reader ? reader.finish(config.usage?.model || config.name) : { text: stdout.trim() });
+                    } catch (error) {
+                        reject(error);
+                    }
                 }
             });
 
@@ -214,7 +443,113 @@ export class CLIManager {
         });
     }
 
+    /**
+     * File-watch exchange: writes the prompt to <id>.request.md in watchPath
+     * and waits for the agent to write <id>.response.md ending with the
+     * sentinel. Both files are removed once the exchange ends, however it
+     * ends.
+     */
+    private async sendFileWatchPrompt(prompt: string, config: ModelConfig, options: SendPromptOptions): Promise<string> {
+        const { signal, onChunk } = options;
+        if (!config.watchPath) {
+            throw new Error(`Agent ${config.name} uses file-watch mode but has no watchPath`);
+        }
+
+        const dir = this.watchDir(config);
+        const id = `${config.name}-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+        const requestFile = path.join(dir, `${id}.request.md`);
+        const responseFile = path.join(dir, `${id}.response.md`);
+        const sentinel = config.sentinel || DEFAULT_SENTINEL;
+        const timeoutMs = config.timeoutMs || 120000;
+
+        await fs.ensureDir(dir);
+        // Written under a temporary name so the agent never sees a partial request
+        await fs.writeFile(`${requestFile}.tmp`, `${prompt}
+
+IMPORTANT: Write your complete response to the file below. When you have finished, end the file with this line exactly:
+${sentinel}
+
+Response file: ${responseFile}
+`);
+        await fs.rename(`${requestFile}.tmp`, requestFile);
+        console.log(`[CLIManager] Wrote request for ${config.name}: ${requestFile}`);
+
+        return new Promise<string>((resolve, reject) => {
+            let settled = false;
+            let checking = false;
+            const stream = sentinelStream(sentinel, onChunk);
+
+            const finish = (error: Error | null, response?: string) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                clearInterval(poll);
+                watcher?.close();
+                signal?.removeEventListener('abort', onAbort);
+                Promise.all([fs.remove(requestFile), fs.remove(responseFile)])
+                    .catch(err => console.warn(`[CLIManager] Could not clean up ${id}:`, err))
+                    .then(() => error ? reject(error) : resolve(response!));
+            };
+
+            const check = async () => {
+                if (settled || checking) return;
+                checking = true;
+                try {
+                    const content = await fs.readFile(responseFile, 'utf-8');
+                    stream(content);
+                    const end = content.indexOf(sentinel);
+                    if (end !== -1) {
+                        finish(null, content.slice(0, end).trim());
+                    }
+                } catch {
+                    // Not written yet
+                } finally {
+                    checking = false;
+                }
+            };
+
+            const onAbort = () => finish(new Error(`${config.name} cancelled`));
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            const timer = setTimeout(() => {
+                console.warn(`[CLIManager] ${config.name} timed out after ${timeoutMs / 1000}s`);
+                finish(new Error(`Timeout waiting for response file from ${config.name}`));
+            }, timeoutMs);
+            const poll = setInterval(check, WATCH_POLL_MS);
+
+            let watcher: fs.FSWatcher | undefined;
+            try {
+                watcher = fs.watch(dir, (_event, file) => {
+                    if (!file || file.toString() === path.basename(responseFile)) {
+                        check();
+                    }
+                });
+            } catch (error) {
+                console.warn(`[CLIManager] Watching ${dir} failed, polling instead:`, error);
+            }
+
+            check();
+        });
+    }
+
+    private watchDir(config: ModelConfig): string {
+        return path.resolve(this.workspaceDir, config.watchPath || '.');
+    }
+
     public stopAll() {
-        this.processes.forEach(p => p.kill());
+        this.pools.forEach(pool => pool.stop());
+        this.pools.clear();
+        this.oneshotProcesses.forEach(p => killProcess(p));
+    }
+}
+
+/**
+ * How an agent is reached, for logs and listings: its command line, or
+ * its endpoint for http agents.
+ */
+export function describeTransport(config: ModelConfig): string {
+    if (config.interactionMode === 'http' && config.http) {
+        return httpEndpoint(config.http);
     }
+    return [config.command, ...config.args].join(' ');
 }
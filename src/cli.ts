@@ -5,13 +5,32 @@
 // ============================================================
 
 import * as readline from 'readline';
-import { CLIManager } from './cli-manager';
-import { SharedContext, PlanStep, PlanResponse } from './types';
+import * as path from 'path';
+import { CLIManager, describeTransport } from './cli-manager';
+import { SharedContext, PlanStep, PlanResponse, ClarifyingQuestion, UsageTotals } from './types';
 import { REGISTRY } from './registry';
 import { OpusPlannerAgent } from './agents/opus-planner';
 import { GeminiAgent } from './agents/gemini-context';
 import { ReviewerAgent } from './agents/reviewer-swarm';
 import { FileExecutor } from './file-executor';
+import { RunStore, RunStatus } from './run-store';
+import { WorkspaceJournal } from './workspace-journal';
+import { AgentRouter } from './agent-router';
+import { resolveStepPolicy, stepApprovalReasons } from './step-policy';
+import { loadWorkspaceConfig } from './workspace-config';
+import { appendEvent } from './event-log';
+import { ReportFormat, REPORT_FORMATS, buildExecutionSummary } from './execution-report';
+import { PluginHost, formatExtraContext } from './plugins';
+import { UsageLedger, UsageMeter, emptyTotals, formatUsd, meterStep, meterUsage, tokenCount } from './usage';
+import { breakerStates, onBreakerChange } from './resilience';
+import { activePromptCache } from './prompt-cache';
+import {
+    CLARIFY_INSTRUCTIONS,
+    MAX_CLARIFICATION_ROUNDS,
+    extractClarifyingQuestions,
+    formatClarifications,
+    resolveAnswers
+} from './clarification';
 
 // ============================================================
 // ANSI Colors & Formatting
@@ -60,6 +79,11 @@ const sym = {
     spinner: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'],
 };
 
+function formatTotals(totals: UsageTotals): string {
+    const estimated = totals.estimatedCalls > 0 ? `, ${totals.estimatedCalls} estimated` : '';
+    return `${totals.calls} call(s), ${tokenCount(totals)} tokens (${totals.inputTokens} in, ${totals.outputTokens} out${estimated}), ${formatUsd(totals.costUsd)}`;
+}
+
 // ============================================================
 // CLI Class
 // ============================================================
@@ -72,6 +96,12 @@ class CollaborationCLI {
     private spinnerFrame = 0;
     private autoConfirm: boolean = false;
     private fileExecutor: FileExecutor;
+    private runStore: RunStore;
+    private journal: WorkspaceJournal;
+    private usageLedger: UsageLedger;
+    private usage: UsageMeter | null = null;
+    private router: AgentRouter;
+    private plugins = new PluginHost();
 
     constructor() {
         this.workspaceDir = process.cwd();
@@ -79,18 +109,30 @@ class CollaborationCLI {
         this.autoConfirm = process.argv.includes('--auto-confirm') || process.argv.includes('-y');
         this.cliManager = new CLIManager(this.workspaceDir);
         this.fileExecutor = new FileExecutor(this.workspaceDir);
+        this.runStore = new RunStore(this.workspaceDir);
+        this.journal = new WorkspaceJournal(this.workspaceDir);
+        this.usageLedger = new UsageLedger(path.join(this.workspaceDir, '.ai-collab', 'usage'));
+        this.router = new AgentRouter(REGISTRY);
         this.context = {
             userRequest: '',
             plan: [],
             currentStepId: 0,
             workspaceFiles: new Map(),
-            executionLog: []
+            executionLog: [],
+            clarifications: [],
+            extraContext: []
         };
 
         this.rl = readline.createInterface({
             input: process.stdin,
             output: process.stdout,
         });
+
+        onBreakerChange(breaker => {
+            const color = breaker.state === 'open' ? c.red : breaker.state === 'half-open' ? c.yellow : c.green;
+            this.clearLine();
+            this.println(`  ${color}${sym.warning} Circuit ${breaker.key} ${breaker.state}${c.reset}${breaker.lastFailure ? ` ${c.dim}(last failure: ${breaker.lastFailure})${c.reset}` : ''}`);
+        });
     }
 
     // --------------------------------------------------------
@@ -116,7 +158,7 @@ class CollaborationCLI {
         this.println(`${c.cyan}${c.bold}  ╰─────────────────────────────────────────╯${c.reset}`);
         this.println();
         this.println(`${c.dim}  Workspace: ${this.workspaceDir}${c.reset}`);
-        this.println(`${c.dim}  Type your request or 'exit' to quit${c.reset}`);
+        this.println(`${c.dim}  Type your request, 'runs', 'resume <planId>', 'undo [planId] [step]', 'report [planId] [format]', 'circuits', 'cache', 'usage' or 'exit' to quit${c.reset}`);
         this.println();
     }
 
@@ -239,6 +281,38 @@ class CollaborationCLI {
         this.println(`  ${icon} ${c.dim}Step ${step.id}:${c.reset} ${agentColor}[${step.assignedAgent}]${c.reset} ${step.description}`);
     }
 
+    /**
+     * Echoes an agent's output as it streams in, indented and dimmed.
+     */
+    private createOutputStream() {
+        let atLineStart = true;
+        let written = false;
+        return {
+            get written() { return written; },
+            write: (chunk: string) => {
+                let out = '';
+                chunk.split('\n').forEach((line, idx) => {
+                    if (idx > 0) {
+                        out += '\n';
+                        atLineStart = true;
+                    }
+                    if (line) {
+                        out += (atLineStart ? '    ' : '') + line;
+                        atLineStart = false;
+                    }
+                });
+                written = written || chunk.length > 0;
+                this.print(`${c.dim}${out}${c.reset}`);
+            },
+            end: () => {
+                if (!atLineStart) {
+                    this.println();
+                    atLineStart = true;
+                }
+            }
+        };
+    }
+
     // --------------------------------------------------------
     // Prompt Helpers
     // --------------------------------------------------------
@@ -259,6 +333,40 @@ class CollaborationCLI {
         return answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes';
     }
 
+    /**
+     * Asks an agent's clarifying questions one by one (a number picks a
+     * suggested option) and adds the answers to the context. With
+     * --auto-confirm nobody is asked and false is returned; the agent goes
+     * ahead on its own judgement.
+     */
+    private async askClarifyingQuestions(questions: ClarifyingQuestion[]): Promise<boolean> {
+        const { stepId, askedBy } = questions[0];
+        const answers: Record<string, string> = {};
+
+        if (!this.autoConfirm) {
+            this.println();
+            this.println(`  ${c.cyan}?${c.reset} ${c.bold}${askedBy} needs clarification${c.reset}${stepId !== undefined ? ` ${c.dim}(step ${stepId})${c.reset}` : ''}`);
+            for (const q of questions) {
+                this.println(`  ${q.question}`);
+                (q.options || []).forEach((option, idx) => this.println(`    ${c.dim}${idx + 1}.${c.reset} ${option}`));
+                const answer = await this.prompt(`  ${c.cyan}${sym.arrowRight}${c.reset} `);
+                const choice = q.options?.[parseInt(answer, 10) - 1];
+                answers[q.id] = /^\d+$/.test(answer) && choice ? choice : answer;
+            }
+        }
+
+        const clarifications = resolveAnswers(questions, answers);
+        this.context.clarifications.push(...clarifications);
+        appendEvent(this.context.executionLog, {
+            type: 'clarification.answered',
+            stepId,
+            agent: askedBy,
+            message: `${Object.values(answers).filter(Boolean).length}/${questions.length} question(s) answered`,
+            payload: { clarifications }
+        });
+        return !this.autoConfirm;
+    }
+
     // --------------------------------------------------------
     // Main Flow
     // --------------------------------------------------------
@@ -279,6 +387,47 @@ class CollaborationCLI {
                 continue;
             }
 
+            if (input.toLowerCase() === 'runs') {
+                await this.listRuns();
+                continue;
+            }
+
+            if (input.toLowerCase() === 'circuits') {
+                this.listCircuits();
+                continue;
+            }
+
+            if (input.toLowerCase() === 'cache') {
+                await this.showCacheStats();
+                continue;
+            }
+
+            if (input.toLowerCase() === 'usage') {
+                await this.showUsage();
+                continue;
+            }
+
+            const resumeMatch = input.match(/^resume\s+(\S+)$/i);
+            if (resumeMatch) {
+                await this.resumeRun(resumeMatch[1]);
+                this.println();
+                continue;
+            }
+
+            const undoMatch = input.match(/^undo(?:\s+(\S+))?(?:\s+(\d+))?$/i);
+            if (undoMatch) {
+                await this.undoRun(undoMatch[1], undoMatch[2] ? parseInt(undoMatch[2], 10) : undefined);
+                this.println();
+                continue;
+            }
+
+            const reportMatch = input.match(/^report(?:\s+(\S+))?(?:\s+(json|markdown|junit))?$/i);
+            if (reportMatch) {
+                await this.showReport(reportMatch[1], reportMatch[2]?.toLowerCase() as ReportFormat | undefined);
+                this.println();
+                continue;
+            }
+
             await this.handleRequest(input);
             this.println();
         }
@@ -293,16 +442,226 @@ class CollaborationCLI {
 
         for (const [key, config] of Object.entries(REGISTRY)) {
             this.println(`  ${c.cyan}${c.bold}${key}${c.reset}`);
-            this.println(`    ${c.dim}Command:${c.reset} ${config.command} ${config.args.join(' ')}`);
+            this.println(`    ${c.dim}${config.interactionMode === 'http' ? 'API:    ' : 'Command:'}${c.reset} ${describeTransport(config)}`);
             this.println(`    ${c.dim}Mode:${c.reset}    ${config.interactionMode}`);
+            if (config.capabilities?.length) {
+                this.println(`    ${c.dim}Can:${c.reset}     ${config.capabilities.join(', ')}`);
+            }
+            this.println();
+        }
+    }
+
+    private listCircuits() {
+        const breakers = breakerStates();
+
+        this.println();
+        this.println(`  ${c.bold}Circuit Breakers (${breakers.length})${c.reset}`);
+        this.divider();
+
+        for (const breaker of breakers) {
+            const color = breaker.state === 'open' ? c.red : breaker.state === 'half-open' ? c.yellow : c.green;
+            const detail = breaker.failures > 0 ? ` ${c.dim}${breaker.failures} failure(s), last: ${breaker.lastFailure}${c.reset}` : '';
+            this.println(`  ${c.cyan}${breaker.key}${c.reset} ${color}[${breaker.state}]${c.reset}${detail}`);
+        }
+        this.println();
+    }
+
+    private async showCacheStats() {
+        const cache = activePromptCache();
+
+        this.println();
+        this.println(`  ${c.bold}Prompt Cache${c.reset}`);
+        this.divider();
+        if (!cache) {
+            this.println(`  ${c.dim}Off. Set AI_COLLAB_CACHE to a directory to enable it.${c.reset}`);
             this.println();
+            return;
+        }
+
+        const stats = await cache.stats();
+        const lookups = stats.hits + stats.misses;
+        const hitRate = lookups > 0 ? ` ${c.dim}(${((stats.hits / lookups) * 100).toFixed(0)}% hit rate)${c.reset}` : '';
+        this.println(`  ${c.dim}Directory:${c.reset} ${cache.dir}`);
+        this.println(`  ${c.dim}Entries:${c.reset}   ${stats.entries} (${(stats.bytes / 1024 / 1024).toFixed(1)} MB)`);
+        this.println(`  ${c.dim}Session:${c.reset}   ${c.green}${stats.hits} hit(s)${c.reset}, ${stats.misses} miss(es), ${stats.writes} write(s), ${stats.evictions} eviction(s)${hitRate}`);
+        this.println();
+    }
+
+    private async showUsage() {
+        const today = await this.usageLedger.load();
+        const { budget } = (await loadWorkspaceConfig(this.workspaceDir)).usage || {};
+
+        this.println();
+        this.println(`  ${c.bold}Usage Today (${today.date})${c.reset}`);
+        this.divider();
+        this.println(`  ${c.dim}Total:${c.reset}  ${formatTotals(today.totals)}`);
+        if (budget?.dayUsd !== undefined || budget?.dayTokens !== undefined) {
+            const limits = [
+                budget.dayUsd !== undefined ? formatUsd(budget.dayUsd) : '',
+                budget.dayTokens !== undefined ? `${budget.dayTokens} tokens` : ''
+            ].filter(Boolean).join(', ');
+            this.println(`  ${c.dim}Budget:${c.reset} ${limits}`);
+        }
+        for (const [model, totals] of Object.entries(today.models).sort((a, b) => b[1].costUsd - a[1].costUsd)) {
+            this.println(`  ${c.cyan}${model}${c.reset} ${c.dim}${formatTotals(totals)}${c.reset}`);
         }
+        this.println();
+    }
+
+    private async listRuns() {
+        const runs = await this.runStore.list();
+
+        this.println();
+        this.println(`  ${c.bold}Saved Runs (${runs.length})${c.reset}`);
+        this.divider();
+
+        for (const run of runs.slice(0, 10)) {
+            const statusColor = run.status === 'completed' ? c.green :
+                run.status === 'failed' || run.status === 'rejected' ? c.red : c.yellow;
+            this.println(`  ${c.cyan}${run.planId}${c.reset} ${statusColor}[${run.status}]${c.reset} ${c.dim}${run.completedSteps}/${run.totalSteps} steps${c.reset}`);
+            this.println(`    ${c.dim}${run.userRequest.slice(0, 80)}${c.reset}`);
+        }
+        this.println();
+    }
+
+    private async resumeRun(planId: string) {
+        const run = await this.runStore.load(planId);
+        if (!run || !run.planResponse) {
+            this.println(`  ${c.red}${sym.cross}${c.reset} No checkpoint found for ${planId}`);
+            return;
+        }
+
+        this.context.userRequest = run.userRequest;
+        this.context.planResponse = run.planResponse;
+        this.context.plan = RunStore.prepareForResume(run.plan);
+        this.context.planResponse.steps = this.context.plan;
+        this.context.executionLog = run.executionLog;
+        this.context.clarifications = run.clarifications || [];
+        this.context.extraContext = run.extraContext || [];
+        this.context.usage = run.usage;
+        await this.loadPlugins();
+        try {
+            await this.openMeter();
+        } catch (error) {
+            this.println(`  ${c.red}${sym.cross}${c.reset} ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        const remaining = this.context.plan.filter(s => s.status !== 'completed').length;
+        this.println();
+        this.println(`  ${c.bold}Resuming ${planId}${c.reset} ${c.dim}(${remaining} of ${this.context.plan.length} steps remaining)${c.reset}`);
+
+        const proceed = await this.confirm('Resume?');
+        if (!proceed) {
+            this.println(`  ${c.dim}Resume cancelled.${c.reset}`);
+            return;
+        }
+
+        await this.executePlan();
+    }
+
+    /**
+     * Prints a run's report (the most recent run by default). A lone
+     * format name is accepted in place of the planId.
+     */
+    private async showReport(planId?: string, format: ReportFormat = 'markdown') {
+        if (planId && REPORT_FORMATS.includes(planId.toLowerCase() as ReportFormat)) {
+            format = planId.toLowerCase() as ReportFormat;
+            planId = undefined;
+        }
+
+        const targetId = planId || (await this.runStore.list())[0]?.planId;
+        const report = targetId ? await this.runStore.renderReport(targetId, format) : null;
+        if (!report) {
+            this.println(`  ${c.red}${sym.cross}${c.reset} No checkpoint found${targetId ? ` for ${targetId}` : ''}`);
+            return;
+        }
+
+        this.println();
+        this.println(report);
+    }
+
+    private async undoRun(planId?: string, stepId?: number) {
+        const targetId = planId || (await this.journal.lastRun())?.planId;
+        if (!targetId) {
+            this.println(`  ${c.dim}Nothing to undo.${c.reset}`);
+            return;
+        }
+
+        const what = stepId === undefined ? `run ${targetId}` : `step ${stepId} of ${targetId}`;
+        const proceed = await this.confirm(`Roll back ${what}?`);
+        if (!proceed) {
+            return;
+        }
+
+        try {
+            const result = stepId === undefined
+                ? await this.journal.rollbackRun(targetId)
+                : await this.journal.rollbackStep(targetId, stepId);
+            await this.runStore.markRolledBack(targetId, stepId);
+            this.println(`  ${c.green}${sym.check}${c.reset} Rolled back ${what} ${c.dim}(${result.restored.length} restored, ${result.deleted.length} deleted, ${result.kept.length} kept)${c.reset}`);
+        } catch (error) {
+            this.println(`  ${c.red}${sym.cross}${c.reset} Undo failed: ${error}`);
+        }
+    }
+
+    private checkpoint(status: RunStatus): Promise<void> {
+        return this.runStore.save(this.context, status);
+    }
+
+    /**
+     * Starts metering a run's calls, priced and budgeted by the workspace
+     * config. Throws if the daily budget is already spent.
+     */
+    private async openMeter() {
+        const context = this.context;
+        const { prices, budget } = (await loadWorkspaceConfig(this.workspaceDir)).usage || {};
+        context.usage = context.usage || emptyTotals();
+        this.usage = await UsageMeter.open({
+            prices,
+            budget,
+            ledger: this.usageLedger,
+            run: context.usage,
+            onRecord: (usage, stepId) => {
+                const step = context.plan.find(s => s.id === stepId);
+                if (step) {
+                    step.tokensUsed = (step.tokensUsed || 0) + tokenCount(usage);
+                    step.costUsd = (step.costUsd || 0) + usage.costUsd;
+                }
+            },
+            onExceeded: reason => {
+                this.clearLine();
+                this.println(`  ${c.red}${sym.warning} ${reason}, remaining steps will be skipped${c.reset}`);
+                appendEvent(context.executionLog, { type: 'error', message: reason, payload: { usage: context.usage, budget } });
+            }
+        });
+
+        const exceeded = this.usage.overBudget();
+        if (exceeded) {
+            throw new Error(exceeded);
+        }
+    }
+
+    private metered<T>(fn: () => Promise<T>): Promise<T> {
+        return this.usage ? meterUsage(this.usage, fn) : fn();
+    }
+
+    private async loadPlugins() {
+        this.plugins = PluginHost.load(this.workspaceDir, (await loadWorkspaceConfig(this.workspaceDir)).plugins);
     }
 
     private async handleRequest(request: string) {
         this.context.userRequest = request;
         this.context.executionLog = [];
         this.context.plan = [];
+        this.context.clarifications = [];
+        this.context.extraContext = [];
+        this.context.usage = undefined;
+        appendEvent(this.context.executionLog, {
+            type: 'run.started',
+            message: `Request received: "${request}"`,
+            payload: { userRequest: request }
+        });
 
         // Phase 1: Planning
         this.println();
@@ -310,6 +669,8 @@ class CollaborationCLI {
 
         let planResponse: PlanResponse;
         try {
+            await this.loadPlugins();
+            await this.openMeter();
             // Ensure Opus is running
             await this.cliManager.startAgent(REGISTRY['opus']);
 
@@ -319,9 +680,27 @@ class CollaborationCLI {
                 this.workspaceDir
             );
 
-            planResponse = await planner.generatePlan(this.context);
+            await this.plugins.beforePlan(this.context);
+            planResponse = await this.metered(() => planner.generatePlan(this.context));
+            for (let round = 1; planResponse.questions && round <= MAX_CLARIFICATION_ROUNDS; round++) {
+                this.stopSpinner();
+                if (!await this.askClarifyingQuestions(planResponse.questions)) {
+                    this.startSpinner('Planning with Opus...');
+                    break;
+                }
+                this.startSpinner('Replanning with your answers...');
+                planResponse = await this.metered(() => planner.generatePlan(this.context));
+            }
+            planResponse.veto = await this.plugins.afterPlan(this.context, planResponse) || undefined;
             this.context.planResponse = planResponse;
             this.context.plan = planResponse.steps;
+            appendEvent(this.context.executionLog, {
+                type: 'plan.generated',
+                agent: 'opus',
+                message: `Plan generated: ${planResponse.steps.length} steps, ${Math.round(planResponse.confidence.overall * 100)}% confidence`,
+                payload: { steps: planResponse.steps.length, confidence: planResponse.confidence.overall }
+            });
+            await this.checkpoint('planned');
 
             this.stopSpinner(`  ${c.green}${sym.check}${c.reset} Plan generated`);
         } catch (error) {
@@ -332,6 +711,13 @@ class CollaborationCLI {
         // Display plan
         this.displayPlanSummary(planResponse);
 
+        if (planResponse.veto) {
+            this.println(`  ${c.red}${sym.cross}${c.reset} Plan vetoed by plugin ${planResponse.veto}`);
+            appendEvent(this.context.executionLog, { type: 'plan.rejected', message: `Plan vetoed by plugin ${planResponse.veto}` });
+            await this.checkpoint('rejected');
+            return;
+        }
+
         // Phase 2: Approval (if needed)
         if (planResponse.requiresApproval || planResponse.confidence.overall < 0.7) {
             this.println(`  ${c.yellow}${sym.warning}${c.reset} ${c.bold}Low confidence - approval required${c.reset}`);
@@ -340,32 +726,144 @@ class CollaborationCLI {
             const approved = await this.confirm('Execute this plan?');
             if (!approved) {
                 this.println(`  ${c.dim}Plan cancelled.${c.reset}`);
+                await this.checkpoint('rejected');
                 return;
             }
         } else {
             const proceed = await this.confirm('Execute?');
             if (!proceed) {
                 this.println(`  ${c.dim}Plan cancelled.${c.reset}`);
+                await this.checkpoint('rejected');
                 return;
             }
         }
 
         // Phase 3: Execution
+        await this.executePlan();
+    }
+
+    private async executePlan() {
         this.println();
         this.println(`  ${c.bold}Executing...${c.reset}`);
         this.divider();
 
+        const planId = this.context.planResponse?.planId;
+        if (planId) {
+            await this.journal.beginRun(planId);
+        }
+        const policy = resolveStepPolicy((await loadWorkspaceConfig(this.workspaceDir)).stepApproval);
+        for (const [name, config] of Object.entries(REGISTRY)) {
+            this.router.setAvailable(name, await this.cliManager.isAvailable(config));
+        }
+
         for (const step of this.context.plan) {
+            if (step.status === 'completed') {
+                this.displayStepProgress(step, 'done');
+                continue;
+            }
+
+            const reasons = stepApprovalReasons(step, policy, this.context.planResponse);
+            if (reasons.length > 0) {
+                this.println(`  ${c.yellow}${sym.warning}${c.reset} Step ${step.id} needs approval: ${c.dim}${reasons.join('; ')}${c.reset}`);
+                if (!await this.confirm(`Run step ${step.id}?`)) {
+                    step.status = 'skipped';
+                    step.error = 'Rejected by user';
+                    appendEvent(this.context.executionLog, {
+                        type: 'step.skipped',
+                        stepId: step.id,
+                        agent: step.assignedAgent,
+                        message: 'Skipped (Rejected by user)',
+                        payload: { reason: step.error, reasons }
+                    });
+                    await this.checkpoint('running');
+                    this.displayStepProgress(step, 'skipped');
+                    continue;
+                }
+            }
+
+            const exceeded = this.usage?.overBudget();
+            if (exceeded) {
+                step.status = 'skipped';
+                step.error = exceeded;
+                appendEvent(this.context.executionLog, {
+                    type: 'step.skipped',
+                    stepId: step.id,
+                    agent: step.assignedAgent,
+                    message: `Skipped (${step.error})`,
+                    payload: { reason: step.error }
+                });
+                await this.checkpoint('running');
+                this.displayStepProgress(step, 'skipped');
+                continue;
+            }
+
+            const veto = await this.plugins.beforeStep(this.context, step);
+            if (veto) {
+                step.status = 'skipped';
+                step.error = `Vetoed by plugin ${veto}`;
+                appendEvent(this.context.executionLog, {
+                    type: 'step.skipped',
+                    stepId: step.id,
+                    agent: step.assignedAgent,
+                    message: `Skipped (${step.error})`,
+                    payload: { reason: step.error }
+                });
+                await this.checkpoint('running');
+                this.displayStepProgress(step, 'skipped');
+                continue;
+            }
+
+            const agent = this.router.route(step);
+            if (!agent) {
+                step.status = 'skipped';
+                step.error = `No available agent can ${step.action}`;
+                appendEvent(this.context.executionLog, {
+                    type: 'step.skipped',
+                    stepId: step.id,
+                    agent: step.assignedAgent,
+                    message: `Skipped (${step.error})`,
+                    payload: { reason: step.error }
+                });
+                await this.checkpoint('running');
+                this.displayStepProgress(step, 'skipped');
+                continue;
+            }
+            step.assignedAgent = agent;
+
+            step.status = 'in-progress';
+            appendEvent(this.context.executionLog, {
+                type: 'step.started',
+                stepId: step.id,
+                agent: step.assignedAgent,
+                message: step.description,
+                payload: { action: step.action, target: step.target }
+            });
+            await this.checkpoint('running');
             this.displayStepProgress(step, 'running');
+            if (planId) {
+                await this.journal.beforeStep(planId, step.id);
+            }
+            const startTime = Date.now();
+            const stream = this.createOutputStream();
 
             try {
-                const output = await this.executeStep(step);
+                const output = await this.metered(() => meterStep(step.id, () => this.executeStep(step, stream.write)));
+                stream.end();
                 step.status = 'completed';
                 step.output = output;
+                appendEvent(this.context.executionLog, {
+                    type: 'step.finished',
+                    stepId: step.id,
+                    agent: step.assignedAgent,
+                    durationMs: Date.now() - startTime,
+                    message: 'Completed',
+                    payload: { status: 'completed' }
+                });
+                await this.checkpoint('running');
                 this.displayStepProgress(step, 'done');
 
-                // Show output (truncated if too long)
-                if (output && output.trim()) {
+                // Show output (truncated if too long) unless it was streamed
+                if (!stream.written && output && output.trim()) {
                     const lines = output.split('\n').slice(0, 10);
                     for (const line of lines) {
                         this.println(`    ${c.dim}${line.slice(0, 100)}${c.reset}`);
@@ -375,26 +873,83 @@ class CollaborationCLI {
                     }
                 }
             } catch (error) {
+                stream.end();
                 step.status = 'failed';
                 step.error = String(error);
+                appendEvent(this.context.executionLog, {
+                    type: 'step.finished',
+                    stepId: step.id,
+                    agent: step.assignedAgent,
+                    durationMs: Date.now() - startTime,
+                    message: `Failed - ${error}`,
+                    payload: { status: 'failed', error: String(error) }
+                });
+                await this.checkpoint('running');
                 this.displayStepProgress(step, 'failed');
                 this.println(`    ${c.red}Error: ${error}${c.reset}`);
             }
+
+            if (planId) {
+                const changes = await this.journal.afterStep(planId, step.id);
+                for (const change of changes) {
+                    appendEvent(this.context.executionLog, {
+                        type: 'file.written',
+                        stepId: step.id,
+                        agent: step.assignedAgent,
+                        message: `${change.status === 'deleted' ? 'Deleted' : 'Wrote'} ${change.path}`,
+                        payload: change
+                    });
+                }
+            }
+            await this.plugins.afterStep(this.context, step);
         }
 
         // Summary
         this.println();
         const completed = this.context.plan.filter(s => s.status === 'completed').length;
         const failed = this.context.plan.filter(s => s.status === 'failed').length;
-
+        appendEvent(this.context.executionLog, {
+            type: 'run.finished',
+            message: 'Plan execution complete',
+            payload: { succeeded: failed === 0 }
+        });
+        await this.checkpoint(failed === 0 ? 'completed' : 'failed');
+        if (planId) {
+            await this.runStore.writeReports(planId);
+        }
+        await this.plugins.onComplete(this.context, buildExecutionSummary({
+            planId: planId || 'unknown',
+            userRequest: this.context.userRequest,
+            status: failed === 0 ? 'completed' : 'failed',
+            plan: this.context.plan,
+            executionLog: this.context.executionLog,
+            usage: this.context.usage
+        }));
+
+        if (this.context.usage) {
+            this.println(`  ${c.dim}Usage: ${formatTotals(this.context.usage)}${c.reset}`);
+        }
         if (failed === 0) {
             this.println(`  ${c.green}${sym.check} All ${completed} steps completed successfully${c.reset}`);
         } else {
             this.println(`  ${c.yellow}${sym.warning} ${completed} completed, ${failed} failed${c.reset}`);
+
+            if (planId && await this.journal.isAvailable() && await this.confirm('Roll back changes from this run?')) {
+                try {
+                    const result = await this.journal.rollbackRun(planId);
+                    await this.runStore.markRolledBack(planId);
+                    this.println(`  ${c.green}${sym.check}${c.reset} Workspace restored`);
+                    if (result.kept.length > 0) {
+                        this.println(`  ${c.dim}Kept files edited since the run: ${result.kept.join(', ')}${c.reset}`);
+                    }
+                } catch (error) {
+                    this.println(`  ${c.red}${sym.cross}${c.reset} Rollback failed: ${error}`);
+                }
+            }
         }
     }
 
-    private async executeStep(step: PlanStep): Promise<string> {
+    private async executeStep(step: PlanStep, onChunk?: (chunk: string) => void): Promise<string> {
         // REAL EXECUTION - NO SIMULATION - ALL AGENTS CALL REAL CLI
         const agentName = step.assignedAgent;
         const config = REGISTRY[agentName];
@@ -404,7 +959,7 @@ class CollaborationCLI {
         }
 
         // Enhanced prompt that instructs agent to actually write files
-        const prompt = `You are an autonomous coding agent with FULL FILE SYSTEM ACCESS.
+        const buildPrompt = () => `You are an autonomous coding agent with FULL FILE SYSTEM ACCESS.
 
 TASK: ${step.description}
 TARGET FILE: ${step.target}
@@ -417,11 +972,30 @@ INSTRUCTIONS:
 
 If creating a new file, write it with proper exports and TypeScript types.
 If modifying, make minimal targeted changes.
+${formatExtraContext(this.context)}${formatClarifications(this.context.clarifications)}
+${CLARIFY_INSTRUCTIONS}
 
 Execute now.`;
 
-        console.log(`[executeStep] Calling REAL agent: ${agentName} via ${config.command} ${config.args.join(' ')}`);
-        const response = await this.cliManager.sendPrompt(agentName, prompt, config);
+        console.log(`[executeStep] Calling REAL agent: ${agentName} via ${describeTransport(config)}`);
+        step.tokensUsed = 0;
+        step.costUsd = 0;
+        let response = '';
+        for (let round = 0; ; round++) {
+            const prompt = buildPrompt();
+            response = await this.cliManager.sendPrompt(agentName, prompt, config, {
+                onChunk,
+                onRetry: (attempt, error) => this.println(`\n    ${c.yellow}${sym.warning} Retrying ${agentName} (${attempt}): ${error instanceof Error ? error.message : error}${c.reset}`)
+            });
+
+            const questions = round < MAX_CLARIFICATION_ROUNDS
+                ? extractClarifyingQuestions(response, { askedBy: agentName, stepId: step.id, prior: this.context.clarifications })
+                : [];
+            if (questions.length === 0) {
+                break;
+            }
+            await this.askClarifyingQuestions(questions);
+        }
 
         if (!response || !response.trim()) {
             return `(Agent ${agentName} returned empty response)`;
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildStepContext, rankFiles, summarizeFile, tokenize } from './context-builder';
+import { PlanStep } from './types';
+
+function makeStep(overrides: Partial<PlanStep> = {}): PlanStep {
+  return {
+    id: 1,
+    action: 'edit',
+    target: 'src/cache.ts',
+    description: 'Add expiry to the cache',
+    assignedAgent: 'codex',
+    status: 'pending',
+    inputs: [],
+    outputs: [],
+    ...overrides
+  };
+}
+
+const files = new Map<string, string>([
+  ['/repo/src/cache.ts', "import { now } from './clock';\nexport class Cache {}\n"],
+  ['/repo/src/clock.ts', "import { format } from './util/format';\nexport function now() { return Date.now(); }\n"],
+  ['/repo/src/util/format.ts', 'export function format(n: number) { return String(n); }\n'],
+  ['/repo/src/expiry-policy.ts', 'export const EXPIRY = 60; // cache expiry in seconds\n'],
+  ['/repo/README.md', '# Project\nNothing to see here.\n']
+]);
+
+describe('rankFiles', () => {
+  it('puts the target first, then files near it in the import graph', () => {
+    const ranked = rankFiles(files, makeStep(), { workspaceDir: '/repo' });
+
+    expect(ranked[0].path).toBe('/repo/src/cache.ts');
+    expect(ranked[0].reasons).toContain('target');
+    const order = ranked.map(r => r.path);
+    expect(order.indexOf('/repo/src/clock.ts')).toBeLessThan(order.indexOf('/repo/src/util/format.ts'));
+    expect(order.indexOf('/repo/src/util/format.ts')).toBeLessThan(order.indexOf('/repo/README.md'));
+  });
+
+  it('ranks files by keywords and content when the target does not exist yet', () => {
+    const ranked = rankFiles(files, makeStep({ target: 'src/ttl.ts', description: 'Apply the expiry policy' }), { workspaceDir: '/repo' });
+
+    expect(ranked[0].path).toBe('/repo/src/expiry-policy.ts');
+  });
+
+  it('breaks ties by recency', () => {
+    const step = makeStep({ target: 'task', description: 'Unrelated work' });
+    const modifiedAt = new Map([['/repo/README.md', 2000], ['/repo/src/clock.ts', 1000]]);
+    const ranked = rankFiles(files, step, { modifiedAt });
+
+    expect(ranked[0].path).toBe('/repo/README.md');
+  });
+});
+
+describe('buildStepContext', () => {
+  it('includes what fits and summarizes the rest', () => {
+    const big = new Map(files);
+    big.set('/repo/src/huge.ts', '// Huge generated table\nexport const TABLE = [' + '1,'.repeat(4000) + '];\n');
+
+    const context = buildStepContext(big, makeStep(), { maxTokens: 200 }, { workspaceDir: '/repo' });
+
+    expect(Object.keys(context.files)[0]).toBe('src/cache.ts');
+    expect(context.files['src/huge.ts']).toBeUndefined();
+    expect(context.summaries['src/huge.ts']).toBe('Huge generated table; exports TABLE');
+    expect(context.tokens).toBeLessThanOrEqual(200);
+  });
+
+  it('counts files that fit neither in full nor as a summary', () => {
+    const context = buildStepContext(files, makeStep(), { maxTokens: 10, summaryShare: 0 }, { workspaceDir: '/repo' });
+
+    expect(Object.keys(context.files)).toHaveLength(0);
+    expect(Object.keys(context.summaries).length + context.omitted).toBe(files.size);
+  });
+});
+
+describe('summarizeFile / tokenize', () => {
+  it('uses the header comment and exports', () => {
+    const content = '// ====\n// Rate Limiter - Token Bucket\n// ====\nexport class TokenBucket {}\nexport function limit() {}\n';
+    expect(summarizeFile(content)).toBe('Rate Limiter - Token Bucket; exports TokenBucket, limit');
+  });
+
+  it('splits identifiers and drops stop words', () => {
+    expect(tokenize('Add retryCount to the http_client')).toEqual(['retry', 'count', 'http', 'client']);
+  });
+});
@@ -0,0 +1,331 @@
+// ============================================================
+// Context Builder - Relevance-Ranked, Token-Budgeted File Context
+// Ranks workspace files by how relevant they are to a step and
+// packs the best ones into the agent's token budget; the rest
+// are attached as one-line summaries.
+// ============================================================
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PlanStep } from './types';
+import { estimateTokens } from './token-estimate';
+
+export const DEFAULT_CONTEXT_TOKENS = 24000;
+
+export interface ContextOptions {
+    /**
+     * Token budget for file contents and summaries (default 24000).
+     */
+    maxTokens?: number;
+    /**
+     * Share of the budget kept back for summaries of the files that don't
+     * fit (default 0.15).
+     */
+    summaryShare?: number;
+}
+
+/**
+ * Extra signals the ranking can use; paths are keys of the file map.
+ */
+export interface RankingSignals {
+    modifiedAt?: Map<string, number>;  // ms since epoch
+    workspaceDir?: string;             // Paths in the result are made relative to it
+}
+
+export interface RankedFile {
+    path: string;
+    score: number;
+    reasons: string[];                 // Signals that contributed, for logging
+}
+
+export interface StepContext {
+    files: Record<string, string>;     // Full contents, most relevant first
+    summaries: Record<string, string>;
+    omitted: number;                   // Files neither included nor summarized
+    tokens: number;
+}
+
+// Contributions to a file's score; an exact target match always ranks first
+const WEIGHTS = { target: 10, graph: 0.35, keywords: 0.25, similarity: 0.25, recency: 0.15 };
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'add', 'use', 'new', 'all',
+    'create', 'update', 'make', 'file', 'files', 'step', 'should', 'will', 'are', 'its', 'not'
+]);
+
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.json', '/index.ts', '/index.js'];
+
+// ------------------------------------------------------------
+// Ranking
+// ------------------------------------------------------------
+/**
+ * Scores every file for a step from four signals: distance in the import
+ * graph from the step's target, query keywords in the path, term-vector
+ * similarity between the step text and the file, and how recently the
+ * file changed.
+ */
+export function rankFiles(files: Map<string, string>, step: PlanStep, signals: RankingSignals = {}): RankedFile[] {
+    const paths = [...files.keys()];
+    const query = tokenize(`${step.target} ${step.description}`);
+    const targets = new Set(paths.filter(p => matchesTarget(p, step.target)));
+    const distances = graphDistances(files, targets);
+    const similarity = termSimilarity(files, query);
+    const recency = recencyScores(paths, signals.modifiedAt);
+
+    const ranked = paths.map(p => {
+        const reasons: string[] = [];
+        let score = 0;
+
+        if (targets.has(p)) {
+            score += WEIGHTS.target;
+            reasons.push('target');
+        }
+
+        const distance = distances.get(p);
+        if (distance !== undefined && distance > 0) {
+            score += WEIGHTS.graph / distance;
+            reasons.push(`imports ${distance} hop(s) away`);
+        }
+
+        const pathTerms = new Set(tokenize(signals.workspaceDir ? path.relative(signals.workspaceDir, p) : p));
+        const keywordHits = query.filter(t => pathTerms.has(t)).length;
+        if (keywordHits > 0) {
+            score += WEIGHTS.keywords * keywordHits / query.length;
+            reasons.push('keywords in path');
+        }
+
+        const sim = similarity.get(p) || 0;
+        if (sim > 0) {
+            score += WEIGHTS.similarity * sim;
+            reasons.push(`similarity ${sim.toFixed(2)}`);
+        }
+
+        const recent = recency.get(p) || 0;
+        score += WEIGHTS.recency * recent;
+
+        return { path: p, score, reasons };
+    });
+
+    return ranked.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+// ------------------------------------------------------------
+// Packing
+// ------------------------------------------------------------
+/**
+ * Packs the highest-ranked files into the budget in full. Files that don't
+ * fit are summarized while the summary share lasts; the rest are only
+ * counted.
+ */
+export function buildStepContext(
+    files: Map<string, string>,
+    step: PlanStep,
+    options: ContextOptions = {},
+    signals: RankingSignals = {}
+): StepContext {
+    const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+    const summaryBudget = Math.floor(maxTokens * (options.summaryShare ?? 0.15));
+    const fileBudget = maxTokens - summaryBudget;
+    const display = (p: string) => signals.workspaceDir ? path.relative(signals.workspaceDir, p) || p : p;
+
+    const result: StepContext = { files: {}, summaries: {}, omitted: 0, tokens: 0 };
+    let fileTokens = 0;
+    let summaryTokens = 0;
+
+    for (const { path: p } of rankFiles(files, step, signals)) {
+        const content = files.get(p) || '';
+        const cost = estimateTokens(content) + estimateTokens(p);
+        if (fileTokens + cost <= fileBudget) {
+            result.files[display(p)] = content;
+            fileTokens += cost;
+            continue;
+        }
+
+        const summary = summarizeFile(content);
+        const summaryCost = estimateTokens(summary) + estimateTokens(p);
+        // Summaries may also use whatever the full files left over
+        if (summaryTokens + summaryCost <= summaryBudget + (fileBudget - fileTokens)) {
+            result.summaries[display(p)] = summary;
+            summaryTokens += summaryCost;
+        } else {
+            result.omitted++;
+        }
+    }
+
+    result.tokens = fileTokens + summaryTokens;
+    return result;
+}
+
+/**
+ * One line describing a file: its header comment, if any, and what it
+ * exports.
+ */
+export function summarizeFile(content: string): string {
+    const lines = content.split('\n');
+    const codeStart = lines.findIndex(line => line.trim() && !/^\s*(\/\/|\/\*|\*|#)/.test(line));
+    const header = lines
+        .slice(0, Math.min(codeStart === -1 ? lines.length : codeStart, 8))
+        .map(line => line.replace(/^\s*(\/\/+|\/?\*+\/?|#)\s?/, '').trim())
+        .filter(line => line && !/^[=\-*]{3,}$/.test(line))
+        .slice(0, 2)
+        .join(' - ');
+
+    const exports = [...content.matchAll(/export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|interface|type|const|let|enum)\s+([A-Za-z_$][\w$]*)/g)]
+        .map(m => m[1]);
+    const exportList = exports.length > 0
+        ? `exports ${exports.slice(0, 8).join(', ')}${exports.length > 8 ? `, +${exports.length - 8} more` : ''}`
+        : '';
+
+    const summary = [header, exportList].filter(Boolean).join('; ');
+    const fallback = content.split('\n').find(line => line.trim())?.trim() || '(empty)';
+    return truncate(summary || fallback, 200);
+}
+
+// ------------------------------------------------------------
+// Signals
+// ------------------------------------------------------------
+function matchesTarget(file: string, target: string): boolean {
+    const normalized = target.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+    if (!normalized || !/[./]/.test(normalized)) {
+        return false;
+    }
+    const p = file.replace(/\\/g, '/');
+    return p === normalized || p.endsWith(`/${normalized}`);
+}
+
+/**
+ * Hops from the nearest target through relative imports, in either
+ * direction. Targets are at distance 0; unreachable files are missing.
+ */
+function graphDistances(files: Map<string, string>, targets: Set<string>): Map<string, number> {
+    const edges = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+        if (!edges.has(a)) edges.set(a, new Set());
+        edges.get(a)!.add(b);
+    };
+
+    for (const [file, content] of files) {
+        for (const imported of relativeImports(file, content, files)) {
+            link(file, imported);
+            link(imported, file);
+        }
+    }
+
+    const distances = new Map<string, number>();
+    let frontier = [...targets];
+    frontier.forEach(t => distances.set(t, 0));
+    for (let depth = 1; frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const file of frontier) {
+            for (const neighbour of edges.get(file) || []) {
+                if (!distances.has(neighbour)) {
+                    distances.set(neighbour, depth);
+                    next.push(neighbour);
+                }
+            }
+        }
+        frontier = next;
+    }
+    return distances;
+}
+
+function relativeImports(file: string, content: string, files: Map<string, string>): string[] {
+    const specifiers = [...content.matchAll(/(?:from\s+|require\(\s*|import\(\s*|import\s+)['"](\.{1,2}\/[^'"]+)['"]/g)]
+        .map(m => m[1]);
+    const dir = path.dirname(file);
+
+    return specifiers
+        .map(spec => {
+            const base = path.join(dir, spec);
+            return RESOLVE_EXTENSIONS.map(ext => base + ext).find(candidate => files.has(candidate));
+        })
+        .filter((p): p is string => p !== undefined);
+}
+
+/**
+ * Cosine similarity between TF-IDF vectors of the query and each file.
+ */
+function termSimilarity(files: Map<string, string>, query: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (query.length === 0) {
+        return scores;
+    }
+
+    const counts = new Map<string, Map<string, number>>();
+    const documentFrequency = new Map<string, number>();
+    for (const [file, content] of files) {
+        const tf = new Map<string, number>();
+        for (const term of tokenize(content)) {
+            tf.set(term, (tf.get(term) || 0) + 1);
+        }
+        counts.set(file, tf);
+        tf.forEach((_count, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    }
+
+    const idf = (term: string) => Math.log((files.size + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+    const queryCounts = new Map<string, number>();
+    query.forEach(t => queryCounts.set(t, (queryCounts.get(t) || 0) + 1));
+    const queryNorm = Math.sqrt([...queryCounts].reduce((sum, [t, n]) => sum + (n * idf(t)) ** 2, 0));
+
+    for (const [file, tf] of counts) {
+        let dot = 0;
+        let norm = 0;
+        tf.forEach((n, term) => {
+            const weight = n * idf(term);
+            norm += weight ** 2;
+            const q = queryCounts.get(term);
+            if (q) {
+                dot += weight * q * idf(term);
+            }
+        });
+        if (dot > 0) {
+            scores.set(file, dot / (Math.sqrt(norm) * queryNorm));
+        }
+    }
+    return scores;
+}
+
+/**
+ * 1 for the most recently modified file down to 0 for the oldest.
+ */
+function recencyScores(paths: string[], modifiedAt?: Map<string, number>): Map<string, number> {
+    const scores = new Map<string, number>();
+    const known = paths.filter(p => modifiedAt?.has(p));
+    if (!modifiedAt || known.length < 2) {
+        return scores;
+    }
+
+    const sorted = known.sort((a, b) => modifiedAt.get(a)! - modifiedAt.get(b)!);
+    sorted.forEach((p, idx) => scores.set(p, idx / (sorted.length - 1)));
+    return scores;
+}
+
+/**
+ * Modification times for the recency signal; files that can't be read are
+ * left out.
+ */
+export async function modifiedTimes(paths: Iterable<string>): Promise<Map<string, number>> {
+    const times = new Map<string, number>();
+    await Promise.all([...paths].map(async p => {
+        try {
+            times.set(p, (await fs.stat(p)).mtimeMs);
+        } catch { }
+    }));
+    return times;
+}
+
+/**
+ * Lower-cased words of three or more letters, with camelCase and
+ * snake_case identifiers split into their parts.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 2 && !STOP_WORDS.has(t) && !/^\d+$/.test(t));
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
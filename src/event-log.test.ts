@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { appendEvent, formatEvent, parseJsonl, toJsonl } from './event-log';
+import { RunEvent } from './types';
+
+describe('event log', () => {
+  it('should number events in order and stamp them', () => {
+    const log: RunEvent[] = [];
+    appendEvent(log, { type: 'run.started', message: 'Request received' });
+    const event = appendEvent(log, { type: 'step.started', stepId: 1, agent: 'codex', message: 'Write file' });
+
+    expect(log.map(e => e.seq)).toEqual([1, 2]);
+    expect(event.stepId).toBe(1);
+    expect(Number.isNaN(Date.parse(event.timestamp))).toBe(false);
+  });
+
+  it('should round-trip through JSONL', () => {
+    const log: RunEvent[] = [];
+    appendEvent(log, { type: 'run.started', message: 'a' });
+    appendEvent(log, { type: 'review.vote', stepId: 2, message: 'b', payload: { vote: 'APPROVE' } });
+
+    const jsonl = toJsonl(log);
+    expect(jsonl.trim().split('\n')).toHaveLength(2);
+    expect(parseJsonl(jsonl)).toEqual(log);
+  });
+
+  it('should skip blank and malformed JSONL lines', () => {
+    const text = '{"seq":1,"timestamp":"t","type":"note","message":"ok"}\n\nnot json\n{"foo":1}\n';
+    expect(parseJsonl(text)).toHaveLength(1);
+  });
+
+  it('should render events on one line', () => {
+    const event: RunEvent = {
+      seq: 3,
+      timestamp: '2024-01-01T12:00:01.000Z',
+      type: 'step.finished',
+      stepId: 2,
+      agent: 'codex',
+      durationMs: 3200,
+      message: 'Completed'
+    };
+    expect(formatEvent(event)).toBe('12:00:01 [step.finished] #2 codex: Completed (3.2s)');
+  });
+});
@@ -0,0 +1,59 @@
+// ============================================================
+// Event Log - Structured Run History
+// Helpers for SharedContext.executionLog: appending typed events,
+// rendering them for humans and (de)serializing them as JSONL.
+// ============================================================
+
+import { RunEvent } from './types';
+
+export type RunEventInput = Omit<RunEvent, 'seq' | 'timestamp'>;
+
+/**
+ * Appends an event to a run's log, stamping its sequence number and time.
+ */
+export function appendEvent(log: RunEvent[], input: RunEventInput): RunEvent {
+    const event: RunEvent = {
+        seq: (log[log.length - 1]?.seq ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        ...input
+    };
+    log.push(event);
+    return event;
+}
+
+/**
+ * One-line rendering, e.g. "12:00:01 [step.finished] #2 codex: Completed (3.2s)".
+ */
+export function formatEvent(event: RunEvent): string {
+    const time = event.timestamp.slice(11, 19);
+    const step = event.stepId !== undefined ? ` #${event.stepId}` : '';
+    const agent = event.agent ? ` ${event.agent}` : '';
+    const duration = event.durationMs !== undefined ? ` (${(event.durationMs / 1000).toFixed(1)}s)` : '';
+    return `${time} [${event.type}]${step}${agent}: ${event.message}${duration}`;
+}
+
+// ------------------------------------------------------------
+// JSONL
+// ------------------------------------------------------------
+export function toJsonl(events: RunEvent[]): string {
+    return events.map(e => JSON.stringify(e)).join('\n') + (events.length > 0 ? '\n' : '');
+}
+
+/**
+ * Parses a JSONL export, skipping blank and malformed lines.
+ */
+export function parseJsonl(text: string): RunEvent[] {
+    const events: RunEvent[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const event = JSON.parse(line);
+            if (event && typeof event.type === 'string' && typeof event.seq === 'number') {
+                events.push(event);
+            }
+        } catch {
+            // Skip malformed lines
+        }
+    }
+    return events;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { buildExecutionSummary, renderReport, ReportSource } from './execution-report';
+import { PlanStep, RunEvent } from './types';
+
+function makeStep(overrides: Partial<PlanStep> = {}): PlanStep {
+  return {
+    id: 1,
+    action: 'edit',
+    target: 'src/index.ts',
+    description: 'Add a greeting',
+    assignedAgent: 'codex',
+    status: 'completed',
+    inputs: [],
+    outputs: [],
+    ...overrides
+  };
+}
+
+function event(seq: number, type: RunEvent['type'], extra: Partial<RunEvent> = {}): RunEvent {
+  return { seq, timestamp: new Date(Date.UTC(2024, 0, 1, 12, 0, seq)).toISOString(), type, message: type, ...extra };
+}
+
+function makeRun(): ReportSource {
+  return {
+    planId: 'plan-1',
+    userRequest: 'Add a greeting & a test',
+    status: 'failed',
+    plan: [
+      makeStep({ tokensUsed: 120, output: 'done <ok>' }),
+      makeStep({ id: 2, description: 'Write tests', status: 'failed', error: 'Failed review', tokensUsed: 80, costUsd: 0.012 }),
+      makeStep({ id: 3, description: 'Update docs', status: 'skipped', error: 'Unmet dependencies: 2' })
+    ],
+    executionLog: [
+      event(1, 'run.started'),
+      event(2, 'step.started', { stepId: 1 }),
+      event(3, 'file.written', { stepId: 1, payload: { path: 'src/index.ts', status: 'modified' } }),
+      event(4, 'step.finished', { stepId: 1, durationMs: 1500 }),
+      event(5, 'step.started', { stepId: 2 }),
+      event(6, 'review.verdict', { stepId: 2, payload: { approved: false, approvalRatio: 0.25, issues: ['No edge cases'] } }),
+      event(7, 'review.verdict', { stepId: 2, payload: { approved: false, approvalRatio: 0.5, issues: ['Missing assertions'] } }),
+      event(8, 'step.finished', { stepId: 2, durationMs: 4000 }),
+      event(9, 'step.skipped', { stepId: 3 }),
+      event(10, 'run.finished')
+    ]
+  };
+}
+
+describe('buildExecutionSummary', () => {
+  it('should combine plan statuses with durations, tokens and files from the log', () => {
+    const summary = buildExecutionSummary(makeRun());
+
+    expect(summary).toMatchObject({
+      planId: 'plan-1',
+      success: false,
+      totalSteps: 3,
+      completedSteps: 1,
+      failedSteps: 1,
+      skippedSteps: 1,
+      totalDuration: 9000,
+      totalTokens: 200,
+      filesChanged: [{ path: 'src/index.ts', status: 'modified' }]
+    });
+    expect(summary.results[0].duration).toBe(1500);
+    expect(summary.results[1].review).toEqual({
+      attempts: 2,
+      approved: false,
+      approvalRatio: 0.5,
+      issues: ['Missing assertions']
+    });
+  });
+
+  it('should only count the latest execution of a re-run step', () => {
+    const run = makeRun();
+    run.executionLog.push(
+      event(11, 'step.started', { stepId: 2 }),
+      event(12, 'step.finished', { stepId: 2, durationMs: 700 })
+    );
+
+    const result = buildExecutionSummary(run).results[1];
+    expect(result.duration).toBe(700);
+    expect(result.review).toBeUndefined();
+  });
+
+  it('should take token and cost totals from the run usage, which includes planning', () => {
+    const run = makeRun();
+    expect(buildExecutionSummary(run)).toMatchObject({ totalTokens: 200, totalCostUsd: 0.012 });
+
+    run.usage = { calls: 4, inputTokens: 900, outputTokens: 100, costUsd: 0.05, estimatedCalls: 0 };
+    expect(buildExecutionSummary(run)).toMatchObject({ totalTokens: 1000, totalCostUsd: 0.05 });
+  });
+});
+
+describe('renderReport', () => {
+  it('should render Markdown with a step table and failures', () => {
+    const markdown = renderReport(buildExecutionSummary(makeRun()), 'markdown');
+
+    expect(markdown).toContain('# Run plan-1: failed');
+    expect(markdown).toContain('| 2 | codex | Write tests | failed | 4s | 80 | $0.0120 | rejected 50% (2 attempts) | 0 |');
+    expect(markdown).toContain('  - Missing assertions');
+    expect(markdown).toContain('- modified `src/index.ts`');
+  });
+
+  it('should render JUnit XML with failures, skips and escaped output', () => {
+    const junit = renderReport(buildExecutionSummary(makeRun()), 'junit');
+
+    expect(junit).toContain('<testsuites name="ai-collab" tests="3" failures="1" errors="0" skipped="1" time="9">');
+    expect(junit).toContain('<testcase classname="plan-1.codex" name="Step 1: Add a greeting" time="1.5">');
+    expect(junit).toContain('<system-out>done &lt;ok&gt;</system-out>');
+    expect(junit).toContain('<failure message="Failed review">Failed review\n- Missing assertions</failure>');
+    expect(junit).toContain('<skipped message="Unmet dependencies: 2"/>');
+  });
+
+  it('should round-trip the summary as JSON', () => {
+    const summary = buildExecutionSummary(makeRun());
+    expect(JSON.parse(renderReport(summary, 'json'))).toEqual(summary);
+  });
+});
@@ -0,0 +1,223 @@
+// ============================================================
+// Execution Report - Run Outcomes for Humans and CI
+// Builds an ExecutionSummary from a run's plan and event log
+// and renders it as JSON, Markdown or JUnit XML.
+// ============================================================
+
+import { ExecutionResult, ExecutionSummary, FileChange, PlanStep, RunEvent, UsageTotals } from './types';
+import { formatUsd } from './usage';
+
+export type ReportFormat = 'json' | 'markdown' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'markdown', 'junit'];
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+    json: 'json',
+    markdown: 'md',
+    junit: 'junit.xml'
+};
+
+/**
+ * The parts of a run checkpoint a report is built from.
+ */
+export interface ReportSource {
+    planId: string;
+    userRequest: string;
+    status: string;
+    plan: PlanStep[];
+    executionLog: RunEvent[];
+    usage?: UsageTotals;
+}
+
+/**
+ * Step status comes from the plan; durations, review verdicts and file
+ * changes from the event log. When a step ran more than once (resumed or
+ * replanned runs) its latest execution counts. Run totals include calls
+ * made outside steps, such as planning, when the run's usage is known.
+ */
+export function buildExecutionSummary(run: ReportSource): ExecutionSummary {
+    const events = run.executionLog;
+    const results = run.plan.map(step => buildResult(step, events));
+
+    const files = new Map<string, FileChange>();
+    for (const result of results) {
+        for (const change of result.filesChanged || []) {
+            files.set(change.path, change);
+        }
+    }
+
+    const startedAt = events[0]?.timestamp;
+    const finishedAt = events[events.length - 1]?.timestamp;
+    const failedSteps = results.filter(r => r.status === 'failed').length;
+
+    return {
+        planId: run.planId,
+        userRequest: run.userRequest,
+        status: run.status,
+        success: run.status === 'completed' && failedSteps === 0,
+        startedAt,
+        finishedAt,
+        totalSteps: results.length,
+        completedSteps: results.filter(r => r.status === 'completed').length,
+        failedSteps,
+        skippedSteps: results.filter(r => r.status === 'skipped').length,
+        totalDuration: startedAt && finishedAt ? Date.parse(finishedAt) - Date.parse(startedAt) : 0,
+        totalTokens: run.usage
+            ? run.usage.inputTokens + run.usage.outputTokens
+            : results.reduce((sum, r) => sum + (r.tokensUsed || 0), 0),
+        totalCostUsd: run.usage?.costUsd ?? results.reduce((sum, r) => sum + (r.costUsd || 0), 0),
+        filesChanged: [...files.values()].sort((a, b) => a.path.localeCompare(b.path)),
+        results
+    };
+}
+
+function buildResult(step: PlanStep, events: RunEvent[]): ExecutionResult {
+    const stepEvents = events.filter(e => e.stepId === step.id);
+    const lastStart = stepEvents.map(e => e.type).lastIndexOf('step.started');
+    const latest = lastStart === -1 ? stepEvents : stepEvents.slice(lastStart);
+
+    const finished = latest.filter(e => e.type === 'step.finished').pop();
+    const verdicts = latest.filter(e => e.type === 'review.verdict');
+    const lastVerdict = verdicts[verdicts.length - 1];
+
+    const result: ExecutionResult = {
+        success: step.status === 'completed',
+        stepId: step.id,
+        description: step.description,
+        agent: step.assignedAgent,
+        status: step.status,
+        output: step.output,
+        error: step.error,
+        duration: finished?.durationMs ?? 0,
+        tokensUsed: step.tokensUsed,
+        costUsd: step.costUsd,
+        filesChanged: latest
+            .filter(e => e.type === 'file.written' && e.payload?.path)
+            .map(e => ({ path: e.payload!.path, status: e.payload!.status }))
+    };
+
+    if (lastVerdict) {
+        result.review = {
+            attempts: verdicts.length,
+            approved: Boolean(lastVerdict.payload?.approved),
+            approvalRatio: lastVerdict.payload?.approvalRatio ?? 0,
+            issues: lastVerdict.payload?.issues || []
+        };
+    }
+    return result;
+}
+
+export function renderReport(summary: ExecutionSummary, format: ReportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(summary, null, 2) + '\n';
+        case 'markdown':
+            return toMarkdown(summary);
+        case 'junit':
+            return toJUnit(summary);
+    }
+}
+
+// ------------------------------------------------------------
+// Markdown
+// ------------------------------------------------------------
+function toMarkdown(summary: ExecutionSummary): string {
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines = [
+        `# Run ${summary.planId}: ${summary.status}`,
+        '',
+        `> ${cell(summary.userRequest)}`,
+        '',
+        '| Steps | Completed | Failed | Skipped | Duration | Tokens | Cost |',
+        '| --- | --- | --- | --- | --- | --- | --- |',
+        `| ${summary.totalSteps} | ${summary.completedSteps} | ${summary.failedSteps} | ${summary.skippedSteps} | ${seconds(summary.totalDuration)}s | ${summary.totalTokens} | ${formatUsd(summary.totalCostUsd)} |`,
+        '',
+        '## Steps',
+        '',
+        '| # | Agent | Step | Status | Duration | Tokens | Cost | Review | Files |',
+        '| --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+    ];
+
+    for (const r of summary.results) {
+        const review = r.review
+            ? `${r.review.approved ? 'approved' : 'rejected'} ${(r.review.approvalRatio * 100).toFixed(0)}% (${r.review.attempts} attempt${r.review.attempts === 1 ? '' : 's'})`
+            : '-';
+        lines.push(`| ${r.stepId} | ${r.agent || '-'} | ${cell(r.description || '')} | ${r.status} | ${seconds(r.duration)}s | ${r.tokensUsed ?? '-'} | ${r.costUsd !== undefined ? formatUsd(r.costUsd) : '-'} | ${review} | ${r.filesChanged?.length || 0} |`);
+    }
+
+    const problems = summary.results.filter(r => r.status === 'failed' || r.status === 'skipped');
+    if (problems.length > 0) {
+        lines.push('', '## Failed and Skipped Steps', '');
+        for (const r of problems) {
+            lines.push(`- **Step ${r.stepId}** (${r.status}): ${cell(r.error || 'no error recorded')}`);
+            for (const issue of r.review && !r.review.approved ? r.review.issues : []) {
+                lines.push(`  - ${cell(issue)}`);
+            }
+        }
+    }
+
+    if (summary.filesChanged.length > 0) {
+        lines.push('', '## Files Changed', '');
+        for (const change of summary.filesChanged) {
+            lines.push(`- ${change.status} \`${change.path}\``);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+// ------------------------------------------------------------
+// JUnit XML
+// ------------------------------------------------------------
+/**
+ * One test suite per run and one test case per step; skipped steps are
+ * reported as skipped, failed ones as failures.
+ */
+function toJUnit(summary: ExecutionSummary): string {
+    const cases = summary.results.map(r => {
+        const attrs = `classname="${xml(`${summary.planId}.${r.agent || 'unknown'}`)}" name="${xml(`Step ${r.stepId}: ${r.description || ''}`)}" time="${seconds(r.duration)}"`;
+        const body: string[] = [];
+
+        if (r.status === 'failed') {
+            const issues = r.review && !r.review.approved ? r.review.issues.map(i => `- ${i}`).join('\n') : '';
+            body.push(`      <failure message="${xml(r.error || 'Step failed')}">${xml([r.error, issues].filter(Boolean).join('\n'))}</failure>`);
+        } else if (r.status !== 'completed') {
+            body.push(`      <skipped message="${xml(r.error || r.status || 'Not run')}"/>`);
+        }
+        if (r.output) {
+            body.push(`      <system-out>${xml(r.output)}</system-out>`);
+        }
+
+        return body.length > 0
+            ? `    <testcase ${attrs}>\n${body.join('\n')}\n    </testcase>`
+            : `    <testcase ${attrs}/>`;
+    });
+
+    const skipped = summary.totalSteps - summary.completedSteps - summary.failedSteps;
+    const counts = `tests="${summary.totalSteps}" failures="${summary.failedSteps}" errors="0" skipped="${skipped}" time="${seconds(summary.totalDuration)}"`;
+    const timestamp = summary.startedAt ? ` timestamp="${xml(summary.startedAt)}"` : '';
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="ai-collab" ${counts}>`,
+        `  <testsuite name="${xml(summary.planId)}" ${counts}${timestamp}>`,
+        ...cases,
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+    ].join('\n');
+}
+
+function xml(text: string): string {
+    return text
+        // Control characters other than tab/newline are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3).replace(/\.?0+$/, '') || '0';
+}
@@ -3,7 +3,18 @@ import { CLIManager } from './cli-manager';
 import { OpusPlannerAgent } from './agents/opus-planner';
 import { ReviewerAgent } from './agents/reviewer-swarm';
 import { REGISTRY } from './registry';
-import { PlanResponse, PlanStep, SharedContext } from './types';
+import { ClarifyingQuestion, PlanResponse, PlanStep, SharedContext } from './types';
+import { resolveStepPolicy, stepApprovalReasons } from './step-policy';
+import { loadWorkspaceConfig } from './workspace-config';
+import { PluginHost, formatExtraContext } from './plugins';
+import { buildExecutionSummary } from './execution-report';
+import {
+    CLARIFY_INSTRUCTIONS,
+    MAX_CLARIFICATION_ROUNDS,
+    extractClarifyingQuestions,
+    formatClarifications,
+    resolveAnswers
+} from './clarification';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
@@ -243,11 +254,24 @@ async function planTaskCommand() {
                 plan: [],
                 currentStepId: 0,
                 workspaceFiles: new Map(),
-                executionLog: []
+                executionLog: [],
+                clarifications: [],
+                extraContext: []
             };
-            const plan = await planner.generatePlan(context);
+            const plugins = await loadPlugins(workspaceFolder.uri.fsPath);
+            await plugins.beforePlan(context);
+            let plan = await planner.generatePlan(context);
+            for (let round = 1; plan.questions && round <= MAX_CLARIFICATION_ROUNDS; round++) {
+                await askClarifyingQuestions(context, plan.questions);
+                progress.report({ message: 'Replanning with your answers...' });
+                plan = await planner.generatePlan(context);
+            }
+            plan.veto = await plugins.afterPlan(context, plan) || undefined;
 
-            if (plan) {
+            if (plan.veto) {
+                log(`Plan vetoed by plugin ${plan.veto}`, true);
+                vscode.window.showWarningMessage(`Plan vetoed by plugin ${plan.veto}`);
+            } else if (plan) {
                 log(`Plan created with ${plan.steps.length} steps (${(plan.confidence.overall * 100).toFixed(0)}% confidence)`);
 
                 // Show plan summary
@@ -290,6 +314,7 @@ async function executeTaskCommand() {
 
     const config = getConfig();
     const cliManager = new CLIManager(workspaceFolder.uri.fsPath);
+    const abortController = new AbortController();
 
     try {
         await vscode.window.withProgress({
@@ -297,6 +322,10 @@ async function executeTaskCommand() {
             title: 'AI Collab: Full Pipeline',
             cancellable: true
         }, async (progress, token) => {
+            // Cancelling the notification kills in-flight agent processes and HTTP calls
+            token.onCancellationRequested(() => abortController.abort());
+            const signal = abortController.signal;
+
             // Phase 1: Planning
             progress.report({ message: 'Phase 1: Planning with Opus...', increment: 0 });
             updateStatusBar('$(sync~spin) Planning...');
@@ -307,13 +336,28 @@ async function executeTaskCommand() {
                 plan: [],
                 currentStepId: 0,
                 workspaceFiles: new Map(),
-                executionLog: []
+                executionLog: [],
+                clarifications: [],
+                extraContext: []
             };
-            const plan = await planner.generatePlan(planContext);
+            const plugins = await loadPlugins(workspaceFolder.uri.fsPath);
+            await plugins.beforePlan(planContext);
+            let plan = await planner.generatePlan(planContext, signal);
+            for (let round = 1; plan.questions && round <= MAX_CLARIFICATION_ROUNDS; round++) {
+                await askClarifyingQuestions(planContext, plan.questions);
+                progress.report({ message: 'Replanning with your answers...' });
+                plan = await planner.generatePlan(planContext, signal);
+            }
 
             if (!plan) {
                 throw new Error('Failed to create plan');
             }
+            const veto = await plugins.afterPlan(planContext, plan);
+            if (veto) {
+                throw new Error(`Plan vetoed by plugin ${veto}`);
+            }
+            planContext.planResponse = plan;
+            planContext.plan = plan.steps;
 
             log(`Plan created: ${plan.steps.length} steps, ${(plan.confidence.overall * 100).toFixed(0)}% confidence`);
             progress.report({ message: `Plan: ${plan.steps.length} steps`, increment: 20 });
@@ -332,29 +376,80 @@ async function executeTaskCommand() {
             }
 
             // Phase 2: Execution
+            const workspaceConfig = await loadWorkspaceConfig(workspaceFolder.uri.fsPath);
+            const stepPolicy = resolveStepPolicy(workspaceConfig.stepApproval);
             const stepIncrement = 60 / plan.steps.length;
             for (let i = 0; i < plan.steps.length; i++) {
-                if (token.isCancellationRequested) {
-                    log('Execution cancelled');
-                    return;
+                const step = plan.steps[i];
+                if (signal.aborted) {
+                    step.status = 'skipped';
+                    step.error = 'Cancelled by user';
+                    continue;
+                }
+                const unmet = step.inputs.filter(id => plan.steps.find(s => s.id === id)?.status !== 'completed');
+                if (unmet.length > 0) {
+                    log(`Step ${i + 1} skipped: unmet dependencies ${unmet.join(', ')}`);
+                    step.status = 'skipped';
+                    step.error = `Unmet dependencies: ${unmet.join(', ')}`;
+                    continue;
                 }
 
-                const step = plan.steps[i];
                 progress.report({
                     message: `Step ${i + 1}/${plan.steps.length}: ${step.description.substring(0, 50)}...`,
                     increment: stepIncrement
                 });
                 updateStatusBar(`$(sync~spin) Step ${i + 1}/${plan.steps.length}`);
 
+                const reasons = stepApprovalReasons(step, stepPolicy, plan);
+                if (reasons.length > 0 && !config.autoConfirm) {
+                    log(`Step ${i + 1} needs approval: ${reasons.join('; ')}`);
+                    const choice = await vscode.window.showWarningMessage(
+                        `Step ${i + 1}: ${step.description}\n\n${reasons.join('\n')}`,
+                        { modal: true },
+                        'Run step',
+                        'Skip step'
+                    );
+                    if (choice !== 'Run step') {
+                        log(`Step ${i + 1} skipped by user`);
+                        step.status = 'skipped';
+                        continue;
+                    }
+                }
+
+                const stepVeto = await plugins.beforeStep(planContext, step);
+                if (stepVeto) {
+                    log(`Step ${i + 1} vetoed by plugin ${stepVeto}`);
+                    step.status = 'skipped';
+                    step.error = `Vetoed by plugin ${stepVeto}`;
+                    continue;
+                }
+
                 log(`Executing step ${i + 1}: ${step.description}`);
 
-                // Execute the step using claude code CLI
-                const result = await executeStep(cliManager, step, workspaceFolder.uri.fsPath);
-                log(`Step ${i + 1} result: ${result.substring(0, 200)}...`);
+                // Execute the step using claude code CLI; a failed step doesn't stop the
+                // pipeline, so plugins see afterStep and onComplete as on the other surfaces
+                step.status = 'in-progress';
+                try {
+                    const result = await executeStep(cliManager, step, workspaceFolder.uri.fsPath, planContext, signal);
+                    step.status = 'completed';
+                    step.output = result;
+                    log(`Step ${i + 1} result: ${result.substring(0, 200)}...`);
+                } catch (error: any) {
+                    if (signal.aborted) {
+                        step.status = 'skipped';
+                        step.error = 'Cancelled by user';
+                    } else {
+                        step.status = 'failed';
+                        step.error = String(error);
+                        log(`Step ${i + 1} failed: ${error.message}`, true);
+                    }
+                } finally {
+                    await plugins.afterStep(planContext, step);
+                }
             }
 
             // Phase 3: Review (if swarm is configured)
-            if (config.hfToken) {
+            if (config.hfToken && !signal.aborted) {
                 progress.report({ message: 'Phase 3: Swarm Review...', increment: 10 });
                 updateStatusBar('$(sync~spin) Reviewing...');
 
@@ -369,16 +464,43 @@ async function executeTaskCommand() {
                     const targetPath = path.join(workspaceFolder.uri.fsPath, lastStep.target);
                     if (await fs.pathExists(targetPath)) {
                         const content = await fs.readFile(targetPath, 'utf-8');
-                        const approved = await reviewer.reviewStep(lastStep, content);
-                        log(`Swarm review: ${approved ? 'APPROVED' : 'NEEDS IMPROVEMENT'}`);
+                        const review = await reviewer.reviewStepDetailed(lastStep, content, signal);
+                        const reviewVeto = await plugins.onReview(planContext, lastStep, review);
+                        if (reviewVeto) {
+                            review.approved = false;
+                            review.issues.push(`Vetoed by plugin ${reviewVeto}`);
+                        }
+                        log(`Swarm review: ${review.approved ? 'APPROVED' : 'NEEDS IMPROVEMENT'}`);
                     }
                 }
             }
 
+            const summary = buildExecutionSummary({
+                planId: plan.planId,
+                userRequest: taskDescription,
+                status: signal.aborted ? 'cancelled' : plan.steps.every(s => s.status === 'completed') ? 'completed' : 'failed',
+                plan: plan.steps,
+                executionLog: planContext.executionLog
+            });
+            await plugins.onComplete(planContext, summary);
+
+            if (signal.aborted) {
+                log('Execution cancelled');
+                return;
+            }
             progress.report({ message: 'Complete!', increment: 10 });
-            vscode.window.showInformationMessage(`AI Collab: Completed ${plan.steps.length} steps successfully!`);
+            if (summary.success) {
+                vscode.window.showInformationMessage(`AI Collab: Completed ${plan.steps.length} steps successfully!`);
+            } else {
+                const failed = plan.steps.filter(s => s.status !== 'completed').length;
+                vscode.window.showWarningMessage(`AI Collab: ${failed} of ${plan.steps.length} steps did not complete - check output for details`);
+            }
         });
     } catch (error: any) {
+        if (abortController.signal.aborted) {
+            log('Execution cancelled');
+            return;
+        }
         log(`Error: ${error.message}`, true);
         vscode.window.showErrorMessage(`Execution failed: ${error.message}`);
     } finally {
@@ -546,32 +668,110 @@ async function configureCommand() {
 // ============================================================
 // Helper: Execute a plan step
 // ============================================================
-async function executeStep(_cliManager: CLIManager, step: PlanStep, workspacePath: string): Promise<string> {
+async function executeStep(
+    _cliManager: CLIManager,
+    step: PlanStep,
+    workspacePath: string,
+    context: SharedContext,
+    signal?: AbortSignal
+): Promise<string> {
     const execaModule = await import('execa');
     const execa = execaModule.default;
 
-    const prompt = `Execute this task in the codebase at ${workspacePath}:
+    const buildPrompt = () => `Execute this task in the codebase at ${workspacePath}:
 ${step.description}
 Target file: ${step.target}
+${formatExtraContext(context)}${formatClarifications(context.clarifications)}
+${CLARIFY_INSTRUCTIONS}
 
 Complete the task and report what you did.`;
 
     try {
-        const result = await execa('claude', [
-            '--dangerously-skip-permissions',
-            '-p', prompt
-        ], {
-            cwd: workspacePath,
-            timeout: 120000
-        });
+        for (let round = 0; ; round++) {
+            const subprocess = execa('claude', [
+                '--dangerously-skip-permissions',
+                '-p', buildPrompt()
+            ], {
+                cwd: workspacePath,
+                timeout: 120000
+            });
+            const cancel = () => subprocess.cancel();
+            signal?.addEventListener('abort', cancel, { once: true });
+            // Stream the agent's output into the channel as it arrives
+            let lastChar = '';
+            subprocess.stdout?.on('data', (data: Buffer) => {
+                const chunk = data.toString();
+                if (chunk) {
+                    lastChar = chunk[chunk.length - 1];
+                    outputChannel.append(chunk);
+                }
+            });
 
-        return result.stdout;
+            let result;
+            try {
+                result = await subprocess;
+            } finally {
+                signal?.removeEventListener('abort', cancel);
+            }
+            if (lastChar && lastChar !== '\n') {
+                outputChannel.appendLine('');
+            }
+            const questions = round < MAX_CLARIFICATION_ROUNDS
+                ? extractClarifyingQuestions(result.stdout, { askedBy: 'claude', stepId: step.id, prior: context.clarifications })
+                : [];
+            if (questions.length === 0) {
+                return result.stdout;
+            }
+            await askClarifyingQuestions(context, questions);
+        }
     } catch (error: any) {
         log(`Step execution error: ${error.message}`);
         throw error;
     }
 }
 
+// ============================================================
+// Helper: Load the workspace's plugins
+// ============================================================
+async function loadPlugins(workspacePath: string): Promise<PluginHost> {
+    const host = PluginHost.load(workspacePath, (await loadWorkspaceConfig(workspacePath)).plugins);
+    if (host.names.length > 0) {
+        log(`Plugins: ${host.names.join(', ')}`);
+    }
+    return host;
+}
+
+// ============================================================
+// Helper: Ask an agent's clarifying questions
+// ============================================================
+async function askClarifyingQuestions(context: SharedContext, questions: ClarifyingQuestion[]) {
+    const answers: Record<string, string> = {};
+    const OWN_ANSWER = 'Type an answer...';
+
+    for (const q of questions) {
+        const title = `${q.askedBy}${q.stepId !== undefined ? ` (step ${q.stepId})` : ''}: ${q.question}`;
+        let answer: string | undefined;
+        if (q.options) {
+            answer = await vscode.window.showQuickPick([...q.options, OWN_ANSWER], {
+                placeHolder: title,
+                ignoreFocusOut: true
+            });
+        }
+        if (!q.options || answer === OWN_ANSWER) {
+            answer = await vscode.window.showInputBox({
+                prompt: title,
+                placeHolder: 'Leave empty to let the agent decide',
+                ignoreFocusOut: true
+            });
+        }
+        answers[q.id] = answer || '';
+    }
+
+    const clarifications = resolveAnswers(questions, answers);
+    context.clarifications.push(...clarifications);
+    clarifications.forEach(c => log(`Clarification: ${c.question} -> ${c.answer}`));
+}
+
 // ============================================================
 // Helper: Show plan summary
 // ============================================================
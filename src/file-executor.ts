@@ -5,6 +5,7 @@
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { JsonSchema, jsonObjects, validateSchema } from './structured-output';
 
 export interface FileOperation {
     type: 'create' | 'edit' | 'delete' | 'append';
@@ -21,6 +22,21 @@ export interface ExecutionResult {
     filesModified: string[];
 }
 
+/**
+ * Shape of an explicit {"operation": ..., "path": ...} block in a response.
+ */
+const FILE_OPERATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['operation', 'path'],
+    properties: {
+        operation: { type: 'string', enum: ['create', 'edit', 'delete', 'append'] },
+        path: { type: 'string', minLength: 1 },
+        content: { type: 'string' },
+        oldContent: { type: 'string' },
+        newContent: { type: 'string' }
+    }
+};
+
 export class FileExecutor {
     constructor(private workspaceDir: string) {}
 
@@ -36,7 +52,11 @@ export class FileExecutor {
         };
 
         // Try multiple extraction strategies
-        const operations = this.extractOperations(response, targetPath);
+        const { operations, invalid } = this.extractOperations(response, targetPath);
+        if (invalid.length > 0) {
+            result.errors.push(...invalid);
+            result.success = false;
+        }
 
         for (const op of operations) {
             try {
@@ -53,10 +73,12 @@ export class FileExecutor {
     }
 
     /**
-     * Extract file operations from response text
+     * Extract file operations from response text. JSON operation blocks
+     * that don't match FILE_OPERATION_SCHEMA are returned as `invalid`.
      */
-    private extractOperations(response: string, targetPath?: string): FileOperation[] {
+    private extractOperations(response: string, targetPath?: string): { operations: FileOperation[]; invalid: string[] } {
         const operations: FileOperation[] = [];
+        const invalid: string[] = [];
 
         // Strategy 1: Look for code blocks with file paths
         const codeBlockPattern = /```(?:typescript|javascript|ts|js|json)?\s*\n([\s\S]*?)```/g;
@@ -86,22 +108,19 @@ export class FileExecutor {
         }
 
         // Strategy 3: Look for explicit JSON operation blocks
-        const jsonOpPattern = /\{[\s\S]*?"operation"[\s\S]*?"path"[\s\S]*?\}/g;
-        while ((match = jsonOpPattern.exec(response)) !== null) {
-            try {
-                const op = JSON.parse(match[0]);
-                if (op.operation && op.path) {
-                    operations.push({
-                        type: op.operation,
-                        path: this.resolvePath(op.path),
-                        content: op.content,
-                        oldContent: op.oldContent,
-                        newContent: op.newContent
-                    });
-                }
-            } catch {
-                // Not valid JSON, skip
+        for (const op of jsonObjects(response).filter(obj => 'operation' in obj)) {
+            const errors = validateSchema(op, FILE_OPERATION_SCHEMA);
+            if (errors.length > 0) {
+                invalid.push(`Invalid file operation: ${errors.join('; ')}`);
+                continue;
             }
+            operations.push({
+                type: op.operation as FileOperation['type'],
+                path: this.resolvePath(op.path as string),
+                content: op.content as string | undefined,
+                oldContent: op.oldContent as string | undefined,
+                newContent: op.newContent as string | undefined
+            });
         }
 
         // Strategy 4: Look for function definitions if target is specified
@@ -126,7 +145,7 @@ export class FileExecutor {
             }
         }
 
-        return operations;
+        return { operations, invalid };
     }
 
     /**
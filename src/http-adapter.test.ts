@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { sendHttpPrompt } from './http-adapter';
+import { ModelConfig } from './cli-manager';
+import { classifyError } from './resilience';
+
+interface Captured {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let last: Captured;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+      last = { url: req.url, headers: req.headers, body: JSON.parse(raw) };
+      if (last.body.model === 'busy') {
+        res.writeHead(429).end('{"error":{"message":"slow down"}}');
+      } else if (req.url === '/v1/messages') {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('event: message_start\ndata: {"type":"message_start","message":{"model":"claude-sonnet-4-5","usage":{"input_tokens":12,"cache_read_input_tokens":30,"output_tokens":1}}}\n\n');
+        res.write('event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hel"}}\n\n');
+        res.write('event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"lo"}}\n\n');
+        res.end('event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":5}}\n\n');
+      } else {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({
+          choices: [{ message: { role: 'assistant', content: 'Hi there' } }],
+          usage: { prompt_tokens: 9, completion_tokens: 3 }
+        }));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+function makeConfig(http: Partial<NonNullable<ModelConfig['http']>>): ModelConfig {
+  return {
+    name: 'local',
+    command: '',
+    args: [],
+    interactionMode: 'http',
+    http: { api: 'openai', model: 'llama', baseUrl, ...http }
+  };
+}
+
+describe('sendHttpPrompt', () => {
+  it('calls OpenAI-compatible chat completions with the configured key and settings', async () => {
+    const config = makeConfig({ apiKeyEnv: 'LOCAL_KEY', temperature: 0.2, maxTokens: 100 });
+    const reply = await sendHttpPrompt(config, 'Say hi', {}, { LOCAL_KEY: 'secret' });
+
+    expect(reply).toEqual({ text: 'Hi there', usage: expect.objectContaining({ model: 'llama', inputTokens: 9, outputTokens: 3 }) });
+    expect(last.url).toBe('/v1/chat/completions');
+    expect(last.headers.authorization).toBe('Bearer secret');
+    expect(last.body).toMatchObject({ model: 'llama', temperature: 0.2, max_tokens: 100, stream: false });
+    expect(last.body.messages).toEqual([{ role: 'user', content: 'Say hi' }]);
+  });
+
+  it('streams Anthropic-style message deltas through onChunk', async () => {
+    const chunks: string[] = [];
+    const reply = await sendHttpPrompt(makeConfig({ api: 'anthropic' }), 'Say hello', {
+      onChunk: chunk => chunks.push(chunk)
+    }, {});
+
+    expect(reply.text).toBe('Hello');
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(reply.usage).toMatchObject({ model: 'claude-sonnet-4-5', inputTokens: 42, cacheReadTokens: 30, outputTokens: 5 });
+    expect(last.headers['anthropic-version']).toBeDefined();
+    expect(last.headers['x-api-key']).toBeUndefined();
+  });
+
+  it('surfaces the HTTP status so rate limits are retried', async () => {
+    const error = await sendHttpPrompt(makeConfig({ model: 'busy' }), 'hi', {}, {}).catch(e => e);
+
+    expect(error.message).toContain('HTTP 429');
+    expect(classifyError(error)).toBe('rate-limit');
+  });
+});
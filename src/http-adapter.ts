@@ -0,0 +1,257 @@
+// ============================================================
+// HTTP Adapter - Chat Endpoints Without a CLI
+// Agents in "http" mode send prompts straight to an Anthropic-style
+// Messages API or an OpenAI-compatible chat completions API, which
+// also covers local servers and proxies.
+// ============================================================
+
+import type { ModelConfig, SendPromptOptions } from './cli-manager';
+import type { AgentReply, UsageReport } from './usage';
+
+export interface HttpOptions {
+    api: 'anthropic' | 'openai';
+    model: string;
+    /**
+     * Defaults to the provider's public API. Point it at a local server
+     * or proxy, e.g. "http://localhost:11434/v1".
+     */
+    baseUrl?: string;
+    /**
+     * Environment variable holding the API key. Defaults to
+     * ANTHROPIC_API_KEY / OPENAI_API_KEY for the public APIs; custom
+     * base URLs send no key unless this is set.
+     */
+    apiKeyEnv?: string;
+    temperature?: number;
+    maxTokens?: number;                 // Default 4096
+}
+
+const DEFAULT_BASE_URLS = {
+    anthropic: 'https://api.anthropic.com/v1',
+    openai: 'https://api.openai.com/v1'
+};
+
+const DEFAULT_KEY_ENVS = {
+    anthropic: 'ANTHROPIC_API_KEY',
+    openai: 'OPENAI_API_KEY'
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * The environment variable the agent's key is read from, or null if the
+ * endpoint takes no key.
+ */
+export function apiKeyEnv(http: HttpOptions): string | null {
+    return http.apiKeyEnv || (http.baseUrl ? null : DEFAULT_KEY_ENVS[http.api]);
+}
+
+/**
+ * Short description of where an http agent sends its prompts.
+ */
+export function httpEndpoint(http: HttpOptions): string {
+    return `${http.api} ${http.baseUrl || DEFAULT_BASE_URLS[http.api]} (${http.model})`;
+}
+
+/**
+ * Sends one prompt and returns the reply text with the usage the API
+ * reported. With onChunk the reply is streamed; otherwise it is fetched
+ * in one response.
+ */
+export async function sendHttpPrompt(
+    config: ModelConfig,
+    prompt: string,
+    options: SendPromptOptions = {},
+    env: NodeJS.ProcessEnv = process.env
+): Promise<AgentReply> {
+    const http = config.http;
+    if (!http) {
+        throw new Error(`Agent ${config.name} uses http mode but has no http block`);
+    }
+
+    const keyEnv = apiKeyEnv(http);
+    const apiKey = keyEnv ? env[keyEnv] : undefined;
+    if (keyEnv && !apiKey) {
+        throw new Error(`Agent ${config.name} needs an API key in ${keyEnv}`);
+    }
+
+    const stream = !!options.onChunk;
+    const request = buildRequest(http, prompt, stream, apiKey);
+
+    // Cancellation and the agent's timeout share one controller
+    const timeoutMs = config.timeoutMs || 120000;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        const response = await fetch(request.url, {
+            method: 'POST',
+            headers: request.headers,
+            body: JSON.stringify(request.body),
+            signal: controller.signal
+        });
+        if (!response.ok) {
+            const detail = (await response.text()).slice(0, 500);
+            const error = new Error(`${config.name} HTTP ${response.status}: ${detail}`);
+            (error as { status?: number }).status = response.status;
+            throw error;
+        }
+
+        if (!stream || !response.body) {
+            const json = await response.json();
+            return { text: replyText(http, json), usage: replyUsage(http, json) };
+        }
+        let text = '';
+        let usage: UsageReport | undefined;
+        await readEvents(response.body, data => {
+            const delta = streamDelta(http, data);
+            if (delta) {
+                text += delta;
+                options.onChunk!(delta);
+            }
+            usage = streamUsage(http, data, usage);
+        });
+        return { text, usage };
+    } catch (error) {
+        if (timedOut) {
+            throw new Error(`${config.name} timed out after ${timeoutMs / 1000}s`);
+        }
+        if (options.signal?.aborted) {
+            throw new Error(`${config.name} cancelled`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+// ------------------------------------------------------------
+// Provider Formats
+// ------------------------------------------------------------
+function buildRequest(http: HttpOptions, prompt: string, stream: boolean, apiKey?: string) {
+    const baseUrl = (http.baseUrl || DEFAULT_BASE_URLS[http.api]).replace(/\/+$/, '');
+    const body: Record<string, unknown> = {
+        model: http.model,
+        max_tokens: http.maxTokens ?? 4096,
+        messages: [{ role: 'user', content: prompt }],
+        stream
+    };
+    if (stream && http.api === 'openai') {
+        // The usage arrives in a last chunk without choices
+        body.stream_options = { include_usage: true };
+    }
+    if (http.temperature !== undefined) {
+        body.temperature = http.temperature;
+    }
+
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (http.api === 'anthropic') {
+        headers['anthropic-version'] = ANTHROPIC_VERSION;
+        if (apiKey) headers['x-api-key'] = apiKey;
+        return { url: `${baseUrl}/messages`, headers, body };
+    }
+    if (apiKey) headers['authorization'] = `Bearer ${apiKey}`;
+    return { url: `${baseUrl}/chat/completions`, headers, body };
+}
+
+function replyText(http: HttpOptions, json: any): string {
+    if (http.api === 'anthropic') {
+        return (json?.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+    }
+    return json?.choices?.[0]?.message?.content || '';
+}
+
+function replyUsage(http: HttpOptions, json: any): UsageReport | undefined {
+    const usage = json?.usage;
+    if (!usage) {
+        return undefined;
+    }
+    const model = json.model || http.model;
+    if (http.api === 'anthropic') {
+        const cacheRead = usage.cache_read_input_tokens || 0;
+        const cacheWrite = usage.cache_creation_input_tokens || 0;
+        return {
+            model,
+            inputTokens: (usage.input_tokens || 0) + cacheRead + cacheWrite,
+            outputTokens: usage.output_tokens || 0,
+            cacheReadTokens: cacheRead,
+            cacheWriteTokens: cacheWrite
+        };
+    }
+    return {
+        model,
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        cacheReadTokens: usage.prompt_tokens_details?.cached_tokens
+    };
+}
+
+/**
+ * Anthropic streams report input tokens in message_start and the running
+ * output count in message_delta; OpenAI streams send it all at the end.
+ */
+function streamUsage(http: HttpOptions, data: any, usage: UsageReport | undefined): UsageReport | undefined {
+    if (http.api === 'openai') {
+        return replyUsage(http, data) || usage;
+    }
+    if (data?.type === 'message_start') {
+        return replyUsage(http, data.message);
+    }
+    if (data?.type === 'message_delta' && usage && data.usage?.output_tokens !== undefined) {
+        return { ...usage, outputTokens: data.usage.output_tokens };
+    }
+    return usage;
+}
+
+function streamDelta(http: HttpOptions, data: any): string {
+    if (data?.type === 'error' || data?.error) {
+        throw new Error(`Stream error: ${data.error?.message || data.error?.type || 'unknown'}`);
+    }
+    if (http.api === 'anthropic') {
+        return data?.type === 'content_block_delta' && data.delta?.type === 'text_delta' ? data.delta.text : '';
+    }
+    return data?.choices?.[0]?.delta?.content || '';
+}
+
+/**
+ * Reads a server-sent event stream and passes each event's JSON data on.
+ */
+async function readEvents(body: ReadableStream<Uint8Array>, onData: (data: any) => void) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flush = (event: string) => {
+        const data = event.split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+        if (data && data !== '[DONE]') {
+            onData(JSON.parse(data));
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+            flush(buffer.slice(0, end));
+            buffer = buffer.slice(end + 2);
+        }
+    }
+    flush(buffer);
+}
@@ -1,9 +1,49 @@
 import { Orchestrator } from './orchestrator';
+import { BatchRunner, loadBatchTasks, writeBatchReport } from './batch-runner';
 import * as path from 'path';
 
+function argValue(flag: string): string | undefined {
+    const idx = process.argv.indexOf(flag);
+    return idx !== -1 ? process.argv[idx + 1] : undefined;
+}
+
+async function runBatch(source: string) {
+    const tasks = await loadBatchTasks(source);
+    const runner = new BatchRunner({ parallel: parseInt(argValue('--parallel') || '1', 10) || 1 });
+    const report = await runner.run(tasks);
+
+    const reportFile = path.resolve(
+        argValue('--report') || path.join('.ai-collab', 'batch', `report-${report.startedAt.replace(/[:.]/g, '-')}.json`)
+    );
+    await writeBatchReport(report, reportFile);
+
+    console.log("=== Batch Complete ===");
+    for (const task of report.tasks) {
+        console.log(`  ${task.id}: ${task.status} (${task.completedSteps}/${task.totalSteps} steps)${task.error ? ` - ${task.error}` : ''}`);
+    }
+    console.log(`Report: ${reportFile}`);
+
+    if (report.tasks.some(t => t.status !== 'completed')) {
+        process.exitCode = 1;
+    }
+}
+
 async function main() {
+    const batchSource = argValue('--batch');
+    if (batchSource) {
+        return runBatch(batchSource);
+    }
+
     const workspaceDir = path.resolve(__dirname, '../../'); // Root of deep-telescope
-    const orchestrator = new Orchestrator(workspaceDir);
+    // Runs unattended: approvals no frontend client is there to give are granted
+    const orchestrator = new Orchestrator(workspaceDir, {
+        approveHeadless: request => {
+            const what = request.kind === 'step' ? `step ${request.step.id}` : 'plan';
+            const reasons = request.kind === 'step' ? request.reasons.join('; ') : request.reason;
+            console.log(`[Main] Auto-approving ${what} (${reasons})`);
+            return true;
+        }
+    });
 
     let userRequest = "Create a simple snake game with HTML, CSS, and JS.";
     try {
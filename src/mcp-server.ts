@@ -8,6 +8,7 @@
  * - search_code: Semantic code search with Qdrant
  * - plan_task: Generate execution plans with Opus
  * - full_pipeline: Complete planning + review workflow
+ * - list_runs / resume_run: Inspect and resume checkpointed orchestrator runs
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -22,6 +23,15 @@ import { OpenAI } from 'openai';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { Orchestrator, HeadlessApprovalRequest } from './orchestrator';
+import { RunStore } from './run-store';
+import { createChatCompletion } from './cassette';
+import { badOutput, withResilience } from './resilience';
+import { requestStructured } from './structured-output';
+import { VOTE_SCHEMA, VoteReply } from './agents/reviewer-swarm';
+import { PLAN_SCHEMA, STEP_ACTIONS, SimplifiedPlanResponse, checkPlan } from './agents/opus-planner';
+import { MAX_CLARIFICATION_ROUNDS, formatClarifications, parseQuestions, resolveAnswers } from './clarification';
+import { Clarification, ClarifyingQuestion } from './types';
 
 // ============================================================
 // CRT Visualizer (outputs to stderr so it doesn't interfere with MCP)
@@ -58,7 +68,7 @@ interface VisualState {
         color: string;
         phase: 'idle' | 'generate' | 'correct' | 'vote' | 'done';
         thought: string;
-        vote?: 'APPROVE' | 'REJECT';
+        vote?: 'APPROVE' | 'REJECT' | 'ABSTAIN';
         confidence?: number;
     }>;
     frameCount: number;
@@ -109,7 +119,7 @@ class SwarmVisualizerLive {
         }
     }
 
-    setAgentVote(id: number, vote: 'APPROVE' | 'REJECT', confidence: number) {
+    setAgentVote(id: number, vote: 'APPROVE' | 'REJECT' | 'ABSTAIN', confidence: number) {
         if (this.state.agents[id]) {
             this.state.agents[id].phase = 'done';
             this.state.agents[id].vote = vote;
@@ -160,6 +170,9 @@ class SwarmVisualizerLive {
                     if (agent.vote === 'APPROVE') {
                         statusIcon = `${BRIGHT_GREEN}${CHECK}${RESET}`;
                         statusText = `${BRIGHT_GREEN}APPROVE${RESET} ${GRAY}${agent.confidence}%${RESET}`;
+                    } else if (agent.vote === 'ABSTAIN') {
+                        statusIcon = `${GRAY}○${RESET}`;
+                        statusText = `${GRAY}ABSTAIN (error)${RESET}`;
                     } else {
                         statusIcon = `${RED}${CROSS}${RESET}`;
                         statusText = `${RED}REJECT${RESET} ${GRAY}${agent.confidence}%${RESET}`;
@@ -239,7 +252,7 @@ const DEFAULT_SWARM_CONFIG: SwarmConfig = {
 interface AgentResult {
     agentId: number;
     model: string;
-    vote: "APPROVE" | "REJECT";
+    vote: "APPROVE" | "REJECT" | "ABSTAIN";
     confidence: number;
     issues: string[];
     reasoning: string;
@@ -373,6 +386,28 @@ class AICollabServer {
                         required: ['task'],
                     },
                 },
+                {
+                    name: 'list_runs',
+                    description: 'List checkpointed orchestrator runs in the workspace, most recent first.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {},
+                    },
+                },
+                {
+                    name: 'resume_run',
+                    description: 'Resume an interrupted orchestrator run. Completed steps are kept; failed, in-progress and skipped steps are executed again.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            planId: {
+                                type: 'string',
+                                description: 'The planId of the run to resume (see list_runs)',
+                            },
+                        },
+                        required: ['planId'],
+                    },
+                },
                 {
                     name: 'full_pipeline',
                     description: 'Run the complete AI collaboration pipeline: Plan → Execute → Review. Best for complex tasks that need full orchestration.',
@@ -427,6 +462,10 @@ class AICollabServer {
                         return await this.handlePlanTask(args as any);
                     case 'full_pipeline':
                         return await this.handleFullPipeline(args as any);
+                    case 'list_runs':
+                        return await this.handleListRuns();
+                    case 'resume_run':
+                        return await this.handleResumeRun(args as any);
                     default:
                         throw new Error(`Unknown tool: ${name}`);
                 }
@@ -527,7 +566,7 @@ ISSUES: [list problems or "None"]
 QUALITY: [1-10]
 NOTES: [observations]`;
 
-            const generateResp = await this.hfClient.chat.completions.create({
+            const generateResp = await this.complete({
                 model,
                 messages: [{ role: 'user', content: generatePrompt }],
                 max_tokens: 300,
@@ -551,7 +590,7 @@ CORRECTIONS: [changes or "None needed"]
 FINAL_ISSUES: [updated list]
 FINAL_QUALITY: [1-10]`;
 
-            const correctResp = await this.hfClient.chat.completions.create({
+            const correctResp = await this.complete({
                 model,
                 messages: [{ role: 'user', content: correctPrompt }],
                 max_tokens: 300,
@@ -568,19 +607,19 @@ ${corrected}
 
 Task: ${task}
 
-VOTE: APPROVE or REJECT
-CONFIDENCE: [0-100]%
-REASON: [one sentence]`;
+Respond with ONLY a JSON object (no markdown, no extra text):
+{"vote":"APPROVE","confidence":85,"reason":"one sentence explanation"}
+"vote" is APPROVE or REJECT; "confidence" is 0-100.`;
 
-            const voteResp = await this.hfClient.chat.completions.create({
-                model,
-                messages: [{ role: 'user', content: votePrompt }],
-                max_tokens: 100,
-                temperature: 0.0,
-            });
-
-            const voteContent = voteResp.choices[0]?.message?.content || 'APPROVE';
-            const parsed = this.parseVote(voteContent);
+            const parsed = await requestStructured<VoteReply>(async prompt => {
+                const voteResp = await this.complete({
+                    model,
+                    messages: [{ role: 'user', content: prompt }],
+                    max_tokens: 100,
+                    temperature: 0.0,
+                });
+                return voteResp.choices[0]?.message?.content || '';
+            }, votePrompt, { schema: VOTE_SCHEMA, label: `Agent #${agentId} vote` });
 
             // Update visualizer with final result
             visualizer.setAgentVote(agentId, parsed.vote, parsed.confidence);
@@ -597,32 +636,38 @@ REASON: [one sentence]`;
                 vote: parsed.vote,
                 confidence: parsed.confidence,
                 issues,
-                reasoning: parsed.reasoning,
+                reasoning: parsed.reason,
             };
 
         } catch (error: any) {
-            visualizer.setAgentVote(agentId, 'APPROVE', 30);
+            // A failed agent abstains rather than voting either way
+            visualizer.setAgentVote(agentId, 'ABSTAIN', 0);
             return {
                 agentId,
                 model: shortModel,
-                vote: 'APPROVE',
-                confidence: 30,
+                vote: 'ABSTAIN',
+                confidence: 0,
                 issues: [],
                 reasoning: `API error: ${error.message?.substring(0, 50)}`,
             };
         }
     }
 
-    private parseVote(content: string): { vote: "APPROVE" | "REJECT"; confidence: number; reasoning: string } {
-        const vote = content.toUpperCase().includes('REJECT') ? 'REJECT' : 'APPROVE';
-        const confMatch = content.match(/(\d+)/);
-        const confidence = confMatch ? Math.min(100, parseInt(confMatch[1])) : 50;
-        const reasonMatch = content.match(/REASON:\s*(.+)/i);
-        const reasoning = reasonMatch ? reasonMatch[1].trim() : 'No reason provided';
-        return { vote, confidence, reasoning };
+    // One chat completion, retried on transient errors and empty replies
+    private complete(params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming) {
+        return withResilience(`model:${params.model}`, async () => {
+            const response = await createChatCompletion(this.hfClient, params);
+            if (!response.choices[0]?.message?.content?.trim()) {
+                throw badOutput(`${params.model} returned an empty completion`);
+            }
+            return response;
+        });
     }
 
     private calculateConsensus(results: AgentResult[]): { approved: boolean; score: number; summary: string } {
+        if (results.every(r => r.vote === 'ABSTAIN')) {
+            throw new Error(`Swarm review failed: all ${results.length} agents errored`);
+        }
         const approvals = results.filter(r => r.vote === 'APPROVE');
         const approvalWeight = approvals.reduce((sum, r) => sum + r.confidence, 0);
         const totalWeight = results.reduce((sum, r) => sum + r.confidence, 0);
@@ -802,34 +847,44 @@ REASON: [one sentence]`;
 
         // Get project info
         const projectInfo = await this.getProjectInfo();
+        const clarifications: Clarification[] = [];
 
-        const prompt = `You are a senior developer. Create a plan for this task.
+        const prompt = () => `You are a senior developer. Create a plan for this task.
 
 Project: ${projectInfo.name} (${projectInfo.type})
 ${context ? `Context: ${context}` : ''}
 
 TASK: ${task}
-
-Respond with JSON only:
-{"understanding":"brief summary","steps":[{"id":1,"action":"what to do","target":"file.ts"}],"risks":["potential risk"]}`;
+${formatClarifications(clarifications)}
+Respond with ONLY a JSON object (no markdown, no extra text):
+{"understanding":"brief summary","steps":[{"id":1,"agent":"codex","type":"edit","action":"what to do","target":"file.ts"}],"confidence":0.8,"risks":["potential risk"]}
+"type" is one of: ${STEP_ACTIONS.join(', ')}; "confidence" is 0-1.
+If the task is ambiguous in a way that changes the plan, also add "questions":[{"question":"...","options":["..."]}] (at most 3); the answers will be sent back to you.`;
 
         try {
-            const response = await this.hfClient.chat.completions.create({
-                model: SWARM_MODELS[0],
-                messages: [{ role: 'user', content: prompt }],
-                max_tokens: 500,
-                temperature: 0.3,
-            });
-
-            const content = response.choices[0]?.message?.content || '{}';
+            // The planner's questions go to the client, and it plans again with the answers
+            let plan: SimplifiedPlanResponse;
+            let questions: ClarifyingQuestion[];
+            for (let round = 0; ; round++) {
+                plan = await requestStructured<SimplifiedPlanResponse>(async text => {
+                    const response = await this.complete({
+                        model: SWARM_MODELS[0],
+                        messages: [{ role: 'user', content: text }],
+                        max_tokens: 500,
+                        temperature: 0.3,
+                    });
+                    return response.choices[0]?.message?.content || '';
+                }, prompt(), { schema: PLAN_SCHEMA, check: checkPlan, label: 'Plan' });
 
-            // Try to parse JSON
-            let plan: any;
-            try {
-                const jsonMatch = content.match(/\{[\s\S]*\}/);
-                plan = jsonMatch ? JSON.parse(jsonMatch[0]) : { understanding: content, steps: [], risks: [] };
-            } catch {
-                plan = { understanding: content, steps: [], risks: [] };
+                questions = parseQuestions(plan.questions, { askedBy: 'planner', prior: clarifications });
+                if (questions.length === 0 || round >= MAX_CLARIFICATION_ROUNDS) {
+                    break;
+                }
+                const answers = await this.elicitAnswers(questions);
+                if (!questions.some(q => answers[q.id]?.trim())) {
+                    break;
+                }
+                clarifications.push(...resolveAnswers(questions, answers));
             }
 
             return {
@@ -838,10 +893,13 @@ Respond with JSON only:
                     text: JSON.stringify({
                         task,
                         plan: {
-                            understanding: plan.understanding || 'Unable to parse plan',
-                            steps: plan.steps || [],
+                            understanding: plan.understanding,
+                            steps: plan.steps,
                             risks: plan.risks || [],
                         },
+                        clarifications,
+                        // Still open when the client couldn't or didn't answer
+                        questions,
                     }, null, 2),
                 }],
             };
@@ -851,6 +909,7 @@ Respond with JSON only:
                     type: 'text',
                     text: `Planning failed: ${error.message}. Try providing more context.`,
                 }],
+                isError: true,
             };
         }
     }
@@ -887,7 +946,15 @@ Respond with JSON only:
         // Step 1: Plan
         steps.push('Planning task...');
         const planResult = await this.handlePlanTask({ task });
-        steps.push(`Plan created: ${JSON.parse((planResult.content[0] as any).text).plan.understanding}`);
+        if (planResult.isError) {
+            return planResult;
+        }
+        // handlePlanTask has already asked the client the planner's questions
+        const planned = JSON.parse((planResult.content[0] as any).text);
+        if (planned.clarifications.length > 0) {
+            steps.push(`Replanned with ${planned.clarifications.length} clarification(s) from the user`);
+        }
+        steps.push(`Plan created: ${planned.plan.understanding}`);
 
         // Step 2: Review the plan
         steps.push('Reviewing plan with swarm...');
@@ -906,17 +973,127 @@ Respond with JSON only:
                 text: JSON.stringify({
                     task,
                     pipeline: steps,
-                    plan: JSON.parse((planResult.content[0] as any).text),
+                    plan: planned,
                     review: reviewData,
                 }, null, 2),
             }],
         };
     }
 
+    // ============================================================
+    // Tools: list_runs / resume_run (Checkpointed Orchestrator Runs)
+    // ============================================================
+    private async handleListRuns() {
+        const runs = await new RunStore(this.workspaceDir).list();
+
+        return {
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ runs }, null, 2),
+            }],
+        };
+    }
+
+    private async handleResumeRun(args: { planId: string }) {
+        const { planId } = args;
+
+        // Without elicitation a gated step can't be approved, and the run is cancelled
+        const canAsk = !!this.server.getClientCapabilities()?.elicitation;
+        const orchestrator = new Orchestrator(this.workspaceDir, {
+            serve: false,
+            approveHeadless: canAsk ? request => this.elicitApproval(request) : undefined,
+            answerHeadless: request => this.elicitAnswers(request.questions)
+        });
+        try {
+            await orchestrator.resumeRun(planId);
+        } finally {
+            orchestrator.shutdown();
+        }
+
+        const run = await new RunStore(this.workspaceDir).load(planId);
+
+        return {
+            content: [{
+                type: 'text',
+                text: JSON.stringify({
+                    planId,
+                    status: run?.status,
+                    steps: run?.plan.map(s => ({
+                        id: s.id,
+                        description: s.description,
+                        status: s.status,
+                        error: s.error,
+                    })),
+                }, null, 2),
+            }],
+        };
+    }
+
+    /**
+     * Asks the MCP client to approve a plan revision or a gated step of a
+     * resumed run. Declining or cancelling the elicitation rejects it.
+     */
+    private async elicitApproval(request: HeadlessApprovalRequest): Promise<boolean> {
+        const message = request.kind === 'step'
+            ? `Approve step ${request.step.id}: ${request.step.description}? (${request.reasons.join('; ')})`
+            : `Approve revision ${request.planResponse.revision ?? 1} of the plan? (${request.reason})`;
+
+        const result = await this.server.elicitInput({
+            message,
+            requestedSchema: {
+                type: 'object',
+                properties: { approve: { type: 'boolean', title: 'Approve', default: true } },
+                required: ['approve'],
+            },
+        });
+        return result.action === 'accept' && result.content?.approve === true;
+    }
+
+    /**
+     * Relays clarifying questions from a run or from plan_task to the MCP
+     * client as an elicitation. Clients without elicitation support get no
+     * answers, so the agents go ahead on their own judgement.
+     */
+    private async elicitAnswers(questions: ClarifyingQuestion[]): Promise<Record<string, string>> {
+        if (!this.server.getClientCapabilities()?.elicitation) {
+            return {};
+        }
+
+        const properties: Record<string, { type: 'string'; title: string; description?: string }> = {};
+        for (const q of questions) {
+            properties[q.id] = {
+                type: 'string',
+                title: q.question,
+                description: q.options ? `Suggested: ${q.options.join(', ')}` : undefined,
+            };
+        }
+
+        const { askedBy, stepId } = questions[0];
+        const result = await this.server.elicitInput({
+            message: `${askedBy}${stepId !== undefined ? ` (step ${stepId})` : ''} needs clarification to continue`,
+            requestedSchema: { type: 'object', properties },
+        });
+        if (result.action !== 'accept' || !result.content) {
+            return {};
+        }
+
+        const answers: Record<string, string> = {};
+        for (const [id, value] of Object.entries(result.content)) {
+            if (typeof value === 'string') {
+                answers[id] = value;
+            }
+        }
+        return answers;
+    }
+
     // ============================================================
     // Start Server
     // ============================================================
     async run() {
+        // The orchestrator and agents log progress with console.log; stdout
+        // belongs to the MCP transport, so route those logs to stderr instead.
+        console.log = console.error;
+
         const transport = new StdioServerTransport();
         await this.server.connect(transport);
         console.error('AI Collab MCP Server running on stdio');
@@ -926,5 +1103,7 @@ Respond with JSON only:
 }
 
 // Start server
-const server = new AICollabServer();
-server.run().catch(console.error);
+if (require.main === module) {
+    const server = new AICollabServer();
+    server.run().catch(console.error);
+}
@@ -34,6 +34,8 @@ export class PlanTaskTool {
             currentStepId: 0,
             workspaceFiles: new Map(),
             executionLog: [],
+            clarifications: [],
+            extraContext: [],
         };
 
         // Add context files if provided
@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Orchestrator, HeadlessApprovalRequest } from './orchestrator';
+import { CLIManager } from './cli-manager';
+import { GeminiAgent } from './agents/gemini-context';
+import { ReviewerAgent } from './agents/reviewer-swarm';
+import { REGISTRY } from './registry';
+import { RunCheckpoint, RunStore } from './run-store';
+import { recordUsage } from './usage';
+import { ReviewVerdict } from './types';
+
+interface PlannedStep {
+  id: number;
+  dependsOn?: number[];
+  type?: string;
+}
+
+function planReply(steps: PlannedStep[], confidence = 0.9, risks: unknown[] = []): string {
+  return JSON.stringify({
+    understanding: 'Add a feature',
+    approach: 'Edit the files',
+    steps: steps.map(s => ({ id: s.id, agent: 'codex', type: s.type || 'edit', action: `Edit part ${s.id}`, target: `part${s.id}.ts`, dependsOn: s.dependsOn || [] })),
+    confidence,
+    risks
+  });
+}
+
+function verdict(approved: boolean, issues: string[] = [], reasoning = ''): ReviewVerdict {
+  return {
+    approved,
+    approvalRatio: approved ? 1 : 0,
+    votes: [{ agentId: 1, model: 'model-a', vote: approved ? 'APPROVE' : 'REJECT', confidence: 90, reasoning }],
+    issues
+  };
+}
+
+describe('Orchestrator', () => {
+  let dir: string;
+  let orchestrator: Orchestrator;
+  let approvals: HeadlessApprovalRequest[];
+  let approve: boolean;
+  // Replies are taken in order; an Error is thrown instead of returned
+  let plannerReplies: string[];
+  let agentReplies: (string | Error)[];
+  let verdicts: ReviewVerdict[];
+  let prompts: { agent: string; prompt: string }[];
+  let reviewed: { stepId: number; output: string }[];
+  const limits = { maxReviewAttempts: REGISTRY['reviewer'].maxReviewAttempts, maxReplans: REGISTRY['opus'].maxReplans };
+
+  const agentPrompts = () => prompts.filter(p => p.agent !== 'opus').map(p => p.prompt);
+  const plannerPrompts = () => prompts.filter(p => p.agent === 'opus').map(p => p.prompt);
+
+  /**
+   * Plans with the next planner reply and executes the plan headlessly,
+   * returning the final checkpoint.
+   */
+  const run = async (): Promise<RunCheckpoint> => {
+    await orchestrator.initialize('Add a feature');
+    const { planId } = await orchestrator.generatePlan();
+    await orchestrator.executePlan();
+    return (await new RunStore(dir).load(planId))!;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'orchestrator-test-'));
+    approvals = [];
+    approve = true;
+    plannerReplies = [];
+    agentReplies = [];
+    verdicts = [];
+    prompts = [];
+    reviewed = [];
+    REGISTRY['reviewer'].maxReviewAttempts = 3;
+    REGISTRY['opus'].maxReplans = 0;
+
+    vi.stubEnv('GEMINI_API_KEY', 'test-key');
+    vi.spyOn(GeminiAgent.prototype, 'enrichContext').mockResolvedValue();
+    vi.spyOn(CLIManager.prototype, 'startAgent').mockResolvedValue();
+    vi.spyOn(CLIManager.prototype, 'isAvailable').mockResolvedValue(true);
+    vi.spyOn(CLIManager.prototype, 'sendPrompt').mockImplementation(async (agent, prompt) => {
+      prompts.push({ agent, prompt });
+      const reply = agent === 'opus' ? plannerReplies.shift() : agentReplies.shift() ?? `output ${prompts.length}`;
+      if (reply === undefined) {
+        throw new Error(`No reply left for ${agent}`);
+      }
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return reply;
+    });
+    vi.spyOn(ReviewerAgent.prototype, 'reviewStepDetailed').mockImplementation(async (step, output) => {
+      reviewed.push({ stepId: step.id, output });
+      return verdicts.shift() ?? verdict(true);
+    });
+
+    orchestrator = new Orchestrator(dir, {
+      serve: false,
+      approveHeadless: request => {
+        approvals.push(request);
+        return approve;
+      }
+    });
+  });
+
+  afterEach(async () => {
+    orchestrator.shutdown();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    REGISTRY['reviewer'].maxReviewAttempts = limits.maxReviewAttempts;
+    REGISTRY['opus'].maxReplans = limits.maxReplans;
+    await fs.remove(dir);
+  });
+
+  describe('planner risks', () => {
+    it('keep their severity and only hold up the steps they affect', async () => {
+      approve = false;
+      plannerReplies.push(planReply([{ id: 1 }, { id: 2 }], 0.9, [
+        { description: 'Drops the users table', severity: 'critical', category: 'data-loss', steps: [2] },
+        'Might be slow'
+      ]));
+
+      const checkpoint = await run();
+
+      expect(checkpoint.planResponse!.risks.map(r => [r.severity, r.category, r.affectedSteps])).toEqual([
+        ['critical', 'data-loss', [2]],
+        ['medium', 'other', [1, 2]]
+      ]);
+      expect(approvals.map(a => a.kind === 'step' && [a.step.id, a.reasons])).toEqual([
+        [2, ['critical risk: Drops the users table']]
+      ]);
+      expect(checkpoint.plan.map(s => [s.id, s.status, s.error])).toEqual([
+        [1, 'completed', undefined],
+        [2, 'skipped', 'Rejected by user']
+      ]);
+    });
+  });
+
+  describe('plans', () => {
+    it('re-ask the planner when step ids repeat', async () => {
+      plannerReplies.push(planReply([{ id: 1 }, { id: 1 }]), planReply([{ id: 1 }, { id: 2 }]));
+
+      const checkpoint = await run();
+
+      expect(plannerPrompts()[1]).toContain('$.steps: step id 1 is used more than once');
+      expect(checkpoint.plan.map(s => [s.id, s.status])).toEqual([[1, 'completed'], [2, 'completed']]);
+    });
+
+    it('attribute events recorded during parallel steps to the step that made them', async () => {
+      await fs.writeJson(path.join(dir, 'ai-collab.config.json'), { usage: { budget: { stepTokens: 1 } } });
+      vi.spyOn(CLIManager.prototype, 'sendPrompt').mockImplementation(async (agent, prompt) => {
+        prompts.push({ agent, prompt });
+        if (agent === 'opus') {
+          return plannerReplies.shift()!;
+        }
+        // Both steps are in flight before either records its usage
+        await new Promise(resolve => setTimeout(resolve, 10));
+        recordUsage({ model: 'gpt-4o', inputTokens: 100, outputTokens: 100 });
+        return 'done';
+      });
+      plannerReplies.push(planReply([{ id: 1 }, { id: 2 }]));
+
+      const checkpoint = await run();
+
+      const exceeded = checkpoint.executionLog.filter(e => e.type === 'error');
+      expect(exceeded.map(e => [e.stepId, e.message])).toEqual([
+        [1, 'Step 1 budget exceeded: 200 tokens used, limit 1']
+      ]);
+    });
+  });
+
+  describe('headless approvals', () => {
+    it('cancel the run when no client or approveHeadless can approve a step', async () => {
+      orchestrator.shutdown();
+      orchestrator = new Orchestrator(dir, { serve: false });
+      plannerReplies.push(planReply([{ id: 1, type: 'execute' }, { id: 2, dependsOn: [1] }]));
+
+      const checkpoint = await run();
+
+      const reason = 'No client to approve step 1 (Action "execute" requires approval)';
+      expect(checkpoint.status).toBe('cancelled');
+      expect(checkpoint.plan.map(s => s.status)).toEqual(['skipped', 'skipped']);
+      expect(checkpoint.plan[0].error).toBe(reason);
+      expect(checkpoint.executionLog.filter(e => e.type === 'error').map(e => e.message)).toEqual([reason]);
+      expect(agentPrompts()).toEqual([]);
+    });
+
+    it('ask approveHeadless for gated steps', async () => {
+      plannerReplies.push(planReply([{ id: 1, type: 'execute' }, { id: 2 }]));
+
+      const checkpoint = await run();
+
+      expect(approvals.map(a => a.kind === 'step' && [a.step.id, a.reasons])).toEqual([
+        [1, ['Action "execute" requires approval']]
+      ]);
+      expect(checkpoint.status).toBe('completed');
+    });
+  });
+
+  describe('public API runs', () => {
+    const running = () => orchestrator.listSessions().filter(s => s.running).map(s => s.sessionId);
+
+    it('free the session once the plan has run, been rejected or failed to plan', async () => {
+      plannerReplies.push(planReply([{ id: 1 }]));
+      await run();
+      expect(running()).toEqual([]);
+
+      plannerReplies.push(planReply([{ id: 1 }]));
+      await orchestrator.initialize('Add a feature');
+      await orchestrator.generatePlan();
+      expect(running()).toEqual(['default']);
+      await orchestrator.rejectPlan();
+      expect(running()).toEqual([]);
+
+      await orchestrator.initialize('Add a feature');
+      await expect(orchestrator.generatePlan()).rejects.toThrow('No reply left for opus');
+      expect(running()).toEqual([]);
+    });
+
+    it('free the session once a resumed run finishes', async () => {
+      plannerReplies.push(planReply([{ id: 1 }, { id: 2 }]));
+      agentReplies.push(new Error('agent crashed'));
+      const { planId } = await run();
+
+      await orchestrator.resumeRun(planId, 'resume');
+
+      expect(running()).toEqual([]);
+      expect((await new RunStore(dir).load(planId))!.status).toBe('completed');
+      await expect(orchestrator.resumeRun('missing', 'resume')).rejects.toThrow('No checkpoint found for run missing');
+      expect(running()).toEqual([]);
+    });
+  });
+
+  describe('review loop', () => {
+    it('sends the swarm\'s issues back to the agent and records every attempt', async () => {
+      plannerReplies.push(planReply([{ id: 1 }]));
+      agentReplies.push('first draft', 'revised draft');
+      verdicts.push(verdict(false, ['Missing null check'], 'Crashes on empty input'), verdict(true));
+
+      const checkpoint = await run();
+
+      const [step] = checkpoint.plan;
+      expect(step.status).toBe('completed');
+      expect(step.output).toBe('revised draft');
+      expect(step.attempts!.map(a => [a.attempt, a.output, a.review.approved])).toEqual([
+        [1, 'first draft', false],
+        [2, 'revised draft', true]
+      ]);
+      expect(reviewed.map(r => r.output)).toEqual(['first draft', 'revised draft']);
+
+      const revision = agentPrompts()[1];
+      expect(revision).toContain('## REVISION REQUIRED');
+      expect(revision).toContain('first draft');
+      expect(revision).toContain('- Missing null check');
+      expect(revision).toContain('Agent #1 (90%): Crashes on empty input');
+    });
+
+    it('fails the step once maxReviewAttempts reviews have rejected it', async () => {
+      REGISTRY['reviewer'].maxReviewAttempts = 2;
+      plannerReplies.push(planReply([{ id: 1 }]));
+      verdicts.push(verdict(false, ['Wrong file']), verdict(false, ['Still wrong']), verdict(true));
+
+      const checkpoint = await run();
+
+      const [step] = checkpoint.plan;
+      expect(step.status).toBe('failed');
+      expect(step.error).toBe('Failed review');
+      expect(step.attempts!.map(a => a.review.issues)).toEqual([['Wrong file'], ['Still wrong']]);
+      expect(reviewed).toHaveLength(2);
+      expect(agentPrompts()).toHaveLength(2);
+      expect(checkpoint.status).toBe('failed');
+    });
+  });
+
+  describe('replanning', () => {
+    beforeEach(() => {
+      REGISTRY['reviewer'].maxReviewAttempts = 1;
+      REGISTRY['opus'].maxReplans = 2;
+    });
+
+    it('numbers revised steps after every id the plan has used', async () => {
+      plannerReplies.push(
+        planReply([{ id: 1 }, { id: 2, dependsOn: [1] }, { id: 3, dependsOn: [2] }]),
+        planReply([{ id: 1 }, { id: 2, dependsOn: [1] }], 0.9, [{ description: 'Touches the API', severity: 'low', steps: [2] }])
+      );
+      agentReplies.push('part 1', new Error('agent crashed'));
+
+      const checkpoint = await run();
+
+      expect(checkpoint.status).toBe('completed');
+      expect(checkpoint.plan.map(s => [s.id, s.status, s.inputs])).toEqual([
+        [1, 'completed', []],
+        [4, 'completed', []],
+        [5, 'completed', [4]]
+      ]);
+      expect(checkpoint.planResponse!.risks.map(r => r.affectedSteps)).toEqual([[5]]);
+      expect(checkpoint.planResponse!.revision).toBe(2);
+      expect(checkpoint.planResponse!.history!.map(r => r.steps.map(s => [s.id, s.status]))).toEqual([
+        [[1, 'completed'], [2, 'failed'], [3, 'skipped']]
+      ]);
+      expect(plannerPrompts()[1]).toContain('Step 2 [codex] Edit part 2 (part2.ts)\n  Error: Error: agent crashed');
+    });
+
+    it('stops asking for revisions after maxReplans', async () => {
+      REGISTRY['opus'].maxReplans = 1;
+      plannerReplies.push(planReply([{ id: 1 }]), planReply([{ id: 1 }]));
+      agentReplies.push(new Error('first crash'), new Error('second crash'));
+
+      const checkpoint = await run();
+
+      expect(plannerPrompts()).toHaveLength(2);
+      expect(checkpoint.status).toBe('failed');
+      expect(checkpoint.plan.map(s => [s.id, s.status])).toEqual([[2, 'failed']]);
+      expect(checkpoint.planResponse!.revision).toBe(2);
+    });
+
+    it('keeps the current plan when a plugin vetoes the revision', async () => {
+      await fs.writeFile(path.join(dir, 'guard.js'),
+        "module.exports = { name: 'guard', afterPlan: (hook, plan) => plan.revision ? { veto: 'no revisions' } : undefined };");
+      await fs.writeJson(path.join(dir, 'ai-collab.config.json'), { plugins: ['./guard.js'] });
+      plannerReplies.push(planReply([{ id: 1 }, { id: 2 }]), planReply([{ id: 1 }]));
+      agentReplies.push(new Error('agent crashed'), 'part 2');
+
+      const checkpoint = await run();
+
+      expect(plannerPrompts()).toHaveLength(2);
+      expect(checkpoint.status).toBe('failed');
+      expect(checkpoint.plan.map(s => [s.id, s.status])).toEqual([[1, 'failed'], [2, 'completed']]);
+      expect(checkpoint.planResponse!.revision).toBeUndefined();
+      expect(checkpoint.executionLog.map(e => e.message)).toContain('Revised plan vetoed by plugin guard: no revisions');
+    });
+
+    it('restores the previous plan when the user rejects the revision', async () => {
+      approve = false;
+      plannerReplies.push(planReply([{ id: 1 }, { id: 2 }]), planReply([{ id: 1 }], 0.4));
+      agentReplies.push(new Error('agent crashed'), 'part 2');
+
+      const checkpoint = await run();
+
+      expect(approvals.map(a => a.kind === 'plan' && a.planResponse.revision)).toEqual([2]);
+      expect(plannerPrompts()).toHaveLength(2);
+      expect(checkpoint.status).toBe('failed');
+      expect(checkpoint.plan.map(s => [s.id, s.status])).toEqual([[1, 'failed'], [2, 'completed']]);
+      expect(checkpoint.planResponse!.revision).toBeUndefined();
+      expect(checkpoint.executionLog.filter(e => e.type === 'plan.rejected').map(e => e.message)).toEqual(['Revised plan rejected']);
+    });
+  });
+});
@@ -2,172 +2,589 @@
 // Orchestrator - Multi-Agent Coordination with Confidence Routing
 // ============================================================
 
-import { CLIManager } from './cli-manager';
-import { SharedContext, PlanStep, PlanResponse, ExecutionResult } from './types';
+import { CLIManager, describeTransport } from './cli-manager';
+import { PlanStep, PlanResponse, ExecutionSummary, ReviewVerdict, RunEvent, ClarifyingQuestion } from './types';
 import { REGISTRY } from './registry';
 import { OpusPlannerAgent } from './agents/opus-planner';
 import { GeminiAgent } from './agents/gemini-context';
 import { ReviewerAgent } from './agents/reviewer-swarm';
+import { PlanScheduler } from './plan-scheduler';
+import { AgentRouter } from './agent-router';
+import { RunCheckpoint, RunStore, RunStatus } from './run-store';
+import { Session, cancelReason, createSession, describeSession, DEFAULT_SESSION_ID } from './session';
+import { WorkspaceJournal, RollbackResult } from './workspace-journal';
+import { StepApprovalPolicy, resolveStepPolicy, stepApprovalReasons } from './step-policy';
+import { loadWorkspaceConfig } from './workspace-config';
+import { PluginHost, formatExtraContext } from './plugins';
+import { buildStepContext, modifiedTimes } from './context-builder';
+import { RunEventInput, appendEvent, formatEvent } from './event-log';
+import { ReportFormat, REPORT_FORMATS, buildExecutionSummary } from './execution-report';
+import { UsageLedger, UsageMeter, activeStepId, emptyTotals, meterStep, meterUsage, tokenCount } from './usage';
+import { breakerStates, onBreakerChange } from './resilience';
+import {
+    CLARIFY_INSTRUCTIONS,
+    MAX_CLARIFICATION_ROUNDS,
+    extractClarifyingQuestions,
+    formatClarifications,
+    resolveAnswers
+} from './clarification';
 
 import { WebSocketServer, WebSocket } from 'ws';
+import * as path from 'path';
 
 // ============================================================
 // Types for WebSocket Messages
 // ============================================================
 interface WSMessage {
-    type: 'REQUEST' | 'APPROVE_PLAN' | 'REJECT_PLAN' | 'CANCEL';
+    type: 'REQUEST' | 'APPROVE_PLAN' | 'REJECT_PLAN' | 'CANCEL' | 'LIST_RUNS' | 'RESUME_RUN'
+        | 'LIST_SESSIONS' | 'SUBSCRIBE' | 'UNSUBSCRIBE' | 'UNDO_RUN' | 'APPROVE_STEP' | 'REJECT_STEP'
+        | 'REPLAY_RUN' | 'EXPORT_REPORT' | 'ANSWER_CLARIFICATION';
+    sessionId?: string;
     payload?: any;
 }
 
 interface WSStateUpdate {
-    type: 'STATE_UPDATE' | 'PLAN_APPROVAL_REQUIRED' | 'EXECUTION_COMPLETE' | 'ERROR';
+    type: 'STATE_UPDATE' | 'PLAN_APPROVAL_REQUIRED' | 'EXECUTION_COMPLETE' | 'ERROR' | 'RUN_LIST'
+        | 'SESSION_CREATED' | 'SESSION_LIST' | 'ROLLBACK_COMPLETE' | 'STEP_APPROVAL_REQUIRED'
+        | 'RUN_EVENT' | 'REPLAY_COMPLETE' | 'REPORT' | 'CLARIFICATION_REQUIRED' | 'STEP_OUTPUT'
+        | 'CIRCUIT_UPDATE';
+    sessionId?: string;
     payload: any;
 }
 
+export interface OrchestratorOptions {
+    /**
+     * Start the WebSocket server for the frontend (default: true).
+     * Disable when embedding the orchestrator in another process.
+     */
+    serve?: boolean;
+    port?: number;
+    /**
+     * Undo the workspace changes of a run in which a step failed (default:
+     * false). Runs that were cancelled, or only had steps rejected or
+     * skipped, are left as they are.
+     */
+    rollbackOnFailure?: boolean;
+    /**
+     * Decides approvals for sessions no client is subscribed to, such as
+     * batch runs. Without it an approval nobody can answer cancels the run.
+     */
+    approveHeadless?: (request: HeadlessApprovalRequest) => boolean | Promise<boolean>;
+    /**
+     * Answers agents' clarifying questions for sessions no client is
+     * subscribed to (answers keyed by question id). Without it the agents
+     * go ahead on their own judgement.
+     */
+    answerHeadless?: (request: HeadlessClarificationRequest) => Record<string, string> | Promise<Record<string, string>>;
+    /**
+     * Overrides applied on top of the workspace's stepApproval policy.
+     */
+    stepApproval?: Partial<StepApprovalPolicy>;
+}
+
+export type HeadlessApprovalRequest =
+    | { kind: 'plan'; sessionId: string; planResponse: PlanResponse; reason: string }
+    | { kind: 'step'; sessionId: string; step: PlanStep; reasons: string[] };
+
+export interface HeadlessClarificationRequest {
+    sessionId: string;
+    questions: ClarifyingQuestion[];
+}
+
 // ============================================================
 // Orchestrator Class
 // ============================================================
 export class Orchestrator {
     private cliManager: CLIManager;
-    private context: SharedContext;
-    private wss: WebSocketServer;
+    private wss: WebSocketServer | null = null;
     private workspaceDir: string;
-    private pendingApproval: boolean = false;
-    private approvalResolver: ((approved: boolean) => void) | null = null;
-
-    constructor(workspaceDir: string) {
+    private runStore: RunStore;
+    private journal: WorkspaceJournal;
+    private usageLedger: UsageLedger;
+    private router: AgentRouter;
+    private rollbackOnFailure: boolean;
+    private approveHeadless?: OrchestratorOptions['approveHeadless'];
+    private answerHeadless?: OrchestratorOptions['answerHeadless'];
+    private stepApproval?: Partial<StepApprovalPolicy>;
+    private sessions: Map<string, Session> = new Map();
+    private stopBreakerUpdates: (() => void) | null = null;
+    private subscriptions: Map<WebSocket, Set<string>> = new Map();
+
+    constructor(workspaceDir: string, options: OrchestratorOptions = {}) {
         this.workspaceDir = workspaceDir;
         this.cliManager = new CLIManager(workspaceDir);
-        this.context = {
-            userRequest: "",
-            plan: [],
-            currentStepId: 0,
-            workspaceFiles: new Map(),
-            executionLog: []
-        };
+        this.runStore = new RunStore(workspaceDir);
+        this.journal = new WorkspaceJournal(workspaceDir);
+        this.usageLedger = new UsageLedger(path.join(workspaceDir, '.ai-collab', 'usage'));
+        this.router = new AgentRouter(REGISTRY);
+        this.rollbackOnFailure = options.rollbackOnFailure ?? false;
+        this.approveHeadless = options.approveHeadless;
+        this.answerHeadless = options.answerHeadless;
+        this.stepApproval = options.stepApproval;
+
+        if (options.serve === false) {
+            return;
+        }
 
         // Start WebSocket Server
-        this.wss = new WebSocketServer({ port: 8080 });
-        console.log("[Orchestrator] WebSocket Server started on port 8080");
+        const port = options.port ?? 8080;
+        this.wss = new WebSocketServer({ port });
+        console.log(`[Orchestrator] WebSocket Server started on port ${port}`);
 
         this.wss.on('connection', (ws) => {
             console.log("[Orchestrator] Frontend connected");
-            this.broadcastState();
+            this.subscriptions.set(ws, new Set());
+            this.sendSessionList(ws);
+            this.sendCircuits(ws);
 
             ws.on('message', async (message) => {
                 try {
                     const data: WSMessage = JSON.parse(message.toString());
-                    await this.handleMessage(data);
+                    await this.handleMessage(data, ws);
                 } catch (e) {
                     console.error("[Orchestrator] Failed to parse message:", e);
                 }
             });
+
+            ws.on('close', () => {
+                this.subscriptions.delete(ws);
+                this.pruneSessions();
+            });
+        });
+
+        // Breakers are shared by all sessions, so every client hears about them
+        this.stopBreakerUpdates = onBreakerChange(() => {
+            this.subscriptions.forEach((_ids, client) => this.sendCircuits(client));
         });
     }
 
     // --------------------------------------------------------
     // Message Handler
     // --------------------------------------------------------
-    private async handleMessage(data: WSMessage) {
+    private async handleMessage(data: WSMessage, ws: WebSocket) {
         switch (data.type) {
-            case 'REQUEST':
-                await this.handleRequest(data.payload);
+            case 'REQUEST': {
+                const session = this.openSession(ws, data.sessionId);
+                if (session) {
+                    await this.handleRequest(session, data.payload);
+                }
+                break;
+            }
+
+            case 'LIST_RUNS':
+                this.send(ws, {
+                    type: 'RUN_LIST',
+                    payload: { runs: await this.runStore.list() }
+                });
+                break;
+
+            case 'RESUME_RUN': {
+                const session = this.openSession(ws, data.sessionId);
+                if (session) {
+                    await this.handleResume(session, data.payload?.planId);
+                }
+                break;
+            }
+
+            case 'UNDO_RUN':
+                try {
+                    const result = await this.undoRun(data.payload?.planId, data.payload?.stepId);
+                    this.send(ws, { type: 'ROLLBACK_COMPLETE', payload: result });
+                } catch (error) {
+                    this.sendError(ws, String(error));
+                }
+                break;
+
+            case 'REPLAY_RUN':
+                try {
+                    await this.replayRun(ws, data.payload?.planId, data.payload?.speed);
+                } catch (error) {
+                    this.sendError(ws, String(error));
+                }
+                break;
+
+            case 'EXPORT_REPORT':
+                try {
+                    const format = data.payload?.format || 'markdown';
+                    const content = await this.exportReport(data.payload?.planId, format);
+                    this.send(ws, { type: 'REPORT', payload: { planId: data.payload?.planId, format, content } });
+                } catch (error) {
+                    this.sendError(ws, String(error));
+                }
+                break;
+
+            case 'LIST_SESSIONS':
+                this.sendSessionList(ws);
+                break;
+
+            case 'SUBSCRIBE': {
+                const session = data.sessionId ? this.sessions.get(data.sessionId) : undefined;
+                if (!session) {
+                    this.sendError(ws, `Unknown session: ${data.sessionId}`, data.sessionId);
+                    break;
+                }
+                this.subscriptions.get(ws)?.add(session.id);
+                this.sendState(ws, session);
+                break;
+            }
+
+            case 'UNSUBSCRIBE':
+                if (data.sessionId) {
+                    this.subscriptions.get(ws)?.delete(data.sessionId);
+                    this.pruneSessions();
+                }
                 break;
 
             case 'APPROVE_PLAN':
-                if (this.approvalResolver) {
-                    console.log("[Orchestrator] Plan approved by user");
-                    this.approvalResolver(true);
-                    this.approvalResolver = null;
-                    this.pendingApproval = false;
+            case 'REJECT_PLAN': {
+                const session = this.resolveSession(ws, data.sessionId);
+                if (session?.approvalResolver) {
+                    const approved = data.type === 'APPROVE_PLAN';
+                    console.log(`[Orchestrator] Plan ${approved ? 'approved' : 'rejected'} by user (session ${session.id})`);
+                    session.approvalResolver(approved);
+                    session.approvalResolver = null;
+                    session.pendingApproval = false;
+                }
+                break;
+            }
+
+            case 'APPROVE_STEP':
+            case 'REJECT_STEP': {
+                const session = this.resolveSession(ws, data.sessionId);
+                const stepId = data.payload?.stepId;
+                const resolver = session?.stepApprovals.get(stepId);
+                if (session && resolver) {
+                    const approved = data.type === 'APPROVE_STEP';
+                    console.log(`[Orchestrator] Step ${stepId} ${approved ? 'approved' : 'rejected'} by user (session ${session.id})`);
+                    resolver(approved);
                 }
                 break;
+            }
 
-            case 'REJECT_PLAN':
-                if (this.approvalResolver) {
-                    console.log("[Orchestrator] Plan rejected by user");
-                    this.approvalResolver(false);
-                    this.approvalResolver = null;
-                    this.pendingApproval = false;
+            case 'ANSWER_CLARIFICATION': {
+                const session = this.resolveSession(ws, data.sessionId);
+                const pending = session?.clarifications.get(data.payload?.requestId);
+                if (session && pending) {
+                    console.log(`[Orchestrator] Clarification ${data.payload.requestId} answered by user (session ${session.id})`);
+                    pending.resolve(data.payload?.answers || {});
                 }
                 break;
+            }
 
-            case 'CANCEL':
-                console.log("[Orchestrator] Operation cancelled by user");
-                this.pendingApproval = false;
-                this.approvalResolver = null;
+            case 'CANCEL': {
+                const session = this.resolveSession(ws, data.sessionId);
+                if (session) {
+                    this.cancel(session.id);
+                }
                 break;
+            }
         }
     }
 
+    /**
+     * Aborts a session's run: in-flight agent processes and HTTP calls are
+     * killed, and steps that haven't finished are marked as skipped.
+     */
+    public cancel(sessionId: string = DEFAULT_SESSION_ID) {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return;
+        }
+
+        console.log(`[Orchestrator] Operation cancelled by user (session ${session.id})`);
+        session.abortController.abort();
+        if (session.approvalResolver) {
+            session.approvalResolver(false);
+        }
+        session.approvalResolver = null;
+        session.pendingApproval = false;
+        session.stepApprovals.forEach(resolve => resolve(false));
+        session.clarifications.forEach(pending => pending.resolve({}));
+    }
+
+    /**
+     * Stops the WebSocket server and any persistent agent processes.
+     */
+    public shutdown() {
+        this.wss?.close();
+        this.wss = null;
+        this.stopBreakerUpdates?.();
+        this.stopBreakerUpdates = null;
+        this.cliManager.stopAll();
+    }
+
+    // --------------------------------------------------------
+    // Sessions
+    // --------------------------------------------------------
+    /**
+     * Picks the session a REQUEST/RESUME_RUN should run in (a new one when
+     * no sessionId is given) and subscribes the sender to it. A session runs
+     * one thing at a time; separate sessions run side by side.
+     */
+    private openSession(ws: WebSocket, sessionId?: string): Session | null {
+        const session = this.getOrCreateSession(sessionId);
+        if (session.running) {
+            this.sendError(ws, `Session ${session.id} is already running`, session.id);
+            return null;
+        }
+
+        this.subscriptions.get(ws)?.add(session.id);
+        this.send(ws, {
+            type: 'SESSION_CREATED',
+            sessionId: session.id,
+            payload: describeSession(session)
+        });
+        return session;
+    }
+
+    /**
+     * Messages without a sessionId go to the client's only subscription, so
+     * single-session clients don't need to track ids.
+     */
+    private resolveSession(ws: WebSocket, sessionId?: string): Session | undefined {
+        if (sessionId) {
+            return this.sessions.get(sessionId);
+        }
+        const subscribed = [...(this.subscriptions.get(ws) || [])];
+        return subscribed.length === 1 ? this.sessions.get(subscribed[0]) : undefined;
+    }
+
+    private getOrCreateSession(sessionId?: string): Session {
+        const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+        if (existing) {
+            return existing;
+        }
+        const session = createSession(sessionId);
+        this.sessions.set(session.id, session);
+        return session;
+    }
+
+    private requireSession(sessionId: string): Session {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Unknown session: ${sessionId}`);
+        }
+        return session;
+    }
+
+    /**
+     * Drops idle sessions that no client is subscribed to any more.
+     */
+    private pruneSessions() {
+        const watched = new Set<string>();
+        this.subscriptions.forEach(ids => ids.forEach(id => watched.add(id)));
+
+        for (const [id, session] of this.sessions) {
+            if (!session.running && !watched.has(id) && id !== DEFAULT_SESSION_ID) {
+                this.sessions.delete(id);
+            }
+        }
+    }
+
+    public listSessions() {
+        return [...this.sessions.values()].map(describeSession);
+    }
+
     // --------------------------------------------------------
     // Main Request Handler
     // --------------------------------------------------------
-    private async handleRequest(userRequest: string) {
+    private async handleRequest(session: Session, userRequest: string) {
         try {
-            await this.initialize(userRequest);
-            const planResponse = await this.generatePlan();
+            await this.initialize(userRequest, session.id);
+            const planResponse = await this.generatePlan(session.id);
 
             if (planResponse.requiresApproval) {
                 // Low confidence - ask for approval
-                const approved = await this.requestApproval(planResponse);
+                const approved = await this.requestApproval(session, planResponse);
+                session.abortController.signal.throwIfAborted();
+                this.record(session, {
+                    type: 'approval.resolved',
+                    message: approved ? 'Plan approved' : 'Plan rejected',
+                    payload: { approved }
+                });
                 if (!approved) {
-                    this.context.executionLog.push("Plan rejected by user");
-                    this.broadcastState();
+                    await this.rejectPlan(session.id, 'Plan rejected by user');
                     return;
                 }
             }
+            if (planResponse.veto) {
+                await this.rejectPlan(session.id, `Plan vetoed by plugin ${planResponse.veto}`);
+                return;
+            }
 
-            await this.executePlan();
+            await this.executePlan(session.id);
+            this.broadcastCompletion(session);
+        } catch (error) {
+            await this.handleRunError(session, error);
+        } finally {
+            this.endRun(session);
+        }
+    }
 
-            this.broadcast({
-                type: 'EXECUTION_COMPLETE',
-                payload: {
-                    success: true,
-                    summary: this.generateSummary()
-                }
-            });
+    private async handleResume(session: Session, planId: string) {
+        try {
+            if (!planId) {
+                throw new Error("RESUME_RUN requires a planId");
+            }
+
+            await this.resumeRun(planId, session.id);
+            this.broadcastCompletion(session);
         } catch (error) {
-            console.error("[Orchestrator] Error:", error);
-            this.broadcast({
-                type: 'ERROR',
-                payload: { message: String(error) }
-            });
+            await this.handleRunError(session, error);
+        } finally {
+            this.endRun(session);
+        }
+    }
+
+    private async handleRunError(session: Session, error: unknown) {
+        const { context } = session;
+        if (session.abortController.signal.aborted) {
+            // Cancelled before or during planning - nothing ran, close the run out
+            for (const step of context.plan) {
+                if (step.status === 'pending' || step.status === 'in-progress') {
+                    step.status = 'skipped';
+                    step.error = cancelReason(session);
+                }
+            }
+            this.record(session, { type: 'run.cancelled', message: 'Run cancelled by user' });
+            await this.checkpoint(session, 'cancelled');
+            this.broadcastState(session);
+            this.broadcastCompletion(session);
+            return;
         }
+
+        console.error(`[Orchestrator] Error in session ${session.id}:`, error);
+        this.broadcast(session, {
+            type: 'ERROR',
+            payload: { message: String(error) }
+        });
+    }
+
+    private broadcastCompletion(session: Session) {
+        const summary = this.generateSummary(session);
+        this.broadcast(session, {
+            type: 'EXECUTION_COMPLETE',
+            payload: {
+                success: summary.success,
+                status: summary.status,
+                summary
+            }
+        });
     }
 
     // --------------------------------------------------------
     // Broadcast Helpers
     // --------------------------------------------------------
-    private broadcast(message: WSStateUpdate) {
-        const data = JSON.stringify(message);
-        this.wss.clients.forEach(client => {
-            if (client.readyState === WebSocket.OPEN) {
-                client.send(data);
+    /**
+     * Sends a session's update to the clients subscribed to that session.
+     */
+    private broadcast(session: Session, message: WSStateUpdate) {
+        this.subscriptions.forEach((sessionIds, client) => {
+            if (sessionIds.has(session.id)) {
+                this.send(client, { ...message, sessionId: session.id });
             }
         });
     }
 
-    private broadcastState() {
-        this.broadcast({
+    /**
+     * Appends an event to the session's run log and streams it to
+     * subscribers as it happens. Events recorded while a step runs are
+     * attributed to that step unless they name one.
+     */
+    private record(session: Session, input: RunEventInput): RunEvent {
+        const stepId = input.stepId ?? activeStepId();
+        const event = appendEvent(session.context.executionLog, stepId === undefined ? input : { ...input, stepId });
+        this.broadcast(session, {
+            type: 'RUN_EVENT',
+            payload: { planId: session.context.planResponse?.planId, event }
+        });
+        return event;
+    }
+
+    private hasSubscribers(session: Session): boolean {
+        return [...this.subscriptions.values()].some(ids => ids.has(session.id));
+    }
+
+    private send(client: WebSocket, message: WSStateUpdate) {
+        if (client.readyState === WebSocket.OPEN) {
+            client.send(JSON.stringify(message));
+        }
+    }
+
+    private sendError(client: WebSocket, message: string, sessionId?: string) {
+        this.send(client, { type: 'ERROR', sessionId, payload: { message } });
+    }
+
+    private statePayload(session: Session) {
+        return {
+            plan: session.context.plan,
+            planResponse: session.context.planResponse,
+            logs: session.context.executionLog,
+            currentStep: session.context.currentStepId,
+            usage: session.context.usage,
+            pendingApproval: session.pendingApproval,
+            pendingStepApprovals: [...session.stepApprovals.keys()],
+            pendingClarifications: [...session.clarifications.entries()]
+                .map(([requestId, pending]) => ({ requestId, questions: pending.questions }))
+        };
+    }
+
+    private broadcastState(session: Session) {
+        this.broadcast(session, {
             type: 'STATE_UPDATE',
-            payload: {
-                plan: this.context.plan,
-                planResponse: this.context.planResponse,
-                logs: this.context.executionLog,
-                currentStep: this.context.currentStepId,
-                pendingApproval: this.pendingApproval
-            }
+            payload: this.statePayload(session)
+        });
+    }
+
+    private sendState(client: WebSocket, session: Session) {
+        this.send(client, {
+            type: 'STATE_UPDATE',
+            sessionId: session.id,
+            payload: this.statePayload(session)
+        });
+    }
+
+    private sendSessionList(client: WebSocket) {
+        this.send(client, {
+            type: 'SESSION_LIST',
+            payload: { sessions: this.listSessions() }
+        });
+    }
+
+    private broadcastSessionList() {
+        this.subscriptions.forEach((_ids, client) => this.sendSessionList(client));
+    }
+
+    private sendCircuits(client: WebSocket) {
+        this.send(client, {
+            type: 'CIRCUIT_UPDATE',
+            payload: { breakers: breakerStates() }
         });
     }
 
     // --------------------------------------------------------
     // Request Approval from User
     // --------------------------------------------------------
-    private async requestApproval(planResponse: PlanResponse): Promise<boolean> {
-        this.pendingApproval = true;
+    private async requestApproval(session: Session, planResponse: PlanResponse): Promise<boolean> {
+        if (!this.hasSubscribers(session)) {
+            if (this.approveHeadless) {
+                return this.approveHeadless({
+                    kind: 'plan',
+                    sessionId: session.id,
+                    planResponse,
+                    reason: this.getApprovalReason(planResponse)
+                });
+            }
+            return this.cancelUnanswerable(session, `No client to approve the plan (${this.getApprovalReason(planResponse)})`);
+        }
+        session.pendingApproval = true;
+        this.record(session, {
+            type: 'approval.requested',
+            message: `Plan approval requested: ${this.getApprovalReason(planResponse)}`,
+            payload: { revision: planResponse.revision ?? 1, confidence: planResponse.confidence.overall }
+        });
 
-        this.broadcast({
+        this.broadcast(session, {
             type: 'PLAN_APPROVAL_REQUIRED',
             payload: {
                 planResponse,
@@ -179,20 +596,74 @@ export class Orchestrator {
 
         // Wait for user response
         return new Promise((resolve) => {
-            this.approvalResolver = resolve;
+            session.approvalResolver = resolve;
 
             // Timeout after 5 minutes
             setTimeout(() => {
-                if (this.approvalResolver) {
+                if (session.approvalResolver === resolve) {
                     console.log("[Orchestrator] Approval timeout - auto-rejecting");
-                    this.approvalResolver(false);
-                    this.approvalResolver = null;
-                    this.pendingApproval = false;
+                    session.approvalResolver(false);
+                    session.approvalResolver = null;
+                    session.pendingApproval = false;
                 }
             }, 5 * 60 * 1000);
         });
     }
 
+    /**
+     * Pauses a single step until the user approves or rejects it. Several
+     * steps can wait at once when they were scheduled in parallel.
+     */
+    private async requestStepApproval(session: Session, step: PlanStep, reasons: string[]): Promise<boolean> {
+        if (!this.hasSubscribers(session)) {
+            if (this.approveHeadless) {
+                return this.approveHeadless({ kind: 'step', sessionId: session.id, step, reasons });
+            }
+            return this.cancelUnanswerable(session, `No client to approve step ${step.id} (${reasons.join('; ')})`);
+        }
+
+        const approved = new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => {
+                console.log(`[Orchestrator] Step ${step.id} approval timeout - auto-rejecting`);
+                settle(false);
+            }, 5 * 60 * 1000);
+
+            const settle = (value: boolean) => {
+                clearTimeout(timer);
+                session.stepApprovals.delete(step.id);
+                resolve(value);
+            };
+            session.stepApprovals.set(step.id, settle);
+        });
+
+        this.record(session, {
+            type: 'approval.requested',
+            stepId: step.id,
+            agent: step.assignedAgent,
+            message: `Waiting for approval (${reasons.join('; ')})`,
+            payload: { reasons }
+        });
+        this.broadcast(session, {
+            type: 'STEP_APPROVAL_REQUIRED',
+            payload: { stepId: step.id, step, reasons }
+        });
+        this.broadcastState(session);
+
+        return approved;
+    }
+
+    /**
+     * An approval with no subscribed client and no approveHeadless can never
+     * be given, so the run is cancelled with the reason instead of carrying
+     * on as if the user had rejected it.
+     */
+    private cancelUnanswerable(session: Session, reason: string): false {
+        console.warn(`[Orchestrator] ${reason}, cancelling session ${session.id}`);
+        this.record(session, { type: 'error', message: reason });
+        session.abortController.abort(reason);
+        return false;
+    }
+
     private getApprovalReason(planResponse: PlanResponse): string {
         const conf = planResponse.confidence;
         const reasons: string[] = [];
@@ -220,37 +691,361 @@ export class Orchestrator {
             : "Overall confidence below threshold";
     }
 
+    // --------------------------------------------------------
+    // Clarifying Questions
+    // --------------------------------------------------------
+    /**
+     * Relays an agent's questions to the user and folds the answers into
+     * the shared context. Questions left unanswered (timeout, cancel) are
+     * recorded as such so the agent goes ahead on its own judgement.
+     * Returns false if there was no one to ask.
+     */
+    private async clarify(session: Session, questions: ClarifyingQuestion[]): Promise<boolean> {
+        const { stepId, askedBy } = questions[0];
+        const requestId = stepId === undefined ? 'plan' : `step-${stepId}`;
+
+        this.record(session, {
+            type: 'clarification.requested',
+            stepId,
+            agent: askedBy,
+            message: `Asking the user: ${questions.map(q => q.question).join(' / ')}`,
+            payload: { requestId, questions }
+        });
+
+        const answers = await this.requestClarification(session, requestId, questions);
+        const clarifications = resolveAnswers(questions, answers || {});
+        session.context.clarifications.push(...clarifications);
+
+        const answered = questions.filter(q => answers?.[q.id]?.trim()).length;
+        this.record(session, {
+            type: 'clarification.answered',
+            stepId,
+            agent: askedBy,
+            message: `${answered}/${questions.length} question(s) answered`,
+            payload: { requestId, clarifications }
+        });
+        this.broadcastState(session);
+        return answers !== null;
+    }
+
+    private async requestClarification(
+        session: Session,
+        requestId: string,
+        questions: ClarifyingQuestion[]
+    ): Promise<Record<string, string> | null> {
+        if (!this.hasSubscribers(session)) {
+            if (this.answerHeadless) {
+                return this.answerHeadless({ sessionId: session.id, questions });
+            }
+            console.log("[Orchestrator] No client to answer clarifying questions - continuing without answers");
+            return null;
+        }
+
+        const answers = new Promise<Record<string, string>>((resolve) => {
+            const timer = setTimeout(() => {
+                console.log(`[Orchestrator] Clarification ${requestId} timeout - continuing without answers`);
+                settle({});
+            }, 5 * 60 * 1000);
+
+            const settle = (value: Record<string, string>) => {
+                clearTimeout(timer);
+                session.clarifications.delete(requestId);
+                resolve(value);
+            };
+            session.clarifications.set(requestId, { questions, resolve: settle });
+        });
+
+        this.broadcast(session, {
+            type: 'CLARIFICATION_REQUIRED',
+            payload: { requestId, stepId: questions[0].stepId, questions }
+        });
+        this.broadcastState(session);
+
+        return answers;
+    }
+
     // --------------------------------------------------------
     // Initialize Context
     // --------------------------------------------------------
-    public async initialize(userRequest: string) {
-        this.context.userRequest = userRequest;
-        this.context.executionLog = [];
-        this.context.plan = [];
-        this.context.planResponse = undefined;
-        this.context.currentStepId = 0;
+    /**
+     * Starts a run in the session. The session stays busy until
+     * executePlan or rejectPlan finishes it, or a step along the way throws.
+     */
+    public async initialize(userRequest: string, sessionId: string = DEFAULT_SESSION_ID) {
+        const session = this.beginRun(sessionId);
+        await this.endRunOnError(session, () => this.startRun(session, userRequest));
+    }
 
-        console.log(`[Orchestrator] Initialized with request: "${userRequest}"`);
-        this.context.executionLog.push(`Request received: "${userRequest}"`);
+    private async startRun(session: Session, userRequest: string) {
+        const { context } = session;
+
+        context.userRequest = userRequest;
+        context.executionLog = [];
+        context.plan = [];
+        context.planResponse = undefined;
+        context.currentStepId = 0;
+        context.clarifications = [];
+        context.extraContext = [];
+        context.usage = undefined;
+        await this.loadPlugins(session);
+        await this.openMeter(session);
+
+        console.log(`[Orchestrator] Initialized session ${session.id} with request: "${userRequest}"`);
+        this.record(session, {
+            type: 'run.started',
+            message: `Request received: "${userRequest}"`,
+            payload: { userRequest, sessionId: session.id }
+        });
+
+        await this.metered(session, () => this.prepareAgents(session));
+    }
 
+    /**
+     * Marks a session busy and gives it a fresh cancellation signal.
+     */
+    private beginRun(sessionId: string): Session {
+        const session = this.getOrCreateSession(sessionId);
+        session.running = true;
+        session.abortController = new AbortController();
+        this.broadcastSessionList();
+        return session;
+    }
+
+    private endRun(session: Session) {
+        session.running = false;
+        this.broadcastSessionList();
+    }
+
+    private async endRunOnError<T>(session: Session, fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (error) {
+            this.endRun(session);
+            throw error;
+        }
+    }
+
+    /**
+     * Gives the session a usage meter for its run, priced and budgeted by
+     * the workspace config. Going over a budget cancels the run; a run
+     * can't start once the daily budget is spent.
+     */
+    private async openMeter(session: Session) {
+        const { context } = session;
+        const { prices, budget } = (await loadWorkspaceConfig(this.workspaceDir)).usage || {};
+        context.usage = context.usage || emptyTotals();
+        const meter = await UsageMeter.open({
+            prices,
+            budget,
+            ledger: this.usageLedger,
+            run: context.usage,
+            onRecord: (usage, stepId) => {
+                const step = context.plan.find(s => s.id === stepId);
+                if (step) {
+                    step.tokensUsed = (step.tokensUsed || 0) + tokenCount(usage);
+                    step.costUsd = (step.costUsd || 0) + usage.costUsd;
+                }
+            },
+            onExceeded: reason => {
+                console.warn(`[Orchestrator] ${reason}, cancelling session ${session.id}`);
+                this.record(session, { type: 'error', message: reason, payload: { usage: context.usage, budget } });
+                session.abortController.abort(reason);
+            }
+        });
+        session.usage = meter;
+
+        const exceeded = meter.overBudget();
+        if (exceeded) {
+            throw new Error(exceeded);
+        }
+    }
+
+    /**
+     * Runs `fn` with the calls it makes counted on the session's meter.
+     */
+    private metered<T>(session: Session, fn: () => Promise<T>): Promise<T> {
+        return session.usage ? meterUsage(session.usage, fn) : fn();
+    }
+
+    private async loadPlugins(session: Session) {
+        const { plugins } = await loadWorkspaceConfig(this.workspaceDir);
+        session.plugins = PluginHost.load(this.workspaceDir, plugins);
+    }
+
+    private async prepareAgents(session: Session) {
         // Start agents
         await this.cliManager.startAgent(REGISTRY['codex']);
 
         // Enrich context with Gemini
+        session.context.workspaceFiles.clear();
         const gemini = new GeminiAgent(this.cliManager, REGISTRY['gemini']);
-        await gemini.enrichContext(this.context);
+        await gemini.enrichContext(session.context, session.abortController.signal);
+
+        this.record(session, {
+            type: 'context.enriched',
+            agent: 'gemini',
+            message: 'Context enriched by Gemini',
+            payload: { files: session.context.workspaceFiles.size }
+        });
+        this.broadcastState(session);
+    }
+
+    // --------------------------------------------------------
+    // Resume Interrupted Run
+    // --------------------------------------------------------
+    /**
+     * Restores a checkpointed run and executes whatever is left of it.
+     * Completed steps are kept; failed, in-progress and skipped steps run again.
+     */
+    public async resumeRun(planId: string, sessionId: string = DEFAULT_SESSION_ID) {
+        const active = [...this.sessions.values()].find(s =>
+            s.running && s.id !== sessionId && s.context.planResponse?.planId === planId
+        );
+        if (active) {
+            throw new Error(`Run ${planId} is already executing in session ${active.id}`);
+        }
 
-        this.context.executionLog.push("Context enriched by Gemini");
-        this.broadcastState();
+        const run = await this.runStore.load(planId);
+        if (!run) {
+            throw new Error(`No checkpoint found for run ${planId}`);
+        }
+
+        const session = this.beginRun(sessionId);
+        try {
+            await this.continueRun(session, run);
+        } finally {
+            this.endRun(session);
+        }
+    }
+
+    private async continueRun(session: Session, run: RunCheckpoint) {
+        const { context } = session;
+        const { planId } = run;
+
+        context.userRequest = run.userRequest;
+        context.planResponse = run.planResponse;
+        context.plan = RunStore.prepareForResume(run.plan);
+        if (context.planResponse) {
+            context.planResponse.steps = context.plan;
+        }
+        context.executionLog = run.executionLog;
+        context.clarifications = run.clarifications || [];
+        context.extraContext = run.extraContext || [];
+        context.usage = run.usage;
+        context.currentStepId = 0;
+        await this.loadPlugins(session);
+        await this.openMeter(session);
+
+        const remaining = context.plan.filter(s => s.status !== 'completed').length;
+        console.log(`[Orchestrator] Resuming run ${planId} in session ${session.id}: ${remaining} step(s) remaining`);
+        this.record(session, {
+            type: 'run.resumed',
+            message: `Resuming run ${planId} (${remaining} step(s) remaining)`,
+            payload: { remaining, sessionId: session.id }
+        });
+
+        await this.metered(session, () => this.prepareAgents(session));
+        await this.executePlan(session.id);
+    }
+
+    public listRuns() {
+        return this.runStore.list();
+    }
+
+    /**
+     * Renders a stored run's ExecutionSummary as JSON, Markdown or JUnit XML.
+     */
+    public async exportReport(planId: string, format: ReportFormat = 'markdown'): Promise<string> {
+        if (!REPORT_FORMATS.includes(format)) {
+            throw new Error(`Unknown report format: ${format} (expected ${REPORT_FORMATS.join(', ')})`);
+        }
+        const report = planId ? await this.runStore.renderReport(planId, format) : null;
+        if (report === null) {
+            throw new Error(`No checkpoint found for run ${planId}`);
+        }
+        return report;
+    }
+
+    // --------------------------------------------------------
+    // Replay
+    // --------------------------------------------------------
+    /**
+     * Streams a stored run's events to one client as RUN_EVENT messages,
+     * spaced like the original run (divided by `speed`, gaps capped at 1s).
+     */
+    private async replayRun(ws: WebSocket, planId: string, speed: number = 10) {
+        const run = planId ? await this.runStore.load(planId) : null;
+        if (!run) {
+            throw new Error(`No checkpoint found for run ${planId}`);
+        }
+
+        const events = run.executionLog;
+        for (let i = 0; i < events.length; i++) {
+            if (ws.readyState !== WebSocket.OPEN) {
+                return;
+            }
+            if (i > 0) {
+                const gap = Date.parse(events[i].timestamp) - Date.parse(events[i - 1].timestamp);
+                const delay = Math.min(1000, Math.max(0, gap / Math.max(speed, 0.1)));
+                await new Promise(resolve => setTimeout(resolve, delay || 0));
+            }
+            this.send(ws, {
+                type: 'RUN_EVENT',
+                payload: { planId: run.planId, event: events[i], replay: true }
+            });
+        }
+
+        this.send(ws, {
+            type: 'REPLAY_COMPLETE',
+            payload: { planId: run.planId, events: events.length, plan: run.plan, planResponse: run.planResponse }
+        });
+    }
+
+    // --------------------------------------------------------
+    // Undo
+    // --------------------------------------------------------
+    /**
+     * Rolls back the workspace changes of a run (the most recent one by
+     * default), or of a single step when stepId is given.
+     */
+    public async undoRun(planId?: string, stepId?: number): Promise<RollbackResult> {
+        const targetId = planId || (await this.journal.lastRun())?.planId;
+        if (!targetId) {
+            throw new Error("No run to undo");
+        }
+
+        const active = [...this.sessions.values()].find(s =>
+            s.running && s.context.planResponse?.planId === targetId
+        );
+        if (active) {
+            throw new Error(`Run ${targetId} is still executing in session ${active.id}`);
+        }
+
+        const result = stepId === undefined
+            ? await this.journal.rollbackRun(targetId)
+            : await this.journal.rollbackStep(targetId, stepId);
+        await this.runStore.markRolledBack(targetId, stepId);
+        return result;
+    }
+
+    private checkpoint(session: Session, status: RunStatus): Promise<void> {
+        return this.runStore.save(session.context, status);
     }
 
     // --------------------------------------------------------
     // Generate Plan (Enhanced)
     // --------------------------------------------------------
-    public async generatePlan(): Promise<PlanResponse> {
+    public async generatePlan(sessionId: string = DEFAULT_SESSION_ID): Promise<PlanResponse> {
+        const session = this.requireSession(sessionId);
+        return this.endRunOnError(session, () => this.metered(session, () => this.planSession(session)));
+    }
+
+    private async planSession(session: Session): Promise<PlanResponse> {
+        const { context } = session;
+
         console.log("[Orchestrator] Asking Planner (Claude Opus) to generate a plan...");
-        this.context.executionLog.push("Requesting plan from Opus...");
-        this.broadcastState();
+        this.record(session, { type: 'plan.requested', agent: 'opus', message: 'Requesting plan from Opus...' });
+        this.broadcastState(session);
 
         const planner = new OpusPlannerAgent(
             this.cliManager,
@@ -259,24 +1054,42 @@ export class Orchestrator {
         );
         await this.cliManager.startAgent(REGISTRY['opus']);
 
-        const planResponse = await planner.generatePlan(this.context);
+        const signal = session.abortController.signal;
+        await session.plugins.beforePlan(context);
+        let planResponse = await planner.generatePlan(context, signal);
+
+        // The planner's questions are answered before anyone sees the plan
+        for (let round = 1; planResponse.questions && round <= MAX_CLARIFICATION_ROUNDS; round++) {
+            if (!await this.clarify(session, planResponse.questions)) {
+                break;
+            }
+            signal.throwIfAborted();
+            this.record(session, { type: 'plan.requested', agent: 'opus', message: 'Replanning with the user\'s answers...' });
+            planResponse = await planner.generatePlan(context, signal);
+        }
+        await this.applyPlanPlugins(session, planResponse);
 
         // Store full response
-        this.context.planResponse = planResponse;
-        this.context.plan = planResponse.steps;
+        context.planResponse = planResponse;
+        context.plan = planResponse.steps;
 
         // Log the result
         const confStr = `${(planResponse.confidence.overall * 100).toFixed(0)}%`;
-        this.context.executionLog.push(
-            `Plan generated: ${planResponse.steps.length} steps, ${confStr} confidence`
-        );
-
-        if (planResponse.risks.length > 0) {
-            const riskSummary = planResponse.risks
-                .map(r => `${r.severity}: ${r.description}`)
-                .join("; ");
-            this.context.executionLog.push(`Risks identified: ${riskSummary}`);
-        }
+        const riskSummary = planResponse.risks
+            .map(r => `${r.severity}: ${r.description}`)
+            .join("; ");
+        this.record(session, {
+            type: 'plan.generated',
+            agent: 'opus',
+            message: `Plan generated: ${planResponse.steps.length} steps, ${confStr} confidence`
+                + (riskSummary ? `. Risks identified: ${riskSummary}` : ''),
+            payload: {
+                steps: planResponse.steps.length,
+                confidence: planResponse.confidence.overall,
+                risks: planResponse.risks,
+                requiresApproval: planResponse.requiresApproval
+            }
+        });
 
         console.log("[Orchestrator] Plan generated:", {
             steps: planResponse.steps.length,
@@ -284,166 +1097,590 @@ export class Orchestrator {
             requiresApproval: planResponse.requiresApproval
         });
 
-        this.broadcastState();
+        await this.checkpoint(session, 'planned');
+        this.broadcastState(session);
         return planResponse;
     }
 
+    /**
+     * Runs the afterPlan hooks, which may edit the steps; a veto is kept on
+     * the plan response so callers reject it instead of executing.
+     */
+    private async applyPlanPlugins(session: Session, planResponse: PlanResponse) {
+        const veto = await session.plugins.afterPlan(session.context, planResponse);
+        if (veto) {
+            planResponse.veto = veto;
+            this.record(session, { type: 'note', message: `Plan vetoed by plugin ${veto}`, payload: { veto } });
+        }
+    }
+
+    /**
+     * Closes out a generated plan without running it.
+     */
+    public async rejectPlan(sessionId: string = DEFAULT_SESSION_ID, reason: string = 'Plan rejected') {
+        const session = this.requireSession(sessionId);
+        try {
+            this.record(session, { type: 'plan.rejected', message: reason });
+            await this.checkpoint(session, 'rejected');
+            this.broadcastState(session);
+        } finally {
+            this.endRun(session);
+        }
+    }
+
     // --------------------------------------------------------
     // Execute Plan
     // --------------------------------------------------------
-    public async executePlan() {
+    public async executePlan(sessionId: string = DEFAULT_SESSION_ID) {
+        const session = this.requireSession(sessionId);
+        try {
+            return await this.metered(session, () => this.runPlan(session));
+        } finally {
+            this.endRun(session);
+        }
+    }
+
+    private async runPlan(session: Session) {
+        const { context } = session;
         const reviewer = new ReviewerAgent(this.cliManager, REGISTRY['reviewer']);
-        const results: ExecutionResult[] = [];
 
-        this.context.executionLog.push("Starting plan execution...");
-        this.broadcastState();
+        const planId = context.planResponse?.planId;
+        if (planId) {
+            await this.journal.beginRun(planId);
+        }
 
-        for (const step of this.context.plan) {
-            const startTime = Date.now();
-            console.log(`[Orchestrator] Executing Step ${step.id}: ${step.description}`);
+        this.record(session, { type: 'note', message: 'Starting plan execution...' });
+        await this.checkpoint(session, 'running');
+        this.broadcastState(session);
 
-            this.context.currentStepId = step.id;
-            step.status = 'in-progress';
-            this.context.executionLog.push(`Step ${step.id}: ${step.description} [started]`);
-            this.broadcastState();
+        const signal = session.abortController.signal;
+        const maxReplans = REGISTRY['opus']?.maxReplans ?? 0;
+        const policy = resolveStepPolicy({
+            ...(await loadWorkspaceConfig(this.workspaceDir)).stepApproval,
+            ...this.stepApproval
+        });
+        await this.refreshAgentAvailability(session);
+        await this.runSteps(session, reviewer, policy);
 
-            try {
-                // Check dependencies
-                const unmetDeps = step.inputs.filter(depId => {
-                    const depStep = this.context.plan.find(s => s.id === depId);
-                    return depStep && depStep.status !== 'completed';
-                });
+        // Failed steps get a revised plan for the remaining work
+        for (let replans = 0; replans < maxReplans && !signal.aborted; replans++) {
+            const failed = context.plan.filter(s => s.status === 'failed');
+            if (failed.length === 0 || !await this.replan(session, failed)) {
+                break;
+            }
+            await this.runSteps(session, reviewer, policy);
+        }
 
-                if (unmetDeps.length > 0) {
-                    step.status = 'skipped';
-                    step.error = `Unmet dependencies: ${unmetDeps.join(', ')}`;
-                    this.context.executionLog.push(`Step ${step.id}: Skipped (unmet deps)`);
-                    results.push({
-                        success: false,
-                        stepId: step.id,
-                        error: step.error,
-                        duration: Date.now() - startTime
-                    });
-                    continue;
-                }
+        if (signal.aborted) {
+            this.record(session, { type: 'run.cancelled', message: 'Plan execution cancelled' });
+            await this.checkpoint(session, 'cancelled');
+            await session.plugins.onComplete(context, this.generateSummary(session));
+            this.broadcastState(session);
+            return;
+        }
 
-                // Execute based on agent
-                let output: string;
-
-                switch (step.assignedAgent) {
-                    case 'codex':
-                        output = await this.executeCodexStep(step);
-                        break;
-                    case 'opus':
-                        output = await this.executeOpusStep(step);
-                        break;
-                    case 'gemini':
-                        output = await this.executeGeminiStep(step);
-                        break;
-                    case 'antigravity':
-                        output = await this.executeAntigravityStep(step);
-                        break;
-                    default:
-                        output = "Unknown agent";
-                }
+        const succeeded = context.plan.every(s => s.status === 'completed');
+        this.record(session, {
+            type: 'run.finished',
+            message: 'Plan execution complete',
+            payload: { succeeded }
+        });
+        await this.checkpoint(session, succeeded ? 'completed' : 'failed');
 
-                step.output = output;
-
-                // Review step (for code changes)
-                if (['write', 'edit', 'execute'].includes(step.action)) {
-                    const passed = await reviewer.reviewStep(step, output);
-                    if (!passed) {
-                        step.status = 'failed';
-                        step.error = 'Failed review';
-                        this.context.executionLog.push(`Step ${step.id}: Failed review`);
-                        results.push({
-                            success: false,
-                            stepId: step.id,
-                            error: 'Failed review',
-                            duration: Date.now() - startTime
-                        });
-                        continue;
-                    }
-                }
+        const stepFailed = context.plan.some(s => s.status === 'failed');
+        if (stepFailed && planId && this.rollbackOnFailure && await this.journal.isAvailable()) {
+            await this.rollbackFailedRun(session, planId);
+        }
+        if (planId) {
+            const files = await this.runStore.writeReports(planId);
+            console.log(`[Orchestrator] Reports written: ${files.join(', ')}`);
+        }
+        await session.plugins.onComplete(context, this.generateSummary(session));
+        this.broadcastState(session);
+    }
 
-                step.status = 'completed';
-                this.context.executionLog.push(`Step ${step.id}: Completed`);
-                results.push({
-                    success: true,
+    private async runSteps(session: Session, reviewer: ReviewerAgent, policy: StepApprovalPolicy) {
+        const { context } = session;
+        // onSkip is synchronous, so its checkpoints are awaited once the steps are done
+        const skipCheckpoints: Promise<void>[] = [];
+
+        // Independent steps run in parallel; dependents wait for their inputs
+        const scheduler = new PlanScheduler(context.plan, {
+            concurrencyFor: (agent) => REGISTRY[agent]?.maxConcurrency ?? 1,
+            route: (step, load) => this.router.route(step, { load }),
+            signal: session.abortController.signal,
+            onSkip: (step, reason) => {
+                this.record(session, {
+                    type: 'step.skipped',
                     stepId: step.id,
-                    output,
-                    duration: Date.now() - startTime
+                    agent: step.assignedAgent,
+                    message: `Skipped (${reason})`,
+                    payload: { reason }
                 });
+                skipCheckpoints.push(this.checkpoint(session, 'running'));
+                this.broadcastState(session);
+            }
+        });
+
+        await scheduler.run(async step => {
+            if (!await this.approveStep(session, step, policy)) {
+                return;
+            }
+            const veto = await session.plugins.beforeStep(context, step);
+            if (veto) {
+                return this.skipStep(session, step, `Vetoed by plugin ${veto}`);
+            }
+            try {
+                await this.runStep(session, step, reviewer);
+            } finally {
+                await session.plugins.afterStep(context, step);
+            }
+        });
+        await Promise.all(skipCheckpoints);
+    }
 
-            } catch (error) {
-                step.status = 'failed';
-                step.error = String(error);
-                this.context.executionLog.push(`Step ${step.id}: Failed - ${error}`);
-                results.push({
-                    success: false,
+    /**
+     * Executes a step, recording the files it changed when the run is
+     * journaled and the calls it made on the step.
+     */
+    private async runStep(session: Session, step: PlanStep, reviewer: ReviewerAgent) {
+        const planId = session.context.planResponse?.planId;
+        if (!planId) {
+            return meterStep(step.id, () => this.executeStep(session, step, reviewer));
+        }
+        await this.journal.beforeStep(planId, step.id);
+        try {
+            await meterStep(step.id, () => this.executeStep(session, step, reviewer));
+        } finally {
+            const changes = await this.journal.afterStep(planId, step.id);
+            for (const change of changes) {
+                this.record(session, {
+                    type: 'file.written',
                     stepId: step.id,
-                    error: String(error),
-                    duration: Date.now() - startTime
+                    agent: step.assignedAgent,
+                    message: `${change.status === 'deleted' ? 'Deleted' : 'Wrote'} ${change.path}`,
+                    payload: change
                 });
             }
+        }
+    }
+
+    /**
+     * Marks agents whose CLI isn't installed or running, or whose API key
+     * is missing, as unavailable so their steps fall back to another agent
+     * with the same capability.
+     */
+    private async refreshAgentAvailability(session: Session) {
+        for (const [name, config] of Object.entries(REGISTRY)) {
+            const available = await this.cliManager.isAvailable(config);
+            if (!available && this.router.isAvailable(name)) {
+                this.record(session, { type: 'note', agent: name, message: `Agent ${name} is unavailable (${describeTransport(config)})` });
+            }
+            this.router.setAvailable(name, available);
+        }
+    }
 
-            this.broadcastState();
+    /**
+     * Applies the step approval policy. Rejected steps are skipped, which
+     * also skips everything that depends on them.
+     */
+    private async approveStep(session: Session, step: PlanStep, policy: StepApprovalPolicy): Promise<boolean> {
+        const { context } = session;
+        const reasons = stepApprovalReasons(step, policy, context.planResponse);
+        if (reasons.length === 0) {
+            return true;
+        }
+
+        const approved = await this.requestStepApproval(session, step, reasons);
+        this.record(session, {
+            type: 'approval.resolved',
+            stepId: step.id,
+            message: approved ? 'Step approved' : 'Step rejected',
+            payload: { approved }
+        });
+        if (approved && !session.abortController.signal.aborted) {
+            return true;
         }
 
-        this.context.executionLog.push("Plan execution complete");
-        this.broadcastState();
+        await this.skipStep(session, step, session.abortController.signal.aborted ? cancelReason(session) : 'Rejected by user');
+        return false;
+    }
+
+    /**
+     * Skips a step before it runs, which also skips its dependents.
+     */
+    private async skipStep(session: Session, step: PlanStep, reason: string) {
+        step.status = 'skipped';
+        step.error = reason;
+        this.record(session, {
+            type: 'step.skipped',
+            stepId: step.id,
+            agent: step.assignedAgent,
+            message: `Skipped (${reason})`,
+            payload: { reason }
+        });
+        await this.checkpoint(session, 'running');
+        this.broadcastState(session);
     }
 
     // --------------------------------------------------------
-    // Agent-Specific Execution
+    // Adaptive Replanning
     // --------------------------------------------------------
+    /**
+     * Replaces the failed and unfinished part of the plan with a revision
+     * from the planner. The revision passes the same approval gate as the
+     * original plan; returns false if it couldn't be produced or was rejected,
+     * leaving the plan as it was.
+     */
+    private async replan(session: Session, failed: PlanStep[]): Promise<boolean> {
+        const { context } = session;
+        const signal = session.abortController.signal;
+        const previous = { planResponse: context.planResponse, plan: context.plan };
+
+        this.record(session, {
+            type: 'plan.requested',
+            agent: 'opus',
+            message: `Step(s) ${failed.map(s => s.id).join(', ')} failed - requesting a revised plan from Opus...`,
+            payload: { failedSteps: failed.map(s => s.id) }
+        });
+        this.broadcastState(session);
+
+        let planResponse: PlanResponse;
+        try {
+            const planner = new OpusPlannerAgent(this.cliManager, REGISTRY['opus'], this.workspaceDir);
+            planResponse = await planner.replan(context, failed, signal);
+        } catch (error) {
+            if (!signal.aborted) {
+                console.error("[Orchestrator] Replanning failed:", error);
+                this.record(session, { type: 'error', agent: 'opus', message: `Replanning failed: ${error}` });
+            }
+            return false;
+        }
+
+        await this.applyPlanPlugins(session, planResponse);
+        if (planResponse.veto) {
+            this.record(session, { type: 'plan.rejected', message: `Revised plan vetoed by plugin ${planResponse.veto}` });
+            return false;
+        }
+
+        context.planResponse = planResponse;
+        context.plan = planResponse.steps;
+
+        const confStr = `${(planResponse.confidence.overall * 100).toFixed(0)}%`;
+        const added = planResponse.steps.filter(s => s.status === 'pending').length;
+        this.record(session, {
+            type: 'plan.revised',
+            agent: 'opus',
+            message: `Plan revised (revision ${planResponse.revision}): ${added} new step(s), ${confStr} confidence`,
+            payload: {
+                revision: planResponse.revision,
+                newSteps: added,
+                confidence: planResponse.confidence.overall,
+                requiresApproval: planResponse.requiresApproval
+            }
+        });
+        await this.checkpoint(session, 'running');
+        this.broadcastState(session);
+
+        if (planResponse.requiresApproval) {
+            const approved = await this.requestApproval(session, planResponse);
+            this.record(session, {
+                type: 'approval.resolved',
+                message: approved ? 'Revised plan approved' : 'Revised plan rejected',
+                payload: { approved, revision: planResponse.revision }
+            });
+            if (!approved || signal.aborted) {
+                context.planResponse = previous.planResponse;
+                context.plan = previous.plan;
+                this.record(session, { type: 'plan.rejected', message: 'Revised plan rejected' });
+                await this.checkpoint(session, 'running');
+                this.broadcastState(session);
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private async rollbackFailedRun(session: Session, planId: string) {
+        const { context } = session;
+        try {
+            const result = await this.journal.rollbackRun(planId);
+            this.record(session, {
+                type: 'run.rolled-back',
+                message: `Run failed - rolled back workspace (${result.restored.length} restored, ${result.deleted.length} deleted, ${result.kept.length} kept)`,
+                payload: { restored: result.restored, deleted: result.deleted, kept: result.kept }
+            });
+            for (const step of context.plan) {
+                if (step.status === 'completed') {
+                    step.status = 'pending';
+                    step.error = 'Rolled back';
+                }
+            }
+            await this.checkpoint(session, 'rolled-back');
+        } catch (error) {
+            console.error(`[Orchestrator] Rollback of ${planId} failed:`, error);
+            this.record(session, { type: 'error', message: `Rollback failed: ${error}` });
+        }
+    }
+
+    private async executeStep(session: Session, step: PlanStep, reviewer: ReviewerAgent) {
+        const { context } = session;
+        const startTime = Date.now();
+        console.log(`[Orchestrator] Executing Step ${step.id}: ${step.description}`);
+
+        context.currentStepId = step.id;
+        step.status = 'in-progress';
+        step.tokensUsed = 0;
+        step.costUsd = 0;
+        this.record(session, {
+            type: 'step.started',
+            stepId: step.id,
+            agent: step.assignedAgent,
+            message: step.description,
+            payload: { action: step.action, target: step.target }
+        });
+        await this.checkpoint(session, 'running');
+        this.broadcastState(session);
+
+        try {
+            step.output = await this.executeAgentStep(session, step);
+
+            // Review step (for code changes), revising until the swarm approves
+            if (['write', 'edit', 'execute'].includes(step.action)) {
+                const reviewed = await this.reviewWithRetries(session, step, reviewer);
+                if (!reviewed) {
+                    step.status = 'failed';
+                    step.error = 'Failed review';
+                    this.record(session, {
+                        type: 'step.finished',
+                        stepId: step.id,
+                        agent: step.assignedAgent,
+                        durationMs: Date.now() - startTime,
+                        message: 'Failed review',
+                        payload: { status: 'failed', attempts: step.attempts?.length }
+                    });
+                    await this.checkpoint(session, 'running');
+                    this.broadcastState(session);
+                    return;
+                }
+            }
+
+            step.status = 'completed';
+            this.record(session, {
+                type: 'step.finished',
+                stepId: step.id,
+                agent: step.assignedAgent,
+                durationMs: Date.now() - startTime,
+                message: 'Completed',
+                payload: { status: 'completed', attempts: step.attempts?.length }
+            });
+
+        } catch (error) {
+            if (session.abortController.signal.aborted) {
+                step.status = 'skipped';
+                step.error = cancelReason(session);
+                this.record(session, {
+                    type: 'step.skipped',
+                    stepId: step.id,
+                    agent: step.assignedAgent,
+                    durationMs: Date.now() - startTime,
+                    message: 'Cancelled',
+                    payload: { reason: step.error }
+                });
+                await this.checkpoint(session, 'running');
+                this.broadcastState(session);
+                return;
+            }
+
+            step.status = 'failed';
+            step.error = String(error);
+            this.record(session, {
+                type: 'step.finished',
+                stepId: step.id,
+                agent: step.assignedAgent,
+                durationMs: Date.now() - startTime,
+                message: `Failed - ${error}`,
+                payload: { status: 'failed', error: String(error) }
+            });
+        }
+
+        await this.checkpoint(session, 'running');
+        this.broadcastState(session);
+    }
+
     // --------------------------------------------------------
-    // Agent-Specific Execution
+    // Review Retry Loop
     // --------------------------------------------------------
-    private async executeCodexStep(step: PlanStep): Promise<string> {
-        const prompt = this.formatContextForAgent(step);
-        // REAL EXECUTION: Send prompt to Codex agent
-        const response = await this.cliManager.sendPrompt('codex', prompt, REGISTRY['codex']);
-        return response || `[Codex] No output received for step ${step.id}`;
+    /**
+     * Reviews step.output and, on rejection, sends the swarm's feedback back
+     * to the step's agent for a revision, up to the reviewer's
+     * maxReviewAttempts. Every reviewed output is recorded in step.attempts.
+     */
+    private async reviewWithRetries(session: Session, step: PlanStep, reviewer: ReviewerAgent): Promise<boolean> {
+        const { context } = session;
+        const signal = session.abortController.signal;
+        const maxAttempts = Math.max(1, REGISTRY['reviewer']?.maxReviewAttempts ?? 1);
+        step.attempts = [];
+
+        for (let attempt = 1; ; attempt++) {
+            const output = step.output || '';
+            const review = await reviewer.reviewStepDetailed(step, output, signal);
+            step.attempts.push({
+                attempt,
+                output,
+                review,
+                timestamp: new Date().toISOString()
+            });
+
+            for (const vote of review.votes) {
+                this.record(session, {
+                    type: 'review.vote',
+                    stepId: step.id,
+                    agent: 'reviewer',
+                    message: `Agent #${vote.agentId} (${vote.model}): ${vote.vote} (${vote.confidence}%)`,
+                    payload: { attempt, ...vote }
+                });
+            }
+            this.record(session, {
+                type: 'review.verdict',
+                stepId: step.id,
+                agent: 'reviewer',
+                message: `${review.approved ? 'Approved' : 'Rejected'} with ${(review.approvalRatio * 100).toFixed(0)}% approval (attempt ${attempt}/${maxAttempts})`,
+                payload: { attempt, approved: review.approved, approvalRatio: review.approvalRatio, issues: review.issues }
+            });
+
+            const veto = await session.plugins.onReview(context, step, review);
+            if (veto) {
+                review.approved = false;
+                review.issues.push(`Vetoed by plugin ${veto}`);
+                this.record(session, {
+                    type: 'note',
+                    stepId: step.id,
+                    message: `Review vetoed by plugin ${veto}`,
+                    payload: { attempt, veto }
+                });
+            }
+
+            if (review.approved) {
+                return true;
+            }
+            if (attempt >= maxAttempts) {
+                return false;
+            }
+
+            this.record(session, {
+                type: 'note',
+                stepId: step.id,
+                agent: step.assignedAgent,
+                message: `Rejected by review (attempt ${attempt}/${maxAttempts}), requesting revision`
+            });
+            await this.checkpoint(session, 'running');
+            this.broadcastState(session);
+
+            const revised = await this.promptAgent(session, step, () => this.formatRevisionPrompt(session, step, output, review));
+            step.output = revised || output;
+        }
     }
 
-    private async executeOpusStep(step: PlanStep): Promise<string> {
-        const prompt = `Analyze and provide guidance for: ${step.description}`;
-        // REAL EXECUTION: Send prompt to Opus agent
-        const response = await this.cliManager.sendPrompt('opus', prompt, REGISTRY['opus']);
-        return response || `[Opus] No output received for step ${step.id}`;
+    private async formatRevisionPrompt(session: Session, step: PlanStep, output: string, review: ReviewVerdict): Promise<string> {
+        const rejections = review.votes.filter(v => v.vote === 'REJECT');
+
+        return `${await this.formatContextForAgent(session, step)}
+## REVISION REQUIRED
+Your previous output for this step was rejected by code review
+(${(review.approvalRatio * 100).toFixed(0)}% approval).
+
+Previous output:
+${output}
+
+Issues raised by reviewers:
+${review.issues.length > 0 ? review.issues.map(i => `- ${i}`).join('\n') : '- (none listed)'}
+
+Reviewer reasoning:
+${rejections.map(v => `- Agent #${v.agentId} (${v.confidence}%): ${v.reasoning}`).join('\n') || '- (none given)'}
+
+Address every issue above and produce the complete revised output for this step.
+`;
     }
 
-    private async executeGeminiStep(step: PlanStep): Promise<string> {
-        const prompt = this.formatContextForAgent(step);
-        const response = await this.cliManager.sendPrompt(
-            'gemini',
-            prompt,
-            REGISTRY['gemini']
-        );
-        return response || `[Gemini] No output received for step ${step.id}`;
+    // --------------------------------------------------------
+    // Agent Execution
+    // --------------------------------------------------------
+    private async executeAgentStep(session: Session, step: PlanStep): Promise<string> {
+        const response = await this.promptAgent(session, step, () => this.formatContextForAgent(session, step));
+        return response || `[${step.assignedAgent}] No output received for step ${step.id}`;
     }
 
-    private async executeAntigravityStep(step: PlanStep): Promise<string> {
-        const prompt = this.formatContextForAgent(step);
-        const response = await this.cliManager.sendPrompt(
-            'antigravity',
-            prompt,
-            REGISTRY['antigravity']
-        );
-        return response || `[Antigravity] No output received for step ${step.id}`;
+    /**
+     * Sends a step's prompt to its agent, streaming its output to
+     * subscribers as STEP_OUTPUT deltas. If the agent replies with
+     * clarifying questions, they go to the user and the prompt is rebuilt
+     * with the answers and sent again.
+     */
+    private async promptAgent(session: Session, step: PlanStep, buildPrompt: () => Promise<string>): Promise<string> {
+        const agent = step.assignedAgent;
+        const config = REGISTRY[agent];
+        if (!config) {
+            throw new Error(`No config found for agent: ${agent}`);
+        }
+        const signal = session.abortController.signal;
+
+        for (let round = 0; ; round++) {
+            const prompt = await buildPrompt();
+            // Each prompt's output replaces the previous one in the UI
+            let reset = true;
+            const onChunk = (delta: string) => {
+                this.broadcast(session, {
+                    type: 'STEP_OUTPUT',
+                    payload: { planId: session.context.planResponse?.planId, stepId: step.id, agent, delta, reset }
+                });
+                reset = false;
+            };
+            const response = await this.cliManager.sendPrompt(agent, prompt, config, {
+                signal,
+                onChunk,
+                onRetry: () => { reset = true; }
+            });
+
+            const questions = round < MAX_CLARIFICATION_ROUNDS
+                ? extractClarifyingQuestions(response, { askedBy: agent, stepId: step.id, prior: session.context.clarifications })
+                : [];
+            if (questions.length === 0) {
+                return response;
+            }
+            await this.clarify(session, questions);
+            signal.throwIfAborted();
+        }
     }
 
     // --------------------------------------------------------
     // Format Context for Agent
     // --------------------------------------------------------
-    private formatContextForAgent(step: PlanStep): string {
+    /**
+     * Workspace files are ranked by relevance to the step and packed into
+     * the agent's token budget; files that don't fit are summarized.
+     */
+    private async formatContextForAgent(session: Session, step: PlanStep): Promise<string> {
+        const { context } = session;
+        const options = (await loadWorkspaceConfig(this.workspaceDir)).context || {};
+        const packed = buildStepContext(context.workspaceFiles, step, {
+            ...options,
+            maxTokens: REGISTRY[step.assignedAgent]?.contextTokens ?? options.maxTokens
+        }, {
+            workspaceDir: this.workspaceDir,
+            modifiedAt: await modifiedTimes(context.workspaceFiles.keys())
+        });
+        console.log(`[Orchestrator] Step ${step.id} context: ${Object.keys(packed.files).length} file(s), ${Object.keys(packed.summaries).length} summarized, ${packed.omitted} omitted (~${packed.tokens} tokens)`);
+
         const contextObj = {
-            sessionId: this.context.planResponse?.planId || "session-unknown",
+            sessionId: context.planResponse?.planId || "session-unknown",
             currentStep: step,
-            allSteps: this.context.plan,
-            history: this.context.executionLog.slice(-10),
-            files: Object.fromEntries(this.context.workspaceFiles)
+            allSteps: context.plan,
+            history: context.executionLog.slice(-10).map(formatEvent),
+            files: packed.files,
+            fileSummaries: packed.summaries,
+            omittedFiles: packed.omitted
         };
 
     return `
@@ -460,28 +1697,31 @@ Action: ${step.action}
 
 Previous steps have produced:
 ${step.inputs.map(id => {
-  const s = this.context.plan.find(x => x.id === id);
+  const s = context.plan.find(x => x.id === id);
   return s ? `Step ${id}: ${s.output || 'no output'}` : '';
 }).filter(Boolean).join('\n')}
+${formatExtraContext(context)}
+${formatClarifications(context.clarifications)}
+${CLARIFY_INSTRUCTIONS}
 `;
     }
 
     // --------------------------------------------------------
     // Generate Execution Summary
     // --------------------------------------------------------
-    private generateSummary() {
-        const completed = this.context.plan.filter(s => s.status === 'completed').length;
-        const failed = this.context.plan.filter(s => s.status === 'failed').length;
-        const skipped = this.context.plan.filter(s => s.status === 'skipped').length;
-
-        return {
-            planId: this.context.planResponse?.planId,
-            totalSteps: this.context.plan.length,
-            completed,
-            failed,
-            skipped,
-            success: failed === 0,
-            logs: this.context.executionLog
-        };
+    private generateSummary(session: Session): ExecutionSummary {
+        const { context } = session;
+        const status: RunStatus = session.abortController.signal.aborted
+            ? 'cancelled'
+            : context.plan.every(s => s.status === 'completed') ? 'completed' : 'failed';
+
+        return buildExecutionSummary({
+            planId: context.planResponse?.planId || 'unknown',
+            userRequest: context.userRequest,
+            status,
+            plan: context.plan,
+            executionLog: context.executionLog,
+            usage: context.usage
+        });
     }
 }
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PlanScheduler } from './plan-scheduler';
+import { PlanStep } from './types';
+
+function makeStep(id: number, inputs: number[] = [], agent: PlanStep['assignedAgent'] = 'codex'): PlanStep {
+  return {
+    id,
+    action: 'execute',
+    target: `file${id}.ts`,
+    description: `Step ${id}`,
+    assignedAgent: agent,
+    status: 'pending',
+    inputs,
+    outputs: []
+  };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+describe('PlanScheduler', () => {
+  it('should run independent steps concurrently up to the agent limit', async () => {
+    const steps = [makeStep(1), makeStep(2), makeStep(3)];
+    const gates = new Map(steps.map(s => [s.id, deferred()]));
+    const started: number[] = [];
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 2 });
+    const done = scheduler.run(async step => {
+      started.push(step.id);
+      await gates.get(step.id)!.promise;
+      step.status = 'completed';
+    });
+
+    await tick();
+    expect(started).toEqual([1, 2]);
+
+    gates.get(1)!.resolve();
+    await tick();
+    expect(started).toEqual([1, 2, 3]);
+
+    gates.get(2)!.resolve();
+    gates.get(3)!.resolve();
+    await done;
+    expect(steps.every(s => s.status === 'completed')).toBe(true);
+  });
+
+  it('should apply concurrency limits per agent', async () => {
+    const steps = [makeStep(1, [], 'codex'), makeStep(2, [], 'codex'), makeStep(3, [], 'opus')];
+    const gates = new Map(steps.map(s => [s.id, deferred()]));
+    const started: number[] = [];
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1 });
+    const done = scheduler.run(async step => {
+      started.push(step.id);
+      await gates.get(step.id)!.promise;
+      step.status = 'completed';
+    });
+
+    await tick();
+    expect(started).toEqual([1, 3]);
+
+    steps.forEach(s => gates.get(s.id)!.resolve());
+    await done;
+    expect(started).toEqual([1, 3, 2]);
+  });
+
+  it('should wait for dependencies before starting a step', async () => {
+    const steps = [makeStep(2, [1]), makeStep(1)];
+    const order: number[] = [];
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 4 });
+    await scheduler.run(async step => {
+      order.push(step.id);
+      step.status = 'completed';
+    });
+
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('should cascade skips through dependents of a failed step', async () => {
+    const steps = [makeStep(1), makeStep(2, [1]), makeStep(3, [2]), makeStep(4)];
+    const onSkip = vi.fn();
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1, onSkip });
+    await scheduler.run(async step => {
+      step.status = step.id === 1 ? 'failed' : 'completed';
+    });
+
+    expect(steps.map(s => s.status)).toEqual(['failed', 'skipped', 'skipped', 'completed']);
+    expect(steps[1].error).toBe('Unmet dependencies: 1');
+    expect(steps[2].error).toBe('Unmet dependencies: 2');
+    expect(onSkip).toHaveBeenCalledTimes(2);
+  });
+
+  it('should mark a step as failed when the runner throws', async () => {
+    const steps = [makeStep(1), makeStep(2, [1])];
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1 });
+    await scheduler.run(async () => {
+      throw new Error('boom');
+    });
+
+    expect(steps[0].status).toBe('failed');
+    expect(steps[0].error).toContain('boom');
+    expect(steps[1].status).toBe('skipped');
+  });
+
+  it('should ignore dependencies on unknown steps', async () => {
+    const steps = [makeStep(1, [99])];
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1 });
+    await scheduler.run(async step => {
+      step.status = 'completed';
+    });
+
+    expect(steps[0].status).toBe('completed');
+  });
+
+  it('should skip steps that form a dependency cycle', async () => {
+    const steps = [makeStep(1, [2]), makeStep(2, [1]), makeStep(3)];
+    const runner = vi.fn(async (step: PlanStep) => {
+      step.status = 'completed';
+    });
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1 });
+    await scheduler.run(runner);
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(steps[0].status).toBe('skipped');
+    expect(steps[0].error).toContain('Circular dependency');
+    expect(steps[1].status).toBe('skipped');
+  });
+
+  it('should stop starting steps once the signal is aborted', async () => {
+    const steps = [makeStep(1), makeStep(2, [1]), makeStep(3)];
+    const controller = new AbortController();
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1, signal: controller.signal });
+    await scheduler.run(async step => {
+      controller.abort();
+      step.status = 'completed';
+    });
+
+    expect(steps[0].status).toBe('completed');
+    expect(steps[1].status).toBe('skipped');
+    expect(steps[1].error).toBe('Cancelled by user');
+    expect(steps[2].status).toBe('skipped');
+  });
+
+  it('should skip with the reason the signal was aborted with', async () => {
+    const steps = [makeStep(1), makeStep(2, [1]), makeStep(3)];
+    const controller = new AbortController();
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1, signal: controller.signal });
+    await scheduler.run(async step => {
+      controller.abort('Run budget exceeded: $2.50 spent, limit $2.00');
+      step.status = 'failed';
+    });
+
+    expect(steps[1].error).toBe('Run budget exceeded: $2.50 spent, limit $2.00');
+    expect(steps[2].error).toBe('Run budget exceeded: $2.50 spent, limit $2.00');
+  });
+
+  it('should leave already-completed steps untouched', async () => {
+    const steps = [makeStep(1), makeStep(2, [1])];
+    steps[0].status = 'completed';
+    const runner = vi.fn(async (step: PlanStep) => {
+      step.status = 'completed';
+    });
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1 });
+    await scheduler.run(runner);
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(runner.mock.calls[0][0].id).toBe(2);
+  });
+
+  it('should start steps on the agent picked by route', async () => {
+    const steps = [makeStep(1), makeStep(2)];
+    const started: string[] = [];
+
+    const scheduler = new PlanScheduler(steps, {
+      concurrencyFor: () => 1,
+      route: (step, load) => load('codex') === 0 ? 'codex' : 'antigravity'
+    });
+    await scheduler.run(async step => {
+      started.push(step.assignedAgent);
+      step.status = 'completed';
+    });
+
+    expect(started).toEqual(['codex', 'antigravity']);
+  });
+
+  it('should skip steps no agent can run', async () => {
+    const steps = [makeStep(1), makeStep(2, [1])];
+    const onSkip = vi.fn();
+
+    const scheduler = new PlanScheduler(steps, { concurrencyFor: () => 1, route: () => null, onSkip });
+    await scheduler.run(async step => { step.status = 'completed'; });
+
+    expect(steps[0].status).toBe('skipped');
+    expect(steps[0].error).toBe('No available agent can execute');
+    expect(steps[1].status).toBe('skipped');
+    expect(onSkip).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,164 @@
+// ============================================================
+// Plan Scheduler - Dependency-Aware Parallel Step Execution
+// Builds a DAG from each step's `inputs` and runs independent
+// steps concurrently, capped per agent.
+// ============================================================
+
+import { PlanStep } from './types';
+
+export interface SchedulerOptions {
+    /**
+     * Maximum number of steps an agent may run at the same time.
+     */
+    concurrencyFor: (agentName: string) => number;
+    /**
+     * Picks the agent for a ready step, given how many steps each agent is
+     * running. The step is started on that agent (updating assignedAgent)
+     * once it has capacity; returning null skips the step.
+     */
+    route?: (step: PlanStep, load: (agentName: string) => number) => string | null;
+    /**
+     * Once aborted, no new steps are started and the remaining ones are skipped.
+     */
+    signal?: AbortSignal;
+    /**
+     * Called when a step is skipped because a dependency failed, was
+     * skipped itself, or can never complete (dependency cycle).
+     */
+    onSkip?: (step: PlanStep, reason: string) => void;
+}
+
+type StepRunner = (step: PlanStep) => Promise<void>;
+
+const TERMINAL_STATUSES: PlanStep['status'][] = ['completed', 'failed', 'skipped'];
+
+export class PlanScheduler {
+    private started = new Set<number>();
+    private active = new Map<string, number>();
+
+    constructor(private steps: PlanStep[], private options: SchedulerOptions) { }
+
+    /**
+     * Runs every pending step, starting each one as soon as all of its
+     * dependencies have completed. The runner is expected to set the step's
+     * final status; a runner that throws marks the step as failed.
+     * Steps that are already in a terminal state are left untouched.
+     */
+    public async run(runner: StepRunner): Promise<void> {
+        const running = new Map<number, Promise<void>>();
+
+        while (true) {
+            this.cascadeSkips();
+
+            const ready = this.options.signal?.aborted ? [] : this.readySteps();
+            for (const step of ready) {
+                const agent = this.options.route
+                    ? this.options.route(step, name => this.active.get(name) || 0)
+                    : step.assignedAgent;
+                if (!agent) {
+                    this.started.add(step.id);
+                    this.skip(step, `No available agent can ${step.action}`);
+                    continue;
+                }
+
+                const inFlight = this.active.get(agent) || 0;
+                if (inFlight >= Math.max(1, this.options.concurrencyFor(agent))) {
+                    continue;
+                }
+
+                step.assignedAgent = agent;
+                this.started.add(step.id);
+                this.active.set(agent, inFlight + 1);
+
+                const task = Promise.resolve()
+                    .then(() => runner(step))
+                    .catch((error) => {
+                        step.status = 'failed';
+                        step.error = String(error);
+                    })
+                    .finally(() => {
+                        this.active.set(agent, (this.active.get(agent) || 1) - 1);
+                        running.delete(step.id);
+                    });
+
+                running.set(step.id, task);
+            }
+
+            if (running.size === 0) {
+                break;
+            }
+
+            await Promise.race(running.values());
+        }
+
+        // Anything still pending was cancelled or can never become ready
+        for (const step of this.pendingSteps()) {
+            this.skip(step, this.options.signal?.aborted
+                ? this.cancelReason()
+                : `Circular dependency: ${this.knownInputs(step).join(', ')}`);
+        }
+    }
+
+    // --------------------------------------------------------
+    // Graph Helpers
+    // --------------------------------------------------------
+    private pendingSteps(): PlanStep[] {
+        return this.steps.filter(s => !this.started.has(s.id) && !TERMINAL_STATUSES.includes(s.status));
+    }
+
+    private readySteps(): PlanStep[] {
+        return this.pendingSteps().filter(step =>
+            this.knownInputs(step).every(depId => this.find(depId)?.status === 'completed')
+        );
+    }
+
+    /**
+     * Skips pending steps whose dependencies failed or were skipped,
+     * repeating until the skip has propagated to every dependent.
+     */
+    private cascadeSkips() {
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const step of this.pendingSteps()) {
+                const unmetDeps = this.knownInputs(step).filter(depId => {
+                    const status = this.find(depId)?.status;
+                    return status === 'failed' || status === 'skipped';
+                });
+
+                if (unmetDeps.length > 0) {
+                    this.skip(step, this.options.signal?.aborted
+                        ? this.cancelReason()
+                        : `Unmet dependencies: ${unmetDeps.join(', ')}`);
+                    changed = true;
+                }
+            }
+        }
+    }
+
+    /**
+     * The reason the signal was aborted with (such as an exceeded budget),
+     * or the user.
+     */
+    private cancelReason(): string {
+        const reason = this.options.signal?.reason;
+        return typeof reason === 'string' ? reason : 'Cancelled by user';
+    }
+
+    private skip(step: PlanStep, reason: string) {
+        step.status = 'skipped';
+        step.error = reason;
+        this.options.onSkip?.(step, reason);
+    }
+
+    /**
+     * Dependencies on step IDs that do not exist in the plan are ignored.
+     */
+    private knownInputs(step: PlanStep): number[] {
+        return (step.inputs || []).filter(depId => depId !== step.id && this.find(depId) !== undefined);
+    }
+
+    private find(stepId: number): PlanStep | undefined {
+        return this.steps.find(s => s.id === stepId);
+    }
+}
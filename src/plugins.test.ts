@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Plugin, PluginHost, formatExtraContext } from './plugins';
+import { PlanResponse, PlanStep, SharedContext } from './types';
+
+function makeContext(): SharedContext {
+  return {
+    userRequest: 'Add caching',
+    plan: [],
+    currentStepId: 0,
+    workspaceFiles: new Map(),
+    executionLog: [],
+    clarifications: [],
+    extraContext: []
+  };
+}
+
+const step: PlanStep = {
+  id: 1,
+  action: 'edit',
+  target: 'src/cache.ts',
+  description: 'Add expiry',
+  assignedAgent: 'codex',
+  status: 'pending',
+  inputs: [],
+  outputs: []
+};
+
+describe('PluginHost.load', () => {
+  it('loads plugin objects and factories relative to the workspace', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'plugins-'));
+    try {
+      await fs.writeFile(path.join(dir, 'plain.js'), "module.exports = { name: 'plain' };");
+      await fs.writeFile(path.join(dir, 'factory.js'),
+        "exports.default = (options) => ({ name: 'factory-' + options.suffix });");
+
+      const host = PluginHost.load(dir, ['./plain.js', { path: './factory.js', options: { suffix: 'x' } }]);
+
+      expect(host.names).toEqual(['plain', 'factory-x']);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
+
+describe('PluginHost hooks', () => {
+  it('stops at the first veto and names the plugin', async () => {
+    const calls: string[] = [];
+    const host = new PluginHost([
+      { name: 'guard', beforeStep: (_hook, s) => { calls.push('guard'); return s.target.endsWith('.ts') ? { veto: 'no TypeScript' } : undefined; } },
+      { name: 'later', beforeStep: () => { calls.push('later'); } }
+    ]);
+
+    expect(await host.beforeStep(makeContext(), step)).toBe('guard: no TypeScript');
+    expect(calls).toEqual(['guard']);
+  });
+
+  it('treats a throwing veto hook as a veto but ignores failing notifications', async () => {
+    const failing: Plugin = {
+      name: 'broken',
+      onReview: () => { throw new Error('boom'); },
+      afterStep: () => { throw new Error('boom'); }
+    };
+    const host = new PluginHost([failing]);
+    const review = { approved: true, approvalRatio: 1, votes: [], issues: [] };
+
+    expect(await host.onReview(makeContext(), step, review)).toBe('broken: onReview hook failed (boom)');
+    await expect(host.afterStep(makeContext(), step)).resolves.toBeUndefined();
+  });
+
+  it('lets plugins edit the plan and add prompt context', async () => {
+    const context = makeContext();
+    const host = new PluginHost([{
+      name: 'conventions',
+      beforePlan: hook => hook.addContext('Use 4-space indentation.'),
+      afterPlan: (_hook, plan) => { plan.steps.forEach(s => s.description += ' (with tests)'); }
+    }]);
+    const planResponse = { steps: [{ ...step }] } as unknown as PlanResponse;
+
+    await host.beforePlan(context);
+    expect(await host.afterPlan(context, planResponse)).toBeNull();
+
+    expect(planResponse.steps[0].description).toBe('Add expiry (with tests)');
+    expect(formatExtraContext(context)).toBe('## Additional Context\nUse 4-space indentation.\n');
+    expect(formatExtraContext(makeContext())).toBe('');
+  });
+});
@@ -0,0 +1,170 @@
+// ============================================================
+// Plugins - Hooks Around the Run Lifecycle
+// Workspace plugins (listed under "plugins" in
+// ai-collab.config.json) can add context, change or veto plans
+// and steps, veto reviews and react to finished runs.
+// ============================================================
+
+import * as path from 'path';
+import { ExecutionSummary, PlanResponse, PlanStep, ReviewVerdict, SharedContext } from './types';
+
+export interface HookContext {
+    workspaceDir: string;
+    context: SharedContext;
+    /**
+     * Adds text to every later agent prompt of this run.
+     */
+    addContext(text: string): void;
+    log(message: string): void;
+}
+
+/**
+ * Returning { veto } from a hook that allows it stops what the hook
+ * guards: the plan is rejected, the step skipped or the review failed.
+ */
+export type HookResult = void | { veto: string };
+
+export interface Plugin {
+    name: string;
+    beforePlan?(hook: HookContext): void | Promise<void>;
+    afterPlan?(hook: HookContext, planResponse: PlanResponse): HookResult | Promise<HookResult>;
+    beforeStep?(hook: HookContext, step: PlanStep): HookResult | Promise<HookResult>;
+    afterStep?(hook: HookContext, step: PlanStep): void | Promise<void>;
+    onReview?(hook: HookContext, step: PlanStep, review: ReviewVerdict): HookResult | Promise<HookResult>;
+    onComplete?(hook: HookContext, summary: ExecutionSummary): void | Promise<void>;
+}
+
+/**
+ * A config entry: a module path relative to the workspace (or a package
+ * name), optionally with options for plugins that export a factory.
+ */
+export type PluginSpec = string | { path: string; options?: Record<string, unknown> };
+
+type VetoHook = 'afterPlan' | 'beforeStep' | 'onReview';
+type NotifyHook = 'beforePlan' | 'afterStep' | 'onComplete';
+
+export class PluginHost {
+    constructor(private plugins: Plugin[] = [], private workspaceDir: string = '') { }
+
+    /**
+     * Loads the plugins a workspace config lists. A module exports a
+     * plugin object or a function taking the entry's options and returning
+     * one, either as module.exports or as its default export.
+     */
+    public static load(workspaceDir: string, specs: PluginSpec[] = []): PluginHost {
+        const plugins = specs.map(spec => {
+            const modulePath = typeof spec === 'string' ? spec : spec.path;
+            const options = typeof spec === 'string' ? {} : spec.options || {};
+            const resolved = modulePath.startsWith('.') ? path.resolve(workspaceDir, modulePath) : modulePath;
+
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const loaded = require(resolved);
+            const exported = loaded?.default ?? loaded;
+            const plugin: Plugin = typeof exported === 'function' ? exported(options) : exported;
+            if (!plugin || typeof plugin !== 'object') {
+                throw new Error(`Plugin ${modulePath} does not export a plugin`);
+            }
+            plugin.name = plugin.name || path.basename(modulePath);
+            return plugin;
+        });
+
+        if (plugins.length > 0) {
+            console.log(`[Plugins] Loaded ${plugins.map(p => p.name).join(', ')}`);
+        }
+        return new PluginHost(plugins, workspaceDir);
+    }
+
+    public get names(): string[] {
+        return this.plugins.map(p => p.name);
+    }
+
+    public beforePlan(context: SharedContext): Promise<void> {
+        return this.notify('beforePlan', context, hook => [hook]);
+    }
+
+    /**
+     * Plugins may edit the plan's steps in place. Returns the veto reason,
+     * or null if every plugin let the plan through.
+     */
+    public afterPlan(context: SharedContext, planResponse: PlanResponse): Promise<string | null> {
+        return this.veto('afterPlan', context, hook => [hook, planResponse]);
+    }
+
+    public beforeStep(context: SharedContext, step: PlanStep): Promise<string | null> {
+        return this.veto('beforeStep', context, hook => [hook, step]);
+    }
+
+    public afterStep(context: SharedContext, step: PlanStep): Promise<void> {
+        return this.notify('afterStep', context, hook => [hook, step]);
+    }
+
+    public onReview(context: SharedContext, step: PlanStep, review: ReviewVerdict): Promise<string | null> {
+        return this.veto('onReview', context, hook => [hook, step, review]);
+    }
+
+    public onComplete(context: SharedContext, summary: ExecutionSummary): Promise<void> {
+        return this.notify('onComplete', context, hook => [hook, summary]);
+    }
+
+    // --------------------------------------------------------
+    // Dispatch
+    // --------------------------------------------------------
+    /**
+     * Runs a hook that can veto, in plugin order, stopping at the first
+     * veto. A plugin that throws vetoes too: a broken check must not pass.
+     */
+    private async veto(name: VetoHook, context: SharedContext, args: (hook: HookContext) => unknown[]): Promise<string | null> {
+        for (const plugin of this.plugins) {
+            const fn = plugin[name] as ((...a: unknown[]) => HookResult | Promise<HookResult>) | undefined;
+            if (!fn) continue;
+
+            try {
+                const result = await fn.apply(plugin, args(this.hookContext(plugin, context)));
+                if (result && typeof result.veto === 'string') {
+                    return `${plugin.name}: ${result.veto}`;
+                }
+            } catch (error) {
+                console.error(`[Plugins] ${plugin.name}.${name} failed:`, error);
+                return `${plugin.name}: ${name} hook failed (${error instanceof Error ? error.message : error})`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Runs a hook that only observes; failures are logged and ignored.
+     */
+    private async notify(name: NotifyHook, context: SharedContext, args: (hook: HookContext) => unknown[]): Promise<void> {
+        for (const plugin of this.plugins) {
+            const fn = plugin[name] as ((...a: unknown[]) => void | Promise<void>) | undefined;
+            if (!fn) continue;
+
+            try {
+                await fn.apply(plugin, args(this.hookContext(plugin, context)));
+            } catch (error) {
+                console.error(`[Plugins] ${plugin.name}.${name} failed:`, error);
+            }
+        }
+    }
+
+    private hookContext(plugin: Plugin, context: SharedContext): HookContext {
+        return {
+            workspaceDir: this.workspaceDir,
+            context,
+            addContext: text => context.extraContext.push(text),
+            log: message => console.log(`[Plugin ${plugin.name}] ${message}`)
+        };
+    }
+}
+
+/**
+ * Prompt section with the context plugins added, or "" when there is none.
+ */
+export function formatExtraContext(context: SharedContext): string {
+    if (context.extraContext.length === 0) {
+        return '';
+    }
+    return `## Additional Context
+${context.extraContext.join('\n\n')}
+`;
+}
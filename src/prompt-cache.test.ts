@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptCache, cacheKey, usePromptCache } from './prompt-cache';
+import { CLIManager, ModelConfig } from './cli-manager';
+
+describe('PromptCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-cache-'));
+  });
+
+  afterEach(async () => {
+    usePromptCache(null);
+    await fs.remove(dir);
+  });
+
+  it('answers a repeated deterministic request from disk, also after a restart', async () => {
+    let calls = 0;
+    const live = async () => `answer ${++calls}`;
+    const request = { model: 'qwen', prompt: 'Vote', temperature: 0 };
+
+    expect(await new PromptCache(dir).through(request, live)).toBe('answer 1');
+    const restarted = new PromptCache(dir);
+    expect(await restarted.through(request, live)).toBe('answer 1');
+    expect(await restarted.through({ ...request, prompt: 'Other' }, live)).toBe('answer 2');
+    expect(await restarted.stats()).toMatchObject({ hits: 1, misses: 1, writes: 1, entries: 2 });
+  });
+
+  it('skips unseeded requests above maxTemperature and keys on the seed', async () => {
+    const cache = new PromptCache(dir, { maxTemperature: 0.1 });
+
+    expect(cache.cacheable({ model: 'm', prompt: 'p', temperature: 0.8 })).toBe(false);
+    expect(cache.cacheable({ model: 'm', prompt: 'p', temperature: 0.8, seed: 7 })).toBe(true);
+    expect(cache.cacheable({ model: 'm', prompt: 'p', temperature: 0.1 })).toBe(true);
+    expect(cacheKey({ model: 'm', prompt: 'p', seed: 1 })).not.toBe(cacheKey({ model: 'm', prompt: 'p', seed: 2 }));
+  });
+
+  it('expires entries after their TTL and evicts the least recently used over the size limit', async () => {
+    const cache = new PromptCache(dir, { maxBytes: 800 });
+    await cache.set('expired', 'm', 'old', -1);
+    expect(await cache.get('expired')).toBeUndefined();
+
+    await cache.set('a', 'm', 'x'.repeat(200));
+    await cache.set('b', 'm', 'y'.repeat(200));
+    await new Promise(r => setTimeout(r, 5));
+    await cache.get('a');
+    await cache.set('c', 'm', 'z'.repeat(200));
+
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect((await cache.stats()).evictions).toBe(1);
+  });
+
+  it('sits under CLIManager.sendPrompt for agents that opt in', async () => {
+    usePromptCache(new PromptCache(dir));
+    const config: ModelConfig = {
+      name: 'planner',
+      command: 'node',
+      args: ['-e', '"console.log(Math.random())"'],
+      interactionMode: 'oneshot',
+      cache: {}
+    };
+    const manager = new CLIManager(dir);
+
+    const first = await manager.sendPrompt('planner', 'Plan it', config);
+    const chunks: string[] = [];
+    expect(await manager.sendPrompt('planner', 'Plan it', config, { onChunk: c => chunks.push(c) })).toBe(first);
+    expect(chunks).toEqual([first]);
+    expect(await manager.sendPrompt('planner', 'Plan it', { ...config, cache: undefined })).not.toBe(first);
+  });
+});
@@ -0,0 +1,282 @@
+// ============================================================
+// Prompt Cache - Content-Addressed Responses on Disk
+// Repeated prompts (re-reviews, re-plans of the same request) are
+// answered from disk instead of calling the agent or model again.
+// Entries are keyed by a hash of model, prompt, temperature and
+// seed, expire after a TTL and are evicted least-recently-used
+// once the cache outgrows its size limit.
+//
+//   AI_COLLAB_CACHE=.ai-collab/cache         cache directory (opt-in)
+//   AI_COLLAB_CACHE_TTL_MS=86400000          entry lifetime
+//   AI_COLLAB_CACHE_MAX_MB=100               size limit
+//   AI_COLLAB_CACHE_MAX_TEMPERATURE=0        hottest unseeded request cached
+// ============================================================
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface PromptCacheOptions {
+    ttlMs?: number;                     // Default 24 hours
+    maxBytes?: number;                  // Default 100 MB
+    /**
+     * Requests above this temperature vary from call to call and are not
+     * cached unless they carry a seed (default 0).
+     */
+    maxTemperature?: number;
+}
+
+/**
+ * Per-agent opt-in for CLIManager prompts. Only for agents without side
+ * effects: a cache hit never runs the agent.
+ */
+export interface AgentCacheOptions {
+    ttlMs?: number;                     // Overrides the cache's TTL
+}
+
+export interface CacheRequest {
+    model: string;
+    prompt: unknown;
+    temperature?: number;
+    seed?: number;
+    maxTokens?: number;
+}
+
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    writes: number;
+    evictions: number;
+    entries: number;
+    bytes: number;
+}
+
+interface CacheRecord {
+    key: string;
+    model: string;
+    createdAt: string;
+    expiresAt: number;
+    response: unknown;
+}
+
+interface IndexEntry {
+    file: string;
+    bytes: number;
+    usedAt: number;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+export function cacheKey(request: CacheRequest): string {
+    const { model, prompt, temperature, seed, maxTokens } = request;
+    return crypto.createHash('sha256')
+        .update(JSON.stringify({ model, prompt, temperature, seed, maxTokens }))
+        .digest('hex');
+}
+
+export class PromptCache {
+    private index: Map<string, IndexEntry> | null = null;
+    private indexing: Promise<Map<string, IndexEntry>> | null = null;
+    private counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+    constructor(public readonly dir: string, private options: PromptCacheOptions = {}) { }
+
+    /**
+     * Whether a request is deterministic enough to answer from the cache.
+     */
+    public cacheable(request: CacheRequest): boolean {
+        return request.seed !== undefined || (request.temperature ?? 0) <= (this.options.maxTemperature ?? 0);
+    }
+
+    /**
+     * Returns the cached response for `request`, or calls `live` and
+     * caches its result if `keep` accepts it. Failures are never cached.
+     */
+    public async through<T>(
+        request: CacheRequest,
+        live: () => Promise<T>,
+        options: { ttlMs?: number; keep?: (response: T) => boolean } = {}
+    ): Promise<T> {
+        if (!this.cacheable(request)) {
+            return live();
+        }
+        const key = cacheKey(request);
+        const cached = await this.get<T>(key);
+        if (cached !== undefined) {
+            console.log(`[PromptCache] Hit for ${request.model} (${key.slice(0, 12)})`);
+            return cached;
+        }
+        const response = await live();
+        if (!options.keep || options.keep(response)) {
+            await this.set(key, request.model, response, options.ttlMs);
+        }
+        return response;
+    }
+
+    public async get<T>(key: string): Promise<T | undefined> {
+        const index = await this.loadIndex();
+        const entry = index.get(key);
+        if (!entry) {
+            this.counters.misses++;
+            return undefined;
+        }
+
+        try {
+            const record: CacheRecord = await fs.readJson(entry.file);
+            if (record.expiresAt <= Date.now()) {
+                await this.remove(key);
+                this.counters.misses++;
+                return undefined;
+            }
+            // Reads count as use for LRU eviction, also across restarts
+            entry.usedAt = Date.now();
+            await fs.utimes(entry.file, new Date(), new Date()).catch(() => undefined);
+            this.counters.hits++;
+            return record.response as T;
+        } catch {
+            index.delete(key);
+            this.counters.misses++;
+            return undefined;
+        }
+    }
+
+    public async set(key: string, model: string, response: unknown, ttlMs?: number): Promise<void> {
+        const index = await this.loadIndex();
+        const record: CacheRecord = {
+            key,
+            model,
+            createdAt: new Date().toISOString(),
+            expiresAt: Date.now() + (ttlMs ?? this.options.ttlMs ?? DEFAULT_TTL_MS),
+            response
+        };
+        const json = JSON.stringify(record);
+        const file = this.fileFor(key);
+
+        try {
+            await fs.ensureDir(path.dirname(file));
+            const tmpFile = `${file}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+            await fs.writeFile(tmpFile, json, 'utf-8');
+            await fs.rename(tmpFile, file);
+        } catch (error) {
+            console.error(`[PromptCache] Failed to write ${file}:`, error);
+            return;
+        }
+        index.set(key, { file, bytes: Buffer.byteLength(json), usedAt: Date.now() });
+        this.counters.writes++;
+        await this.evict();
+    }
+
+    public async stats(): Promise<CacheStats> {
+        const index = await this.loadIndex();
+        let bytes = 0;
+        index.forEach(entry => bytes += entry.bytes);
+        return { ...this.counters, entries: index.size, bytes };
+    }
+
+    public async clear(): Promise<void> {
+        await fs.remove(this.dir);
+        this.index = new Map();
+    }
+
+    // --------------------------------------------------------
+    // Index and Eviction
+    // --------------------------------------------------------
+    private fileFor(key: string): string {
+        return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+    }
+
+    /**
+     * Scans the cache directory once; later changes are tracked in memory.
+     */
+    private loadIndex(): Promise<Map<string, IndexEntry>> {
+        if (this.index) {
+            return Promise.resolve(this.index);
+        }
+        if (!this.indexing) {
+            this.indexing = (async () => {
+                const index = new Map<string, IndexEntry>();
+                if (await fs.pathExists(this.dir)) {
+                    for (const shard of await fs.readdir(this.dir)) {
+                        const shardDir = path.join(this.dir, shard);
+                        if (!(await fs.stat(shardDir)).isDirectory()) {
+                            continue;
+                        }
+                        for (const name of await fs.readdir(shardDir)) {
+                            if (!name.endsWith('.json')) {
+                                continue;
+                            }
+                            const file = path.join(shardDir, name);
+                            const stat = await fs.stat(file);
+                            index.set(name.slice(0, -'.json'.length), { file, bytes: stat.size, usedAt: stat.mtimeMs });
+                        }
+                    }
+                }
+                this.index = index;
+                return index;
+            })();
+        }
+        return this.indexing;
+    }
+
+    private async evict() {
+        const index = await this.loadIndex();
+        const maxBytes = this.options.maxBytes ?? DEFAULT_MAX_BYTES;
+        let bytes = 0;
+        index.forEach(entry => bytes += entry.bytes);
+        if (bytes <= maxBytes) {
+            return;
+        }
+
+        const oldestFirst = [...index.entries()].sort((a, b) => a[1].usedAt - b[1].usedAt);
+        for (const [key, entry] of oldestFirst) {
+            if (bytes <= maxBytes) {
+                break;
+            }
+            await this.remove(key);
+            bytes -= entry.bytes;
+            this.counters.evictions++;
+        }
+    }
+
+    private async remove(key: string) {
+        const entry = this.index?.get(key);
+        if (entry) {
+            this.index!.delete(key);
+            await fs.remove(entry.file).catch(() => undefined);
+        }
+    }
+}
+
+// ------------------------------------------------------------
+// Process-Wide Cache
+// ------------------------------------------------------------
+let active: PromptCache | null | undefined;
+
+/**
+ * The cache shared by all agent and model calls, configured from the
+ * environment on first use. Null when caching is off.
+ */
+export function activePromptCache(): PromptCache | null {
+    if (active === undefined) {
+        const dir = process.env.AI_COLLAB_CACHE;
+        const number = (name: string) => process.env[name] ? Number(process.env[name]) : undefined;
+        const maxMb = number('AI_COLLAB_CACHE_MAX_MB');
+        active = dir ? new PromptCache(path.resolve(dir), {
+            ttlMs: number('AI_COLLAB_CACHE_TTL_MS'),
+            maxBytes: maxMb !== undefined ? maxMb * 1024 * 1024 : undefined,
+            maxTemperature: number('AI_COLLAB_CACHE_MAX_TEMPERATURE')
+        }) : null;
+        if (active) {
+            console.log(`[PromptCache] Caching responses in ${active.dir}`);
+        }
+    }
+    return active;
+}
+
+/**
+ * Replaces the process-wide cache (null turns caching off).
+ */
+export function usePromptCache(cache: PromptCache | null) {
+    active = cache;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, backoffDelay, badOutput, breakerFor, classifyError, withResilience } from './resilience';
+
+describe('classifyError', () => {
+  it('sorts failures into kinds', () => {
+    expect(classifyError(Object.assign(new Error('Request failed'), { status: 429 }))).toBe('rate-limit');
+    expect(classifyError(new Error('Command timed out after 120s with no output'))).toBe('timeout');
+    expect(classifyError(new Error('Failed to spawn claude: ENOENT'))).toBe('spawn');
+    expect(classifyError(new Error('Agent codex exited before sentinel (code=1, signal=null)'))).toBe('unavailable');
+    expect(classifyError(new Error('codex cancelled'))).toBe('cancelled');
+    expect(classifyError(badOutput('empty'))).toBe('bad-output');
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles the ceiling per attempt up to the cap', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(backoffDelay(1, options, () => 1)).toBe(100);
+    expect(backoffDelay(3, options, () => 1)).toBe(400);
+    expect(backoffDelay(10, options, () => 1)).toBe(1000);
+    expect(backoffDelay(3, options, () => 0.5)).toBe(200);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after the threshold and lets one trial call through after the reset time', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('agent:test', 2, 1000, () => now);
+
+    breaker.onFailure('timeout');
+    expect(breaker.allow()).toBe(true);
+    breaker.onFailure('timeout');
+    expect(breaker.allow()).toBe(false);
+
+    now = 1000;
+    expect(breaker.allow()).toBe(true);
+    expect(breaker.snapshot().state).toBe('half-open');
+    expect(breaker.allow()).toBe(false);
+    breaker.onFailure('timeout');
+    expect(breaker.snapshot().state).toBe('open');
+
+    now = 2000;
+    breaker.allow();
+    breaker.onSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+});
+
+describe('withResilience', () => {
+  it('retries transient failures', async () => {
+    let calls = 0;
+    const result = await withResilience('test:transient', async () => {
+      if (++calls < 3) {
+        throw new Error('socket hang up');
+      }
+      return 'ok';
+    }, { baseDelayMs: 1 });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry spawn failures and fails fast once the circuit is open', async () => {
+    let calls = 0;
+    const failing = () => withResilience('test:spawn', async () => {
+      calls++;
+      throw new Error('Failed to spawn missing-agent');
+    }, { breakerThreshold: 2 });
+
+    await expect(failing()).rejects.toThrow('Failed to spawn');
+    await expect(failing()).rejects.toThrow('Failed to spawn');
+    await expect(failing()).rejects.toThrow('Circuit open for test:spawn');
+    expect(calls).toBe(2);
+    expect(breakerFor('test:spawn').snapshot()).toMatchObject({ state: 'open', lastFailure: 'spawn' });
+  });
+
+  it('lets only one of several concurrent calls try a half-open circuit', async () => {
+    const failing = () => withResilience('test:half-open', async () => {
+      throw new Error('Failed to spawn flaky-agent');
+    }, { breakerThreshold: 1, breakerResetMs: 0 });
+    await expect(failing()).rejects.toThrow('Failed to spawn');
+
+    const pending: (() => void)[] = [];
+    const slow = () => withResilience('test:half-open', async () => {
+      await new Promise<void>(resolve => pending.push(resolve));
+      return 'ok';
+    }, { breakerThreshold: 1, breakerResetMs: 0 });
+
+    const trial = slow();
+    await expect(slow()).rejects.toThrow('Circuit open for test:half-open');
+    await expect(slow()).rejects.toThrow('Circuit open for test:half-open');
+    expect(pending).toHaveLength(1);
+    pending[0]();
+    expect(await trial).toBe('ok');
+    expect(breakerFor('test:half-open').snapshot().state).toBe('closed');
+
+    // Closed again, so concurrent calls all go through
+    const both = Promise.all([slow(), slow()]);
+    expect(pending).toHaveLength(3);
+    pending.forEach(resolve => resolve());
+    expect(await both).toEqual(['ok', 'ok']);
+  });
+});
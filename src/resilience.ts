@@ -0,0 +1,249 @@
+// ============================================================
+// Resilience - Retries, Backoff and Circuit Breakers
+// Agent CLIs and model APIs fail transiently. Calls are retried
+// with jittered exponential backoff, and a breaker per agent or
+// model stops calling a provider that keeps failing.
+// ============================================================
+
+export type FailureKind = 'timeout' | 'rate-limit' | 'unavailable' | 'spawn' | 'bad-output' | 'circuit-open' | 'cancelled' | 'other';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface RetryOptions {
+    attempts?: number;                  // Total tries, including the first (default 3)
+    baseDelayMs?: number;               // Default 500
+    maxDelayMs?: number;                // Default 10000
+    /**
+     * Consecutive failures that open the circuit (default 5), and how long
+     * it stays open before one trial call is let through (default 30000).
+     */
+    breakerThreshold?: number;
+    breakerResetMs?: number;
+}
+
+export interface ResilienceOptions extends RetryOptions {
+    signal?: AbortSignal;
+    /**
+     * Called before each retry, after the failed attempt.
+     */
+    onRetry?: (attempt: number, kind: FailureKind, error: unknown) => void;
+}
+
+export interface BreakerSnapshot {
+    key: string;
+    state: BreakerState;
+    failures: number;
+    lastFailure?: FailureKind;
+    openedAt?: string;
+}
+
+// Transient failures worth another try; spawn failures mean a missing or broken command
+const RETRYABLE: FailureKind[] = ['timeout', 'rate-limit', 'unavailable', 'bad-output'];
+
+// ------------------------------------------------------------
+// Classification
+// ------------------------------------------------------------
+/**
+ * Error for a response that arrived but can't be used.
+ */
+export function badOutput(message: string): Error {
+    const error = new Error(message);
+    (error as { kind?: FailureKind }).kind = 'bad-output';
+    return error;
+}
+
+export function classifyError(error: unknown): FailureKind {
+    const err = error as { kind?: FailureKind; status?: number; code?: string; name?: string; message?: string } | undefined;
+    if (err?.kind) {
+        return err.kind;
+    }
+    const message = (err?.message || String(error)).toLowerCase();
+
+    if (err?.name === 'AbortError' || /\bcancell?ed\b|aborted/.test(message)) return 'cancelled';
+    if (err?.status === 429 || /rate limit|too many requests|\b429\b|quota/.test(message)) return 'rate-limit';
+    if (err?.code === 'ETIMEDOUT' || err?.status === 408 || /timed? ?out/.test(message)) return 'timeout';
+    if (err?.code === 'ENOENT' || /failed to spawn|command not found|not running/.test(message)) return 'spawn';
+    if ((err?.status !== undefined && err.status >= 500)
+        || ['ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE'].includes(err?.code || '')
+        || /exited before|exited with code|no live workers|socket hang up|network|overloaded|unavailable/.test(message)) return 'unavailable';
+    return 'other';
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to
+ * baseDelayMs * 2^(attempt - 1), capped at maxDelayMs.
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}, random: () => number = Math.random): number {
+    const ceiling = Math.min(
+        (options.baseDelayMs ?? 500) * 2 ** (attempt - 1),
+        options.maxDelayMs ?? 10000
+    );
+    return Math.round(random() * ceiling);
+}
+
+// ------------------------------------------------------------
+// Circuit Breaker
+// ------------------------------------------------------------
+export class CircuitBreaker {
+    private state: BreakerState = 'closed';
+    private failures = 0;
+    private lastFailure?: FailureKind;
+    private openedAt = 0;
+    private trialInFlight = false;
+
+    constructor(
+        public readonly key: string,
+        private threshold: number = 5,
+        private resetMs: number = 30000,
+        private now: () => number = Date.now
+    ) { }
+
+    /**
+     * Whether a call may go ahead. An open breaker lets one trial call
+     * through once resetMs has passed; everyone else is refused until that
+     * call settles with onSuccess, onFailure or abandon.
+     */
+    public allow(): boolean {
+        if (this.state === 'open' && this.now() - this.openedAt >= this.resetMs) {
+            this.transition('half-open');
+        }
+        if (this.state === 'half-open') {
+            if (this.trialInFlight) {
+                return false;
+            }
+            this.trialInFlight = true;
+        }
+        return this.state !== 'open';
+    }
+
+    /**
+     * Settles a call that ended without telling anything about the
+     * provider, such as a cancelled one.
+     */
+    public abandon() {
+        this.trialInFlight = false;
+    }
+
+    public onSuccess() {
+        this.trialInFlight = false;
+        this.failures = 0;
+        if (this.state !== 'closed') {
+            this.transition('closed');
+        }
+    }
+
+    public onFailure(kind: FailureKind) {
+        this.trialInFlight = false;
+        this.failures++;
+        this.lastFailure = kind;
+        if (this.state === 'half-open' || this.failures >= this.threshold) {
+            this.openedAt = this.now();
+            this.transition('open');
+        }
+    }
+
+    public configure(threshold: number, resetMs: number) {
+        this.threshold = threshold;
+        this.resetMs = resetMs;
+    }
+
+    public snapshot(): BreakerSnapshot {
+        return {
+            key: this.key,
+            state: this.state,
+            failures: this.failures,
+            lastFailure: this.lastFailure,
+            openedAt: this.state === 'closed' ? undefined : new Date(this.openedAt).toISOString()
+        };
+    }
+
+    private transition(state: BreakerState) {
+        this.state = state;
+        console.log(`[Resilience] Circuit ${this.key} is ${state}`);
+        listeners.forEach(listener => listener(this.snapshot()));
+    }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+const listeners = new Set<(snapshot: BreakerSnapshot) => void>();
+
+export function breakerFor(key: string, options: RetryOptions = {}): CircuitBreaker {
+    let breaker = breakers.get(key);
+    if (!breaker) {
+        breaker = new CircuitBreaker(key);
+        breakers.set(key, breaker);
+    }
+    breaker.configure(options.breakerThreshold ?? 5, options.breakerResetMs ?? 30000);
+    return breaker;
+}
+
+export function breakerStates(): BreakerSnapshot[] {
+    return [...breakers.values()].map(b => b.snapshot());
+}
+
+/**
+ * Subscribes to breaker state changes; returns the unsubscribe function.
+ */
+export function onBreakerChange(listener: (snapshot: BreakerSnapshot) => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+// ------------------------------------------------------------
+// Resilient Call
+// ------------------------------------------------------------
+/**
+ * Runs `call` under the breaker for `key`, retrying transient failures with
+ * backoff. Cancellation is never retried or counted against the breaker.
+ */
+export async function withResilience<T>(
+    key: string,
+    call: (attempt: number) => Promise<T>,
+    options: ResilienceOptions = {}
+): Promise<T> {
+    const breaker = breakerFor(key, options);
+    const attempts = Math.max(1, options.attempts ?? 3);
+
+    for (let attempt = 1; ; attempt++) {
+        if (!breaker.allow()) {
+            const error = new Error(`Circuit open for ${key} after repeated failures`);
+            (error as { kind?: FailureKind }).kind = 'circuit-open';
+            throw error;
+        }
+
+        try {
+            const result = await call(attempt);
+            breaker.onSuccess();
+            return result;
+        } catch (error) {
+            const kind = options.signal?.aborted ? 'cancelled' : classifyError(error);
+            if (kind === 'cancelled') {
+                breaker.abandon();
+                throw error;
+            }
+            breaker.onFailure(kind);
+            if (!RETRYABLE.includes(kind) || attempt >= attempts) {
+                throw error;
+            }
+
+            const delay = backoffDelay(attempt, options);
+            console.warn(`[Resilience] ${key} failed (${kind}), retry ${attempt}/${attempts - 1} in ${delay}ms: ${error instanceof Error ? error.message : error}`);
+            options.onRetry?.(attempt, kind, error);
+            await sleep(delay, options.signal);
+        }
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Retry cancelled'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
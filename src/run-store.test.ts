@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RunStore } from './run-store';
+import { PlanResponse, PlanStep, SharedContext } from './types';
+
+function step(id: number, status: PlanStep['status'], error?: string): PlanStep {
+  return {
+    id,
+    action: 'edit',
+    target: `file${id}.ts`,
+    description: `Step ${id}`,
+    assignedAgent: 'codex',
+    status,
+    inputs: [],
+    outputs: [],
+    error
+  };
+}
+
+function context(planId: string, plan: PlanStep[]): SharedContext {
+  return {
+    userRequest: 'Add a feature',
+    plan,
+    planResponse: { planId, steps: plan } as PlanResponse,
+    currentStepId: 0,
+    workspaceFiles: new Map(),
+    executionLog: [],
+    clarifications: [],
+    extraContext: []
+  };
+}
+
+describe('RunStore', () => {
+  let dir: string;
+  let store: RunStore;
+  const runsDir = () => path.join(dir, '.ai-collab', 'runs');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-store-test-'));
+    store = new RunStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('saves a checkpoint and loads it back', async () => {
+    const ctx = context('plan-1', [step(1, 'completed'), step(2, 'pending')]);
+    await store.save(ctx, 'running');
+
+    const run = await store.load('plan-1');
+    expect(run).toMatchObject({ planId: 'plan-1', userRequest: 'Add a feature', status: 'running' });
+    expect(run!.plan.map(s => s.status)).toEqual(['completed', 'pending']);
+    expect(await fs.pathExists(store.eventsFileFor('plan-1'))).toBe(true);
+    expect(await store.load('missing')).toBeNull();
+  });
+
+  it('snapshots the context when save is called, not when the write runs', async () => {
+    const ctx = context('plan-1', [step(1, 'pending')]);
+    const saved = store.save(ctx, 'running');
+    ctx.plan[0].status = 'completed';
+    await saved;
+
+    expect((await store.load('plan-1'))!.plan[0].status).toBe('pending');
+  });
+
+  it('writes atomically and keeps the first createdAt across saves', async () => {
+    const ctx = context('plan-1', [step(1, 'pending')]);
+    await store.save(ctx, 'planned');
+    const createdAt = (await store.load('plan-1'))!.createdAt;
+
+    const statuses = ['running', 'failed', 'running', 'completed'] as const;
+    await Promise.all(statuses.map(status => store.save(ctx, status)));
+
+    const run = await store.load('plan-1');
+    expect(run!.status).toBe('completed');
+    expect(run!.createdAt).toBe(createdAt);
+    expect((await fs.readdir(runsDir())).filter(f => f.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('keeps unsafe planIds inside the runs directory', async () => {
+    const planId = '../../escape/plan 1';
+    await store.save(context(planId, [step(1, 'pending')]), 'running');
+
+    expect(await fs.readdir(runsDir())).toEqual(['______escape_plan_1.events.jsonl', '______escape_plan_1.json']);
+    expect(await fs.pathExists(path.join(dir, 'escape'))).toBe(false);
+    expect((await store.load(planId))!.planId).toBe(planId);
+    expect(store.eventsFileFor(planId).startsWith(runsDir())).toBe(true);
+  });
+
+  it('marks a single step or the whole run as rolled back', async () => {
+    await store.save(context('plan-1', [step(1, 'completed'), step(2, 'completed')]), 'completed');
+
+    await store.markRolledBack('plan-1', 2);
+    let run = await store.load('plan-1');
+    expect(run!.status).toBe('completed');
+    expect(run!.plan.map(s => [s.status, s.error])).toEqual([['completed', undefined], ['pending', 'Rolled back']]);
+    expect(run!.executionLog.at(-1)).toMatchObject({ type: 'run.rolled-back', stepId: 2 });
+
+    await store.markRolledBack('plan-1');
+    run = await store.load('plan-1');
+    expect(run!.status).toBe('rolled-back');
+    expect(run!.plan.every(s => s.status === 'pending')).toBe(true);
+    expect(run!.executionLog.filter(e => e.type === 'run.rolled-back')).toHaveLength(2);
+  });
+
+  it('lists runs most recently updated first', async () => {
+    await store.save(context('plan-a', [step(1, 'completed'), step(2, 'pending')]), 'failed');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await store.save(context('plan-b', [step(1, 'completed')]), 'completed');
+
+    const runs = await store.list();
+    expect(runs.map(r => [r.planId, r.completedSteps, r.totalSteps])).toEqual([['plan-b', 1, 1], ['plan-a', 1, 2]]);
+  });
+});
+
+describe('RunStore.prepareForResume', () => {
+  it('keeps completed steps and resets the rest to pending without errors', () => {
+    const plan = RunStore.prepareForResume([
+      step(1, 'completed'),
+      step(2, 'failed', 'Agent crashed'),
+      step(3, 'in-progress'),
+      step(4, 'skipped', 'Dependency failed'),
+      step(5, 'pending')
+    ]);
+
+    expect(plan.map(s => s.status)).toEqual(['completed', 'pending', 'pending', 'pending', 'pending']);
+    expect(plan.map(s => s.error)).toEqual([undefined, undefined, undefined, undefined, undefined]);
+  });
+
+  it('keeps the output of completed steps', () => {
+    const done = { ...step(1, 'completed'), output: 'wrote file1.ts' };
+    expect(RunStore.prepareForResume([done])[0].output).toBe('wrote file1.ts');
+  });
+});
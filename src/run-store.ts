@@ -0,0 +1,244 @@
+// ============================================================
+// RunStore - Checkpointing for Plan Runs
+// Persists each run (keyed by planId) so an interrupted
+// execution can be resumed where it stopped. The run's event
+// log is also exported next to it as <planId>.events.jsonl.
+// ============================================================
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Clarification, PlanResponse, PlanStep, RunEvent, SharedContext, UsageTotals } from './types';
+import { appendEvent, toJsonl } from './event-log';
+import { REPORT_EXTENSIONS, REPORT_FORMATS, ReportFormat, buildExecutionSummary, renderReport } from './execution-report';
+
+export type RunStatus = 'planned' | 'running' | 'completed' | 'failed' | 'rejected' | 'cancelled' | 'rolled-back';
+
+export interface RunCheckpoint {
+    planId: string;
+    userRequest: string;
+    status: RunStatus;
+    planResponse?: PlanResponse;
+    plan: PlanStep[];
+    executionLog: RunEvent[];
+    clarifications?: Clarification[];
+    extraContext?: string[];
+    usage?: UsageTotals;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface RunSummary {
+    planId: string;
+    userRequest: string;
+    status: RunStatus;
+    totalSteps: number;
+    completedSteps: number;
+    updatedAt: string;
+}
+
+export class RunStore {
+    private runsDir: string;
+    private reportsDir: string;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(workspaceDir: string) {
+        this.runsDir = path.join(workspaceDir, '.ai-collab', 'runs');
+        this.reportsDir = path.join(workspaceDir, '.ai-collab', 'reports');
+    }
+
+    /**
+     * Writes the current state of a run to disk. Writes are serialized and
+     * atomic (temp file + rename) so parallel step transitions never leave a
+     * half-written checkpoint behind.
+     */
+    public save(context: SharedContext, status: RunStatus): Promise<void> {
+        const planId = context.planResponse?.planId;
+        if (!planId) {
+            return Promise.resolve();
+        }
+
+        // Snapshot synchronously so later mutations don't leak into this write
+        const snapshot = JSON.parse(JSON.stringify({
+            planId,
+            userRequest: context.userRequest,
+            status,
+            planResponse: context.planResponse,
+            plan: context.plan,
+            executionLog: context.executionLog,
+            clarifications: context.clarifications,
+            extraContext: context.extraContext,
+            usage: context.usage
+        }));
+
+        this.writeQueue = this.writeQueue.then(async () => {
+            const file = this.fileFor(planId);
+            const existing = await this.load(planId);
+            const now = new Date().toISOString();
+            const checkpoint: RunCheckpoint = {
+                ...snapshot,
+                createdAt: existing?.createdAt || now,
+                updatedAt: now
+            };
+
+            await fs.ensureDir(this.runsDir);
+            await this.writeAtomic(file, JSON.stringify(checkpoint, null, 2));
+            await this.writeAtomic(this.eventsFileFor(planId), toJsonl(checkpoint.executionLog));
+        }).catch(error => {
+            console.error(`[RunStore] Failed to checkpoint ${planId}:`, error);
+        });
+
+        return this.writeQueue;
+    }
+
+    /**
+     * Records that a run's changes (or one step's) were undone. Rolled-back
+     * steps go back to pending so resuming the run redoes them.
+     */
+    public markRolledBack(planId: string, stepId?: number): Promise<void> {
+        this.writeQueue = this.writeQueue.then(async () => {
+            const run = await this.load(planId);
+            if (!run) {
+                return;
+            }
+
+            for (const step of run.plan) {
+                if (stepId === undefined || step.id === stepId) {
+                    step.status = 'pending';
+                    step.error = 'Rolled back';
+                }
+            }
+            if (stepId === undefined) {
+                run.status = 'rolled-back';
+            }
+            appendEvent(run.executionLog, {
+                type: 'run.rolled-back',
+                stepId,
+                message: stepId === undefined ? 'Run rolled back' : `Step ${stepId} rolled back`
+            });
+            run.updatedAt = new Date().toISOString();
+
+            await this.writeAtomic(this.fileFor(planId), JSON.stringify(run, null, 2));
+            await this.writeAtomic(this.eventsFileFor(planId), toJsonl(run.executionLog));
+        }).catch(error => {
+            console.error(`[RunStore] Failed to mark ${planId} as rolled back:`, error);
+        });
+
+        return this.writeQueue;
+    }
+
+    public async load(planId: string): Promise<RunCheckpoint | null> {
+        const file = this.fileFor(planId);
+        if (!await fs.pathExists(file)) {
+            return null;
+        }
+        try {
+            return await fs.readJson(file);
+        } catch (error) {
+            console.error(`[RunStore] Corrupt checkpoint ${file}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Path of the run's JSONL event export (one RunEvent per line).
+     */
+    public eventsFileFor(planId: string): string {
+        return path.join(this.runsDir, `${this.safeId(planId)}.events.jsonl`);
+    }
+
+    // --------------------------------------------------------
+    // Reports
+    // --------------------------------------------------------
+    /**
+     * Renders a stored run as an ExecutionSummary report, or null if there
+     * is no checkpoint for it.
+     */
+    public async renderReport(planId: string, format: ReportFormat): Promise<string | null> {
+        await this.writeQueue;
+        const run = await this.load(planId);
+        return run ? renderReport(buildExecutionSummary(run), format) : null;
+    }
+
+    /**
+     * Writes the run's report in every format to .ai-collab/reports and
+     * returns the files written.
+     */
+    public async writeReports(planId: string): Promise<string[]> {
+        await this.writeQueue;
+        const run = await this.load(planId);
+        if (!run) {
+            return [];
+        }
+
+        const summary = buildExecutionSummary(run);
+        await fs.ensureDir(this.reportsDir);
+        const files: string[] = [];
+        for (const format of REPORT_FORMATS) {
+            const file = this.reportFileFor(planId, format);
+            await this.writeAtomic(file, renderReport(summary, format));
+            files.push(file);
+        }
+        return files;
+    }
+
+    public reportFileFor(planId: string, format: ReportFormat): string {
+        return path.join(this.reportsDir, `${this.safeId(planId)}.${REPORT_EXTENSIONS[format]}`);
+    }
+
+    /**
+     * Lists stored runs, most recently updated first.
+     */
+    public async list(): Promise<RunSummary[]> {
+        if (!await fs.pathExists(this.runsDir)) {
+            return [];
+        }
+
+        const files = (await fs.readdir(this.runsDir)).filter(f => f.endsWith('.json'));
+        const summaries: RunSummary[] = [];
+
+        for (const file of files) {
+            const run = await this.load(path.basename(file, '.json'));
+            if (!run) continue;
+            summaries.push({
+                planId: run.planId,
+                userRequest: run.userRequest,
+                status: run.status,
+                totalSteps: run.plan.length,
+                completedSteps: run.plan.filter(s => s.status === 'completed').length,
+                updatedAt: run.updatedAt
+            });
+        }
+
+        return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    /**
+     * Resets a checkpointed plan so it can be executed again: completed steps
+     * are kept, everything else (failed, in-progress, skipped) goes back to
+     * pending.
+     */
+    public static prepareForResume(plan: PlanStep[]): PlanStep[] {
+        for (const step of plan) {
+            if (step.status !== 'completed') {
+                step.status = 'pending';
+                step.error = undefined;
+            }
+        }
+        return plan;
+    }
+
+    private async writeAtomic(file: string, content: string) {
+        const tmpFile = `${file}.tmp`;
+        await fs.writeFile(tmpFile, content, 'utf-8');
+        await fs.rename(tmpFile, file);
+    }
+
+    private fileFor(planId: string): string {
+        return path.join(this.runsDir, `${this.safeId(planId)}.json`);
+    }
+
+    private safeId(planId: string): string {
+        // planIds come from the planner, but never trust them as paths
+        return planId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    }
+}
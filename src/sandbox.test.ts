@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { agentSpawnSpec } from './sandbox';
+import { ModelConfig } from './cli-manager';
+
+const workspace = os.tmpdir();
+const env = { PATH: '/usr/bin', HOME: '/home/dev', ANTHROPIC_API_KEY: 'sk-1', AWS_SECRET_ACCESS_KEY: 'nope' };
+const noTools = { prlimit: false, bwrap: false };
+
+function makeConfig(overrides: Partial<ModelConfig> = {}): ModelConfig {
+  return {
+    name: 'opus',
+    command: 'claude',
+    args: ['--dangerously-skip-permissions', '-p'],
+    interactionMode: 'oneshot',
+    ...overrides
+  };
+}
+
+describe('agentSpawnSpec', () => {
+  it('keeps the plain shell spawn for agents without a sandbox', () => {
+    const spec = agentSpawnSpec(makeConfig(), workspace, env, noTools);
+
+    expect(spec.command).toBe('claude');
+    expect(spec.options).toMatchObject({ cwd: workspace, shell: true });
+    expect(spec.options.env).toBeUndefined();
+  });
+
+  it('runs sandboxed agents without a shell and with only allowlisted variables', () => {
+    const spec = agentSpawnSpec(makeConfig({ sandbox: { env: ['ANTHROPIC_*'] } }), workspace, env, noTools);
+
+    expect(spec.options.shell).toBe(false);
+    expect(spec.options.env).toEqual({ PATH: '/usr/bin', HOME: '/home/dev', ANTHROPIC_API_KEY: 'sk-1' });
+    expect(spec.args).toEqual(['--dangerously-skip-permissions', '-p']);
+  });
+
+  it('drops permission bypass flags and wraps read-only agents in bwrap and prlimit', () => {
+    const config = makeConfig({ sandbox: { readOnly: true, cpuSeconds: 60, memoryMb: 512 } });
+    const spec = agentSpawnSpec(config, workspace, env, { prlimit: true, bwrap: true });
+
+    expect(spec.command).toBe('prlimit');
+    expect(spec.args.slice(0, 4)).toEqual(['--cpu=60', `--as=${512 * 1024 * 1024}`, '--', 'bwrap']);
+    expect(spec.args.join(' ')).toContain(`--ro-bind ${workspace} ${workspace}`);
+    expect(spec.args.slice(-3)).toEqual(['--', 'claude', '-p']);
+  });
+
+  it('refuses a working directory outside the workspace', () => {
+    const config = makeConfig({ sandbox: { cwd: path.join('..', '..') } });
+
+    expect(() => agentSpawnSpec(config, path.join(workspace, 'project'), env, noTools)).toThrow('outside the workspace');
+  });
+});
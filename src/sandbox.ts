@@ -0,0 +1,189 @@
+// ============================================================
+// Sandbox - Hardened Spawning of Agent Commands
+// Agents with a "sandbox" block in agents.config.json run without a
+// shell, with an allowlisted environment, a working directory inside
+// the workspace, resource limits and optionally a read-only view of
+// the workspace.
+// ============================================================
+
+import { spawn, ChildProcess, SpawnOptions } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ModelConfig } from './cli-manager';
+
+export interface SandboxOptions {
+    /**
+     * Environment variables passed to the agent. A trailing "*" matches a
+     * prefix ("ANTHROPIC_*"). BASE_ENV is always passed.
+     */
+    env?: string[];
+    /**
+     * Working directory relative to the workspace; must stay inside it.
+     */
+    cwd?: string;
+    cpuSeconds?: number;                // CPU time limit (needs prlimit)
+    memoryMb?: number;                  // Address space limit (needs prlimit)
+    /**
+     * Wall-clock limit on the process's lifetime; the process is killed
+     * when it runs out.
+     */
+    timeLimitMs?: number;
+    /**
+     * Drops permission-bypass flags and, where bubblewrap is installed,
+     * mounts the workspace read-only. Meant for planner and reviewer agents.
+     */
+    readOnly?: boolean;
+}
+
+export interface SpawnSpec {
+    command: string;
+    args: string[];
+    options: SpawnOptions;
+}
+
+/**
+ * Host tools the sandbox can use to enforce limits.
+ */
+export interface SandboxTools {
+    prlimit: boolean;
+    bwrap: boolean;
+}
+
+export const BASE_ENV = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'SYSTEMROOT'];
+
+// Flags that let an agent write without asking; never passed to read-only agents
+const PERMISSION_BYPASS_ARGS = ['--dangerously-skip-permissions'];
+
+/**
+ * How to spawn an agent's command. Unsandboxed agents keep the old
+ * behaviour (shell, full environment, workspace root).
+ */
+export function agentSpawnSpec(
+    config: ModelConfig,
+    workspaceDir: string,
+    env: NodeJS.ProcessEnv = process.env,
+    tools: SandboxTools = detectTools()
+): SpawnSpec {
+    const sandbox = config.sandbox;
+    if (!sandbox) {
+        return {
+            command: config.command,
+            args: config.args,
+            options: { cwd: workspaceDir, stdio: ['pipe', 'pipe', 'pipe'], shell: true }
+        };
+    }
+
+    const cwd = confinedCwd(workspaceDir, sandbox.cwd);
+    let command = config.command;
+    let args = sandbox.readOnly
+        ? config.args.filter(arg => !PERMISSION_BYPASS_ARGS.includes(arg))
+        : [...config.args];
+
+    if (sandbox.readOnly && tools.bwrap) {
+        const home = env.HOME;
+        args = [
+            '--ro-bind', '/', '/',
+            '--dev', '/dev',
+            '--proc', '/proc',
+            '--tmpfs', '/tmp',
+            // Agents keep their own config and session files under HOME
+            ...(home ? ['--bind', home, home] : []),
+            '--ro-bind', workspaceDir, workspaceDir,
+            '--die-with-parent',
+            '--chdir', cwd,
+            '--', command, ...args
+        ];
+        command = 'bwrap';
+    }
+
+    const limits = [
+        ...(sandbox.cpuSeconds ? [`--cpu=${sandbox.cpuSeconds}`] : []),
+        ...(sandbox.memoryMb ? [`--as=${sandbox.memoryMb * 1024 * 1024}`] : [])
+    ];
+    if (limits.length > 0 && tools.prlimit) {
+        args = [...limits, '--', command, ...args];
+        command = 'prlimit';
+    }
+
+    return {
+        command,
+        args,
+        options: { cwd, env: allowedEnv(env, sandbox.env), stdio: ['pipe', 'pipe', 'pipe'], shell: false }
+    };
+}
+
+/**
+ * Spawns an agent's command, sandboxed if its config asks for it.
+ */
+export function spawnAgent(config: ModelConfig, workspaceDir: string): ChildProcess {
+    const tools = detectTools();
+    warnUnenforced(config, tools);
+
+    const spec = agentSpawnSpec(config, workspaceDir, process.env, tools);
+    const child = spawn(spec.command, spec.args, spec.options);
+
+    const limit = config.sandbox?.timeLimitMs;
+    if (limit) {
+        const timer = setTimeout(() => {
+            console.warn(`[Sandbox] ${config.name} exceeded its ${limit / 1000}s time limit, killing PID ${child.pid}`);
+            child.kill('SIGKILL');
+        }, limit);
+        timer.unref();
+        child.once('exit', () => clearTimeout(timer));
+    }
+    return child;
+}
+
+// ------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------
+function confinedCwd(workspaceDir: string, cwd?: string): string {
+    const resolved = path.resolve(workspaceDir, cwd || '.');
+    const real = fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved;
+    const root = fs.existsSync(workspaceDir) ? fs.realpathSync(workspaceDir) : path.resolve(workspaceDir);
+    const relative = path.relative(root, real);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new Error(`Sandbox cwd ${cwd} is outside the workspace`);
+    }
+    return resolved;
+}
+
+function allowedEnv(env: NodeJS.ProcessEnv, allow: string[] = []): NodeJS.ProcessEnv {
+    const patterns = [...BASE_ENV, ...allow];
+    const allowed: NodeJS.ProcessEnv = {};
+    for (const [key, value] of Object.entries(env)) {
+        const match = patterns.some(p => p.endsWith('*') ? key.startsWith(p.slice(0, -1)) : key === p);
+        if (match && value !== undefined) {
+            allowed[key] = value;
+        }
+    }
+    return allowed;
+}
+
+let cachedTools: SandboxTools | null = null;
+
+function detectTools(): SandboxTools {
+    if (!cachedTools) {
+        const onPath = (command: string) => process.platform === 'linux' &&
+            (process.env.PATH || '').split(path.delimiter).filter(Boolean)
+                .some(dir => fs.existsSync(path.join(dir, command)));
+        cachedTools = { prlimit: onPath('prlimit'), bwrap: onPath('bwrap') };
+    }
+    return cachedTools;
+}
+
+const warned = new Set<string>();
+
+function warnUnenforced(config: ModelConfig, tools: SandboxTools) {
+    const sandbox = config.sandbox;
+    if (!sandbox || warned.has(config.name)) {
+        return;
+    }
+    warned.add(config.name);
+    if ((sandbox.cpuSeconds || sandbox.memoryMb) && !tools.prlimit) {
+        console.warn(`[Sandbox] prlimit not found; CPU and memory limits for ${config.name} are not enforced`);
+    }
+    if (sandbox.readOnly && !tools.bwrap) {
+        console.warn(`[Sandbox] bwrap not found; ${config.name} runs without permission-bypass flags but the workspace stays writable`);
+    }
+}
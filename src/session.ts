@@ -0,0 +1,96 @@
+// ============================================================
+// Orchestrator Sessions - Per-Client Run State
+// ============================================================
+
+import * as crypto from 'crypto';
+import { ClarifyingQuestion, SharedContext } from './types';
+import { PluginHost } from './plugins';
+import { UsageMeter } from './usage';
+
+export const DEFAULT_SESSION_ID = 'default';
+
+/**
+ * Questions waiting for the user, keyed by request id ("plan" or
+ * "step-<id>"); `resolve` takes answers keyed by question id.
+ */
+export interface PendingClarification {
+    questions: ClarifyingQuestion[];
+    resolve: (answers: Record<string, string>) => void;
+}
+
+/**
+ * Everything one run needs that must not leak into another: the shared
+ * context, the approval and clarification handshakes, the workspace's
+ * plugins, the usage meter and the cancellation signal.
+ */
+export interface Session {
+    id: string;
+    context: SharedContext;
+    running: boolean;
+    pendingApproval: boolean;
+    approvalResolver: ((approved: boolean) => void) | null;
+    stepApprovals: Map<number, (approved: boolean) => void>;
+    clarifications: Map<string, PendingClarification>;
+    plugins: PluginHost;
+    usage: UsageMeter | null;          // Set while a run is active
+    abortController: AbortController;
+    createdAt: number;
+}
+
+export interface SessionInfo {
+    sessionId: string;
+    userRequest: string;
+    planId?: string;
+    running: boolean;
+    pendingApproval: boolean;
+    totalSteps: number;
+    completedSteps: number;
+    createdAt: string;
+}
+
+export function createSession(id: string = crypto.randomUUID()): Session {
+    return {
+        id,
+        context: {
+            userRequest: "",
+            plan: [],
+            currentStepId: 0,
+            workspaceFiles: new Map(),
+            executionLog: [],
+            clarifications: [],
+            extraContext: []
+        },
+        running: false,
+        pendingApproval: false,
+        approvalResolver: null,
+        stepApprovals: new Map(),
+        clarifications: new Map(),
+        plugins: new PluginHost(),
+        usage: null,
+        abortController: new AbortController(),
+        createdAt: Date.now()
+    };
+}
+
+/**
+ * Why the session's run was cancelled: the reason it was aborted with
+ * (such as an exceeded budget), or the user.
+ */
+export function cancelReason(session: Session): string {
+    const reason = session.abortController.signal.reason;
+    return typeof reason === 'string' ? reason : 'Cancelled by user';
+}
+
+export function describeSession(session: Session): SessionInfo {
+    const { context } = session;
+    return {
+        sessionId: session.id,
+        userRequest: context.userRequest,
+        planId: context.planResponse?.planId,
+        running: session.running,
+        pendingApproval: session.pendingApproval,
+        totalSteps: context.plan.length,
+        completedSteps: context.plan.filter(s => s.status === 'completed').length,
+        createdAt: new Date(session.createdAt).toISOString()
+    };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { matchGlob, resolveStepPolicy, stepApprovalReasons, DEFAULT_STEP_POLICY } from './step-policy';
+import { PlanStep, PlanResponse } from './types';
+
+function makeStep(overrides: Partial<PlanStep> = {}): PlanStep {
+  return {
+    id: 1,
+    action: 'edit',
+    target: 'src/index.ts',
+    description: 'Add a greeting',
+    assignedAgent: 'codex',
+    status: 'pending',
+    inputs: [],
+    outputs: [],
+    ...overrides
+  };
+}
+
+describe('matchGlob', () => {
+  it('should match single-segment wildcards', () => {
+    expect(matchGlob('src/*.ts', 'src/index.ts')).toBe(true);
+    expect(matchGlob('src/*.ts', 'src/agents/reviewer.ts')).toBe(false);
+  });
+
+  it('should match across directories with **', () => {
+    expect(matchGlob('src/**/*.ts', 'src/index.ts')).toBe(true);
+    expect(matchGlob('src/**/*.ts', 'src/agents/reviewer.ts')).toBe(true);
+    expect(matchGlob('migrations/**', 'migrations/2024/001.sql')).toBe(true);
+  });
+
+  it('should match file names anywhere when the pattern has no slash', () => {
+    expect(matchGlob('*.env', 'config/prod.env')).toBe(true);
+    expect(matchGlob('package.json', 'frontend/package.json')).toBe(true);
+  });
+
+  it('should normalize leading ./ and backslashes', () => {
+    expect(matchGlob('src/*.ts', './src/index.ts')).toBe(true);
+    expect(matchGlob('src/**', 'src\\agents\\x.ts')).toBe(true);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(matchGlob('a+b.ts', 'a+b.ts')).toBe(true);
+    expect(matchGlob('a+b.ts', 'aab.ts')).toBe(false);
+    expect(matchGlob('file?.ts', 'file1.ts')).toBe(true);
+  });
+});
+
+describe('stepApprovalReasons', () => {
+  it('should let ordinary steps through with the default policy', () => {
+    expect(stepApprovalReasons(makeStep(), DEFAULT_STEP_POLICY)).toEqual([]);
+  });
+
+  it('should require approval for execute steps by default', () => {
+    expect(stepApprovalReasons(makeStep({ action: 'execute', description: 'Run the migrations' }), DEFAULT_STEP_POLICY))
+      .toEqual(['Action "execute" requires approval']);
+  });
+
+  it('should flag destructive keywords as whole words', () => {
+    const policy = DEFAULT_STEP_POLICY;
+    expect(stepApprovalReasons(makeStep({ description: 'Delete the old cache' }), policy)).toHaveLength(1);
+    expect(stepApprovalReasons(makeStep({ description: 'Remove unused imports' }), policy)).toHaveLength(1);
+    expect(stepApprovalReasons(makeStep({ description: 'Add undelete support' }), policy)).toEqual([]);
+  });
+
+  it('should flag configured actions and protected paths', () => {
+    const policy = resolveStepPolicy({ actions: ['execute'], paths: ['**/*.sql'] });
+    const reasons = stepApprovalReasons(makeStep({ action: 'execute', target: 'db/migrate.sql' }), policy);
+
+    expect(reasons).toHaveLength(2);
+    expect(reasons[1]).toContain('**/*.sql');
+  });
+
+  it('should flag steps affected by high-severity risks', () => {
+    const planResponse = {
+      risks: [
+        { severity: 'critical', category: 'data-loss', description: 'Drops a table', mitigation: '', affectedSteps: [1] },
+        { severity: 'low', category: 'other', description: 'Minor', mitigation: '', affectedSteps: [1] }
+      ]
+    } as unknown as PlanResponse;
+
+    const reasons = stepApprovalReasons(makeStep(), DEFAULT_STEP_POLICY, planResponse);
+    expect(reasons).toEqual(['critical risk: Drops a table']);
+    expect(stepApprovalReasons(makeStep({ id: 2 }), DEFAULT_STEP_POLICY, planResponse)).toEqual([]);
+  });
+});
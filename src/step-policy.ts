@@ -0,0 +1,125 @@
+// ============================================================
+// Step Approval Policy - Which Steps Pause Before They Run
+// ============================================================
+
+import { PlanStep, PlanResponse, Risk } from './types';
+
+export interface StepApprovalPolicy {
+    /**
+     * PlanStep actions that always need approval (e.g. "execute").
+     */
+    actions: PlanStep['action'][];
+    /**
+     * Words in a step's description that mark it as destructive.
+     */
+    keywords: string[];
+    /**
+     * Globs matched against step targets, relative to the workspace.
+     * Supports `*`, `**` and `?`; a pattern without `/` matches file names
+     * in any directory.
+     */
+    paths: string[];
+    /**
+     * Steps listed in Risk.affectedSteps of a risk with one of these
+     * severities need approval.
+     */
+    riskSeverities: Risk['severity'][];
+}
+
+/**
+ * Running commands needs approval by default; deletions are caught by
+ * the keywords, since there is no delete action.
+ */
+export const DEFAULT_STEP_POLICY: StepApprovalPolicy = {
+    actions: ['execute'],
+    keywords: ['delete', 'remove', 'drop', 'rm -rf'],
+    paths: [],
+    riskSeverities: ['high', 'critical']
+};
+
+export function resolveStepPolicy(overrides?: Partial<StepApprovalPolicy>): StepApprovalPolicy {
+    return { ...DEFAULT_STEP_POLICY, ...overrides };
+}
+
+/**
+ * Returns why a step must be approved before it runs, or an empty list if
+ * it may run straight away.
+ */
+export function stepApprovalReasons(
+    step: PlanStep,
+    policy: StepApprovalPolicy,
+    planResponse?: PlanResponse
+): string[] {
+    const reasons: string[] = [];
+
+    if (policy.actions.includes(step.action)) {
+        reasons.push(`Action "${step.action}" requires approval`);
+    }
+
+    const description = step.description.toLowerCase();
+    const keyword = policy.keywords.find(k => containsWord(description, k.toLowerCase()));
+    if (keyword) {
+        reasons.push(`Destructive operation ("${keyword}")`);
+    }
+
+    const glob = policy.paths.find(p => matchGlob(p, step.target));
+    if (glob) {
+        reasons.push(`Target ${step.target} matches protected path ${glob}`);
+    }
+
+    const risks = (planResponse?.risks || []).filter(r =>
+        policy.riskSeverities.includes(r.severity) && r.affectedSteps.includes(step.id)
+    );
+    for (const risk of risks) {
+        reasons.push(`${risk.severity} risk: ${risk.description}`);
+    }
+
+    return reasons;
+}
+
+function containsWord(text: string, word: string): boolean {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|\\W)${escaped}($|\\W)`).test(text);
+}
+
+// ------------------------------------------------------------
+// Glob Matching
+// ------------------------------------------------------------
+export function matchGlob(pattern: string, filePath: string): boolean {
+    const target = normalizePath(filePath);
+    const glob = normalizePath(pattern);
+
+    if (!glob.includes('/')) {
+        const base = target.split('/').pop() || target;
+        return globToRegExp(glob).test(base);
+    }
+    return globToRegExp(glob).test(target);
+}
+
+function normalizePath(p: string): string {
+    return p.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            // "**/" matches zero or more directories, a trailing "**" anything
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (ch === '*') {
+            source += '[^/]*';
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else {
+            source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
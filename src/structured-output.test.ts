@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { JsonSchema, extractJson, jsonObjects, requestStructured, validateSchema } from './structured-output';
+import { classifyError } from './resilience';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['vote', 'confidence'],
+  properties: {
+    vote: { type: 'string', enum: ['APPROVE', 'REJECT'] },
+    confidence: { type: 'number', minimum: 0, maximum: 100 },
+    tags: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+describe('validateSchema', () => {
+  it('reports each problem with its path', () => {
+    expect(validateSchema({ vote: 'MAYBE', confidence: 140, tags: ['ok', 3] }, schema)).toEqual([
+      '$.vote: must be one of "APPROVE", "REJECT", got "MAYBE"',
+      '$.confidence: must be <= 100',
+      '$.tags[1]: expected string, got number'
+    ]);
+    expect(validateSchema({ vote: 'APPROVE' }, schema)).toEqual(['$.confidence: is required']);
+    expect(validateSchema({ vote: 'REJECT', confidence: 80 }, schema)).toEqual([]);
+  });
+});
+
+describe('extractJson', () => {
+  it('finds JSON in fences, surrounding prose and truncated replies', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: {"a": {"b": "}"}} Thanks!')).toEqual({ a: { b: '}' } });
+    expect(extractJson('{"steps": [{"id": 1, "target": "src/a.ts"')).toEqual({ steps: [{ id: 1, target: 'src/a.ts' }] });
+    expect(() => extractJson('no json here')).toThrow('No JSON found');
+  });
+
+  it('lists every balanced object in the text', () => {
+    expect(jsonObjects('first {"a": 1} then {"b": [2]} and {not json}')).toEqual([{ a: 1 }, { b: [2] }]);
+  });
+});
+
+describe('requestStructured', () => {
+  it('re-asks with the validation errors until the reply matches', async () => {
+    const prompts: string[] = [];
+    const replies = ['VOTE: APPROVE 90%', '{"vote": "approve", "confidence": 90}', '{"vote": "APPROVE", "confidence": 90}'];
+    const result = await requestStructured(async prompt => {
+      prompts.push(prompt);
+      return replies[prompts.length - 1];
+    }, 'Vote now', { schema });
+
+    expect(result).toEqual({ vote: 'APPROVE', confidence: 90 });
+    expect(prompts).toHaveLength(3);
+    expect(prompts[1]).toContain('reply is not valid JSON');
+    expect(prompts[2]).toContain('$.vote: must be one of');
+    expect(prompts[2]).toContain('Vote now');
+  });
+
+  it('re-asks with the problems found by check on replies that match the schema', async () => {
+    const prompts: string[] = [];
+    const replies = ['{"vote": "APPROVE", "confidence": 20}', '{"vote": "APPROVE", "confidence": 90}'];
+    const check = (reply: { confidence: number }) => reply.confidence < 50 ? ['$.confidence: too unsure to approve'] : [];
+    const result = await requestStructured(async prompt => {
+      prompts.push(prompt);
+      return replies[prompts.length - 1];
+    }, 'Vote now', { schema, check });
+
+    expect(result).toEqual({ vote: 'APPROVE', confidence: 90 });
+    expect(prompts[1]).toContain('- $.confidence: too unsure to approve');
+  });
+
+  it('gives up with a bad-output error after maxReasks', async () => {
+    const reply = requestStructured(async () => '{}', 'Vote now', { schema, maxReasks: 1, label: 'Vote' });
+
+    await expect(reply).rejects.toThrow('Vote reply did not match the schema after 1 re-ask(s)');
+    await reply.catch(error => expect(classifyError(error)).toBe('bad-output'));
+  });
+});
@@ -0,0 +1,260 @@
+// ============================================================
+// Structured Output - Schema-Validated JSON Replies
+// Extracts JSON from a model reply, validates it against a JSON
+// schema and, when it doesn't match, re-asks the model with the
+// validation errors until it does.
+// ============================================================
+
+import { badOutput } from './resilience';
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * The subset of JSON Schema the validator understands.
+ */
+export interface JsonSchema {
+    type?: JsonType | JsonType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: unknown[];
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+}
+
+export type StructuredResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+export interface StructuredRequest<T = unknown> {
+    schema: JsonSchema;
+    /**
+     * Checks the schema can't express (such as unique ids), run on replies
+     * that match it. Problems are re-asked like schema errors.
+     */
+    check?: (value: T) => string[];
+    /**
+     * How many corrective prompts to send after an invalid reply (default 2).
+     */
+    maxReasks?: number;
+    label?: string;                     // Names the reply in logs and errors
+}
+
+// ------------------------------------------------------------
+// Validation
+// ------------------------------------------------------------
+/**
+ * Validates `value` against `schema`. Returns one message per problem,
+ * each prefixed with the JSON path it applies to; empty means valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, at: string = '$'): string[] {
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return [`${at}: expected ${types.join(' or ')}, got ${describe(value)}`];
+        }
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`];
+    }
+
+    const errors: string[] = [];
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+    if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${at}: must have at least ${schema.minLength} character(s)`);
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at}: must have at least ${schema.minItems} item(s)`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at}: must have at most ${schema.maxItems} item(s)`);
+        if (schema.items) {
+            value.forEach((item, idx) => errors.push(...validateSchema(item, schema.items!, `${at}[${idx}]`)));
+        }
+    }
+    if (isObject(value)) {
+        for (const key of schema.required || []) {
+            if (value[key] === undefined) {
+                errors.push(`${at}.${key}: is required`);
+            }
+        }
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+            if (value[key] !== undefined) {
+                errors.push(...validateSchema(value[key], property, `${at}.${key}`));
+            }
+        }
+    }
+    return errors;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+    switch (type) {
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'array': return Array.isArray(value);
+        case 'object': return isObject(value);
+        case 'null': return value === null;
+        default: return typeof value === type;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
+
+// ------------------------------------------------------------
+// JSON Extraction
+// ------------------------------------------------------------
+/**
+ * Pulls a JSON value out of a model reply: the whole reply, a fenced
+ * block, the first complete object, or a truncated object with its
+ * brackets closed. Throws if none of them parse.
+ */
+export function extractJson(text: string): unknown {
+    const cleaned = text.trim();
+    const candidates = [
+        cleaned,
+        cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/)?.[1],
+        jsonObjects(cleaned)[0],
+        closeTruncated(cleaned)
+    ];
+
+    for (const candidate of candidates) {
+        if (candidate === undefined) {
+            continue;
+        }
+        try {
+            return typeof candidate === 'string' ? JSON.parse(candidate) : candidate;
+        } catch {
+            // Try the next candidate
+        }
+    }
+    throw new Error('No JSON found in reply');
+}
+
+/**
+ * Every balanced top-level {...} in the text that parses as JSON.
+ */
+export function jsonObjects(text: string): Record<string, unknown>[] {
+    const objects: Record<string, unknown>[] = [];
+    let depth = 0;
+    let start = -1;
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"' && depth > 0) {
+            inString = true;
+        } else if (ch === '{') {
+            if (depth++ === 0) start = i;
+        } else if (ch === '}' && depth > 0 && --depth === 0) {
+            try {
+                objects.push(JSON.parse(text.slice(start, i + 1)));
+            } catch {
+                // Braces that only look like JSON
+            }
+        }
+    }
+    return objects;
+}
+
+/**
+ * Closes the strings, arrays and objects left open by a reply that was
+ * cut off mid-object.
+ */
+function closeTruncated(text: string): string | undefined {
+    const start = text.indexOf('{');
+    if (start === -1) {
+        return undefined;
+    }
+    const json = text.slice(start);
+    const open: string[] = [];
+    let inString = false;
+
+    for (let i = 0; i < json.length; i++) {
+        const ch = json[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            open.push(ch === '{' ? '}' : ']');
+        } else if (ch === '}' || ch === ']') {
+            open.pop();
+        }
+    }
+    if (open.length === 0) {
+        return undefined;
+    }
+    const body = (inString ? json + '"' : json).replace(/[,:]\s*$/, '');
+    return body + open.reverse().join('');
+}
+
+// ------------------------------------------------------------
+// Parse and Re-ask
+// ------------------------------------------------------------
+export function parseStructured<T>(text: string, schema: JsonSchema): StructuredResult<T> {
+    let value: unknown;
+    try {
+        value = extractJson(text);
+    } catch {
+        return { ok: false, errors: ['$: reply is not valid JSON'] };
+    }
+    const errors = validateSchema(value, schema);
+    return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+/**
+ * Sends `prompt` and returns the reply parsed against the schema. An
+ * invalid reply is answered with a prompt listing what was wrong, up to
+ * maxReasks times; after that a bad-output error is thrown.
+ */
+export async function requestStructured<T>(
+    send: (prompt: string) => Promise<string>,
+    prompt: string,
+    request: StructuredRequest<T>
+): Promise<T> {
+    const label = request.label || 'Structured';
+    const maxReasks = request.maxReasks ?? 2;
+    let reply = await send(prompt);
+
+    for (let reask = 0; ; reask++) {
+        const result = parseStructured<T>(reply, request.schema);
+        const errors = result.ok ? request.check?.(result.value) || [] : result.errors;
+        if (result.ok && errors.length === 0) {
+            return result.value;
+        }
+        if (reask >= maxReasks) {
+            throw badOutput(`${label} reply did not match the schema after ${maxReasks} re-ask(s): ${errors.join('; ')}`);
+        }
+        console.warn(`[StructuredOutput] ${label} reply invalid (${errors.length} problem(s)), re-asking`);
+        reply = await send(reaskPrompt(prompt, reply, errors));
+    }
+}
+
+function reaskPrompt(prompt: string, reply: string, errors: string[]): string {
+    const previous = reply.length > 2000 ? `${reply.slice(0, 2000)}...[truncated]` : reply;
+    return `${prompt}
+
+Your previous reply was:
+${previous}
+
+It was rejected because:
+${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+Reply again with ONLY the corrected JSON, no markdown and no extra text.`;
+}
@@ -0,0 +1,13 @@
+// ============================================================
+// Token Estimate - Rough Token Counts Without a Tokenizer
+// ============================================================
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Approximates how many tokens a text costs, at about four characters per
+ * token for English prose and code.
+ */
+export function estimateTokens(text: string | undefined): number {
+    return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
@@ -10,12 +10,40 @@ export interface PlanStep {
     action: 'read' | 'write' | 'edit' | 'analyze' | 'delegate' | 'validate' | 'execute';
     target: string;                    // File path or description
     description: string;
-    assignedAgent: 'codex' | 'opus' | 'gemini' | 'antigravity';
+    assignedAgent: string;             // Key in agents.config.json
     status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped';
     inputs: number[];                  // Step IDs this depends on
     outputs: string[];                 // What this step produces
     output?: string;                   // Actual output after execution
     error?: string;                    // Error message if failed
+    attempts?: StepAttempt[];          // Every output the reviewer has judged
+    tokensUsed?: number;               // Prompt + output tokens of the step's calls
+    costUsd?: number;                  // Priced from the usage price table
+}
+
+// ------------------------------------------------------------
+// Review Results
+// ------------------------------------------------------------
+export interface ReviewVote {
+    agentId: number;
+    model: string;
+    vote: 'APPROVE' | 'REJECT' | 'ABSTAIN';  // ABSTAIN: the agent's calls failed
+    confidence: number;                // 0-100
+    reasoning: string;
+}
+
+export interface ReviewVerdict {
+    approved: boolean;
+    approvalRatio: number;             // 0-1, confidence-weighted
+    votes: ReviewVote[];
+    issues: string[];                  // Problems raised by the swarm
+}
+
+export interface StepAttempt {
+    attempt: number;                   // 1-based
+    output: string;
+    review: ReviewVerdict;
+    timestamp: string;
 }
 
 // ------------------------------------------------------------
@@ -69,6 +97,40 @@ export interface PlanResponse {
     confidence: ConfidenceBreakdown;   // Confidence scores
     estimatedTokens: number;           // Rough estimate for execution
     requiresApproval: boolean;         // Should we ask user before executing?
+    revision?: number;                 // 1 for the original plan, +1 per replan
+    history?: PlanRevision[];          // Earlier revisions, oldest first
+    questions?: ClarifyingQuestion[];  // Asked before the plan is approved
+    veto?: string;                     // Set when a plugin rejected the plan
+}
+
+// ------------------------------------------------------------
+// Plan Revision (superseded plan kept for comparison)
+// ------------------------------------------------------------
+export interface PlanRevision {
+    revision: number;
+    steps: PlanStep[];                 // Steps as they stood when replaced
+    confidence: number;                // Overall confidence of that revision
+    reason: string;                    // Why it was replaced
+    replacedAt: string;
+}
+
+// ------------------------------------------------------------
+// Clarifying Questions
+// ------------------------------------------------------------
+export interface ClarifyingQuestion {
+    id: string;                        // "plan-N" or "step-<id>-N"
+    question: string;
+    options?: string[];                // Suggested answers; any text is accepted
+    askedBy: string;                   // Agent name
+    stepId?: number;                   // Unset for planner questions
+}
+
+export interface Clarification {
+    questionId: string;
+    question: string;
+    answer: string;
+    askedBy: string;
+    stepId?: number;
 }
 
 // ------------------------------------------------------------
@@ -94,9 +156,61 @@ export interface SharedContext {
     userRequest: string;
     plan: PlanStep[];
     planResponse?: PlanResponse;       // Full response from Opus
-    currentStepId: number;
+    currentStepId: number;             // Last step started, for display; parallel steps use activeStepId()
     workspaceFiles: Map<string, string>;
-    executionLog: string[];
+    executionLog: RunEvent[];
+    clarifications: Clarification[];   // User answers to agents' questions
+    extraContext: string[];            // Added by plugin hooks
+    usage?: UsageTotals;               // Every call the run has made, planning included
+}
+
+// ------------------------------------------------------------
+// Token Usage
+// ------------------------------------------------------------
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;               // Including cached prompt tokens
+    outputTokens: number;
+    costUsd: number;
+    estimatedCalls: number;            // Calls whose tokens were estimated, not reported
+}
+
+// ------------------------------------------------------------
+// Run Events (structured execution log)
+// ------------------------------------------------------------
+export type RunEventType =
+    | 'run.started'
+    | 'run.resumed'
+    | 'run.finished'
+    | 'run.cancelled'
+    | 'run.rolled-back'
+    | 'context.enriched'
+    | 'plan.requested'
+    | 'plan.generated'
+    | 'plan.revised'
+    | 'plan.rejected'
+    | 'approval.requested'
+    | 'approval.resolved'
+    | 'clarification.requested'
+    | 'clarification.answered'
+    | 'step.started'
+    | 'step.finished'
+    | 'step.skipped'
+    | 'review.vote'
+    | 'review.verdict'
+    | 'file.written'
+    | 'error'
+    | 'note';
+
+export interface RunEvent {
+    seq: number;                       // 1-based position within the run
+    timestamp: string;                 // ISO-8601
+    type: RunEventType;
+    message: string;                   // Human-readable summary
+    stepId?: number;
+    agent?: string;
+    durationMs?: number;
+    payload?: Record<string, any>;     // Type-specific details
 }
 
 // ------------------------------------------------------------
@@ -114,10 +228,28 @@ export interface AgentAdapter {
 export interface ExecutionResult {
     success: boolean;
     stepId: number;
+    description?: string;
+    agent?: string;
+    status?: PlanStep['status'];
     output?: string;
     error?: string;
     duration: number;                  // ms
     tokensUsed?: number;
+    costUsd?: number;
+    review?: StepReviewSummary;
+    filesChanged?: FileChange[];
+}
+
+export interface StepReviewSummary {
+    attempts: number;
+    approved: boolean;
+    approvalRatio: number;             // Of the last attempt
+    issues: string[];                  // Of the last attempt
+}
+
+export interface FileChange {
+    path: string;
+    status: 'added' | 'modified' | 'deleted';
 }
 
 // ------------------------------------------------------------
@@ -125,10 +257,18 @@ export interface ExecutionResult {
 // ------------------------------------------------------------
 export interface ExecutionSummary {
     planId: string;
+    userRequest: string;
+    status: string;                    // RunStatus of the run
+    success: boolean;
+    startedAt?: string;
+    finishedAt?: string;
     totalSteps: number;
     completedSteps: number;
     failedSteps: number;
     skippedSteps: number;
-    totalDuration: number;
+    totalDuration: number;             // ms
+    totalTokens: number;
+    totalCostUsd: number;
+    filesChanged: FileChange[];
     results: ExecutionResult[];
 }
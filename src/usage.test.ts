@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ClaudeOutputReader,
+  UsageLedger,
+  UsageMeter,
+  meterStep,
+  meterUsage,
+  priceUsage,
+  recordUsage
+} from './usage';
+import { CLIManager, ModelConfig } from './cli-manager';
+
+describe('priceUsage', () => {
+  it('prices by the longest matching model prefix, with cheaper cache reads', () => {
+    const usage = priceUsage({ model: 'claude-opus-4-5-20251101', inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 500_000 });
+    // 500k uncached at $5 + 500k cache reads at $0.50 + 100k output at $25 per million
+    expect(usage.costUsd).toBeCloseTo(2.5 + 0.25 + 2.5);
+
+    expect(priceUsage({ model: 'openai/gpt-4o-mini', inputTokens: 1_000_000, outputTokens: 0 }).costUsd).toBeCloseTo(0.15);
+    expect(priceUsage({ model: 'gpt-4o', inputTokens: 10, outputTokens: 10, costUsd: 0.5 }).costUsd).toBe(0.5);
+    expect(priceUsage({ model: 'gpt-4o', inputTokens: 0, outputTokens: 0, cached: true }).costUsd).toBe(0);
+    expect(priceUsage({ model: 'local-llama', inputTokens: 100, outputTokens: 100 }, { 'local-': { input: 1, output: 2 } }).costUsd).toBeCloseTo(0.0003);
+  });
+});
+
+describe('UsageMeter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('attributes calls to the run and step they were made in', async () => {
+    const recorded: (number | undefined)[] = [];
+    const meter = new UsageMeter({ onRecord: (_usage, stepId) => recorded.push(stepId) });
+    const call = async () => recordUsage({ model: 'gpt-4o', inputTokens: 100, outputTokens: 50, estimated: true });
+
+    await call();
+    await meterUsage(meter, async () => {
+      await call();
+      await Promise.all([meterStep(1, call), meterStep(2, call)]);
+    });
+
+    expect(recorded).toEqual([undefined, 1, 2]);
+    expect(meter.run).toMatchObject({ calls: 3, inputTokens: 300, outputTokens: 150, estimatedCalls: 3 });
+  });
+
+  it('reports the first call over a run budget and counts the day across runs', async () => {
+    const reasons: string[] = [];
+    const ledger = new UsageLedger(dir);
+    const budget = { runTokens: 250, dayUsd: 1 };
+    const meter = await UsageMeter.open({ ledger, budget, onExceeded: reason => reasons.push(reason) });
+
+    meter.record({ model: 'gpt-4o', inputTokens: 100, outputTokens: 100 });
+    expect(meter.overBudget()).toBeNull();
+    meter.record({ model: 'gpt-4o', inputTokens: 100, outputTokens: 100 });
+    meter.record({ model: 'gpt-4o', inputTokens: 100, outputTokens: 100 });
+    expect(reasons).toEqual(['Run budget exceeded: 400 tokens used, limit 250']);
+
+    meter.record({ model: 'claude-opus-4-1', inputTokens: 0, outputTokens: 0, costUsd: 1.5 });
+    await ledger.flush();
+
+    const nextRun = await UsageMeter.open({ ledger: new UsageLedger(dir), budget });
+    expect(nextRun.overBudget()).toMatch(/^Daily budget exceeded: \$1\.50/);
+    const day = await new UsageLedger(dir).load();
+    expect(day.totals.calls).toBe(4);
+    expect(day.models['gpt-4o'].inputTokens).toBe(300);
+  });
+
+  it('totals each step separately against the step budget', async () => {
+    const reasons: string[] = [];
+    const meter = new UsageMeter({ budget: { stepTokens: 350, runTokens: 1000 }, onExceeded: reason => reasons.push(reason) });
+    const call = async () => recordUsage({ model: 'gpt-4o', inputTokens: 100, outputTokens: 50 });
+
+    await meterUsage(meter, async () => {
+      await call();
+      await meterStep(1, async () => { await call(); await call(); });
+      await meterStep(2, call);
+    });
+    expect(reasons).toEqual([]);
+    expect(meter.overBudget()).toBeNull();
+
+    await meterUsage(meter, () => meterStep(2, async () => { await call(); await call(); }));
+    expect(reasons).toEqual(['Step 2 budget exceeded: 450 tokens used, limit 350']);
+    expect(meter.overBudget(2)).toMatch(/^Step 2 budget exceeded/);
+    expect(meter.overBudget(1)).toBeNull();
+  });
+});
+
+describe('ClaudeOutputReader', () => {
+  it('streams assistant text and takes the reply, tokens and cost from the result', () => {
+    const chunks: string[] = [];
+    const reader = new ClaudeOutputReader(chunk => chunks.push(chunk));
+    const lines = [
+      { type: 'system', subtype: 'init', model: 'claude-opus-4-1' },
+      { type: 'assistant', message: { model: 'claude-opus-4-1', content: [{ type: 'text', text: 'Looking...' }] } },
+      { type: 'assistant', message: { model: 'claude-opus-4-1', content: [{ type: 'tool_use', name: 'Read' }, { type: 'text', text: 'Done.' }] } },
+      {
+        type: 'result', subtype: 'success', is_error: false, result: 'Done.', total_cost_usd: 0.042,
+        usage: { input_tokens: 10, cache_read_input_tokens: 2000, cache_creation_input_tokens: 300, output_tokens: 80 },
+        modelUsage: { 'claude-haiku-4-5': { costUSD: 0.001 }, 'claude-opus-4-1': { costUSD: 0.041 } }
+      }
+    ].map(line => JSON.stringify(line) + '\n').join('');
+    reader.push(lines.slice(0, 100));
+    reader.push(lines.slice(100));
+
+    expect(chunks).toEqual(['Looking...', '\n\nDone.']);
+    expect(reader.finish('opus')).toEqual({
+      text: 'Done.',
+      usage: {
+        model: 'claude-opus-4-1',
+        inputTokens: 2310,
+        outputTokens: 80,
+        cacheReadTokens: 2000,
+        cacheWriteTokens: 300,
+        costUsd: 0.042
+      }
+    });
+  });
+
+  it('feeds CLIManager oneshot agents that use claude-json output', async () => {
+    const result = { type: 'result', is_error: false, result: 'Planned.', total_cost_usd: 0.01, usage: { input_tokens: 40, output_tokens: 8 } };
+    const script = `process.stdin.resume(); process.stdin.on('end', () => console.log(JSON.stringify(${JSON.stringify(result)}, null, 2)))`;
+    const config: ModelConfig = {
+      name: 'planner',
+      command: 'node',
+      args: ['-e', JSON.stringify(script)],
+      interactionMode: 'oneshot',
+      usage: { output: 'claude-json', model: 'claude-opus-4-1' }
+    };
+    const meter = new UsageMeter();
+
+    const reply = await meterUsage(meter, () => new CLIManager(os.tmpdir()).sendPrompt('planner', 'Plan it', config));
+
+    expect(reply).toBe('Planned.');
+    expect(meter.run).toMatchObject({ calls: 1, inputTokens: 40, outputTokens: 8, costUsd: 0.01, estimatedCalls: 0 });
+  });
+});
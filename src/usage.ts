@@ -0,0 +1,509 @@
+// ============================================================
+// Usage - Token and Cost Accounting
+// Every agent and model call reports the tokens it used: as the
+// provider reports them (claude CLI JSON output, Anthropic and
+// OpenAI usage blocks) or estimated when it doesn't. Calls are
+// priced from a price table, rolled up per step, per run and
+// per day, and checked against the workspace's budgets.
+// ============================================================
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PlanStep, UsageTotals } from './types';
+import { estimateTokens } from './token-estimate';
+
+/**
+ * What one call used, as its transport saw it.
+ */
+export interface UsageReport {
+    model: string;                      // Model id, or the agent name when unknown
+    inputTokens: number;                // Including cacheRead and cacheWrite tokens
+    outputTokens: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+    costUsd?: number;                   // Cost the provider reported, if any
+    estimated?: boolean;                // Counted with estimateTokens
+    cached?: boolean;                   // Answered by the prompt cache or a cassette
+}
+
+/**
+ * A call's usage with its cost.
+ */
+export interface TokenUsage extends UsageReport {
+    costUsd: number;
+}
+
+/**
+ * A transport's reply text and, where the provider reports it, its usage.
+ */
+export interface AgentReply {
+    text: string;
+    usage?: UsageReport;
+}
+
+/**
+ * USD per million tokens.
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cacheRead?: number;                 // Default: 10% of input
+    cacheWrite?: number;                // Default: 125% of input
+}
+
+/**
+ * Prices keyed by model id prefix; the longest matching prefix wins.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageBudget {
+    stepUsd?: number;                   // Any single plan step
+    stepTokens?: number;
+    runUsd?: number;
+    runTokens?: number;
+    dayUsd?: number;
+    dayTokens?: number;
+}
+
+/**
+ * The "usage" block of ai-collab.config.json.
+ */
+export interface UsageConfig {
+    prices?: PriceTable;                // Merged over DEFAULT_PRICES
+    budget?: UsageBudget;
+}
+
+export const DEFAULT_PRICES: PriceTable = {
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-haiku-4': { input: 1, output: 5 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'o3': { input: 2, output: 8 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-3-pro': { input: 2, output: 12 }
+};
+
+// Per-step allowances for plan estimates, on top of the step's context
+const STEP_OUTPUT_TOKENS = 2000;
+const REVIEW_TOKENS = 3000;
+
+// Models already warned about, so an unpriced model is reported once
+const unpriced = new Set<string>();
+
+// ------------------------------------------------------------
+// Pricing
+// ------------------------------------------------------------
+export function priceFor(model: string, prices: PriceTable = DEFAULT_PRICES): ModelPrice | undefined {
+    // Router-style ids ("anthropic/claude-...") are matched without their vendor
+    const ids = [model.toLowerCase(), model.toLowerCase().split('/').pop()!];
+    let best: string | undefined;
+    for (const key of Object.keys(prices)) {
+        const prefix = key.toLowerCase();
+        if (ids.some(id => id.startsWith(prefix)) && (!best || key.length > best.length)) {
+            best = key;
+        }
+    }
+    return best ? prices[best] : undefined;
+}
+
+/**
+ * Prices a call. A cost reported by the provider is kept as is; cached
+ * answers cost nothing; models missing from the table are free, with a
+ * warning.
+ */
+export function priceUsage(report: UsageReport, prices: PriceTable = DEFAULT_PRICES): TokenUsage {
+    if (report.cached) {
+        return { ...report, costUsd: 0 };
+    }
+    if (report.costUsd !== undefined) {
+        return { ...report, costUsd: report.costUsd };
+    }
+
+    const price = priceFor(report.model, prices);
+    if (!price) {
+        if (!unpriced.has(report.model)) {
+            unpriced.add(report.model);
+            console.warn(`[Usage] No price for ${report.model}, counting its calls as free`);
+        }
+        return { ...report, costUsd: 0 };
+    }
+
+    const cacheRead = report.cacheReadTokens || 0;
+    const cacheWrite = report.cacheWriteTokens || 0;
+    const uncached = Math.max(0, report.inputTokens - cacheRead - cacheWrite);
+    const costUsd = (
+        uncached * price.input
+        + cacheRead * (price.cacheRead ?? price.input * 0.1)
+        + cacheWrite * (price.cacheWrite ?? price.input * 1.25)
+        + report.outputTokens * price.output
+    ) / 1_000_000;
+    return { ...report, costUsd };
+}
+
+export function estimatedUsage(model: string, prompt: string, reply: string): UsageReport {
+    return { model, inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(reply), estimated: true };
+}
+
+/**
+ * Rough token cost of running a plan: each step's context and output,
+ * plus a review for the steps that change files.
+ */
+export function estimatePlanTokens(steps: PlanStep[], contextTokens: (step: PlanStep) => number): number {
+    return steps.reduce((sum, step) => sum
+        + contextTokens(step)
+        + STEP_OUTPUT_TOKENS
+        + (['write', 'edit', 'execute'].includes(step.action) ? REVIEW_TOKENS : 0), 0);
+}
+
+// ------------------------------------------------------------
+// Totals
+// ------------------------------------------------------------
+export function emptyTotals(): UsageTotals {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, estimatedCalls: 0 };
+}
+
+export function addUsage(totals: UsageTotals, usage: TokenUsage): UsageTotals {
+    totals.calls++;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.costUsd += usage.costUsd;
+    if (usage.estimated) {
+        totals.estimatedCalls++;
+    }
+    return totals;
+}
+
+export function tokenCount(usage: { inputTokens: number; outputTokens: number }): number {
+    return usage.inputTokens + usage.outputTokens;
+}
+
+export function formatUsd(usd: number): string {
+    return `$${usd > 0 && usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+// ------------------------------------------------------------
+// Daily Ledger
+// ------------------------------------------------------------
+export interface DayUsage {
+    date: string;                       // YYYY-MM-DD, UTC
+    totals: UsageTotals;
+    models: Record<string, UsageTotals>;
+}
+
+/**
+ * Per-day totals in <dir>/<date>.json, shared by every run in the
+ * workspace.
+ */
+export class UsageLedger {
+    private days = new Map<string, DayUsage>();
+    private loading = new Map<string, Promise<DayUsage>>();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(public readonly dir: string) { }
+
+    public load(date: string = dayOf(new Date())): Promise<DayUsage> {
+        const loaded = this.days.get(date);
+        if (loaded) {
+            return Promise.resolve(loaded);
+        }
+        if (!this.loading.has(date)) {
+            this.loading.set(date, (async () => {
+                let day: DayUsage = { date, totals: emptyTotals(), models: {} };
+                const file = this.fileFor(date);
+                try {
+                    if (await fs.pathExists(file)) {
+                        day = await fs.readJson(file);
+                    }
+                } catch (error) {
+                    console.warn(`[Usage] Ignoring unreadable ${file}:`, error);
+                }
+                this.days.set(date, day);
+                this.loading.delete(date);
+                return day;
+            })());
+        }
+        return this.loading.get(date)!;
+    }
+
+    /**
+     * A day's totals if they are loaded (today's by default).
+     */
+    public peek(date: string = dayOf(new Date())): DayUsage | undefined {
+        return this.days.get(date);
+    }
+
+    /**
+     * Adds a call to its day. Loaded days are updated right away so budget
+     * checks see the call; the file is written in the background.
+     */
+    public add(usage: TokenUsage, at: Date = new Date()): Promise<void> {
+        const date = dayOf(at);
+        const loaded = this.days.get(date);
+        if (loaded) {
+            addToDay(loaded, usage);
+        }
+
+        this.writeQueue = this.writeQueue.then(async () => {
+            const day = loaded || addToDay(await this.load(date), usage);
+            const file = this.fileFor(date);
+            await fs.ensureDir(this.dir);
+            const tmpFile = `${file}.tmp`;
+            await fs.writeFile(tmpFile, JSON.stringify(day, null, 2), 'utf-8');
+            await fs.rename(tmpFile, file);
+        }).catch(error => {
+            console.error(`[Usage] Failed to write the ${date} ledger:`, error);
+        });
+        return this.writeQueue;
+    }
+
+    public flush(): Promise<void> {
+        return this.writeQueue;
+    }
+
+    private fileFor(date: string): string {
+        return path.join(this.dir, `${date}.json`);
+    }
+}
+
+function addToDay(day: DayUsage, usage: TokenUsage): DayUsage {
+    addUsage(day.totals, usage);
+    addUsage(day.models[usage.model] ??= emptyTotals(), usage);
+    return day;
+}
+
+export function dayOf(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+// ------------------------------------------------------------
+// Run Meter and Budgets
+// ------------------------------------------------------------
+export interface UsageMeterOptions extends UsageConfig {
+    ledger?: UsageLedger;
+    run?: UsageTotals;                  // Totals to continue from (resumed runs)
+    onRecord?: (usage: TokenUsage, stepId?: number) => void;
+    /**
+     * Called once, by the call that puts a step, the run or the day over
+     * budget.
+     */
+    onExceeded?: (reason: string) => void;
+}
+
+/**
+ * Prices and totals one run's calls and watches its budgets.
+ */
+export class UsageMeter {
+    public readonly run: UsageTotals;
+    private steps = new Map<number, UsageTotals>();
+    private prices: PriceTable;
+    private exceeded = false;
+
+    constructor(private options: UsageMeterOptions = {}) {
+        this.run = options.run || emptyTotals();
+        this.prices = { ...DEFAULT_PRICES, ...options.prices };
+    }
+
+    /**
+     * A meter whose day budget counts what was spent earlier today.
+     */
+    static async open(options: UsageMeterOptions): Promise<UsageMeter> {
+        await options.ledger?.load();
+        return new UsageMeter(options);
+    }
+
+    public record(report: UsageReport, stepId?: number): TokenUsage {
+        const usage = priceUsage(report, this.prices);
+        addUsage(this.run, usage);
+        if (stepId !== undefined) {
+            const step = this.steps.get(stepId) || emptyTotals();
+            addUsage(step, usage);
+            this.steps.set(stepId, step);
+        }
+        this.options.ledger?.add(usage);
+        this.options.onRecord?.(usage, stepId);
+
+        const reason = this.overBudget(stepId);
+        if (reason && !this.exceeded) {
+            this.exceeded = true;
+            this.options.onExceeded?.(reason);
+        }
+        return usage;
+    }
+
+    /**
+     * Why the run (or the given step) is over budget, or null while it is
+     * within it.
+     */
+    public overBudget(stepId?: number): string | null {
+        const budget = this.options.budget || {};
+        const step = stepId !== undefined ? this.steps.get(stepId) : undefined;
+        const day = this.options.ledger?.peek()?.totals;
+        return (step ? exceeds(`Step ${stepId}`, step, budget.stepUsd, budget.stepTokens) : null)
+            || exceeds('Run', this.run, budget.runUsd, budget.runTokens)
+            || (day ? exceeds('Daily', day, budget.dayUsd, budget.dayTokens) : null);
+    }
+}
+
+function exceeds(label: string, totals: UsageTotals, maxUsd?: number, maxTokens?: number): string | null {
+    if (maxUsd !== undefined && totals.costUsd > maxUsd) {
+        return `${label} budget exceeded: ${formatUsd(totals.costUsd)} spent, limit ${formatUsd(maxUsd)}`;
+    }
+    if (maxTokens !== undefined && tokenCount(totals) > maxTokens) {
+        return `${label} budget exceeded: ${tokenCount(totals)} tokens used, limit ${maxTokens}`;
+    }
+    return null;
+}
+
+// ------------------------------------------------------------
+// Attribution
+// ------------------------------------------------------------
+interface UsageScope {
+    meter: UsageMeter;
+    stepId?: number;
+}
+
+const scope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Runs `fn` with every call it makes, however deep, recorded on `meter`.
+ */
+export function meterUsage<T>(meter: UsageMeter, fn: () => Promise<T>): Promise<T> {
+    return scope.run({ meter }, fn);
+}
+
+/**
+ * Attributes the calls `fn` makes to a plan step of the current run.
+ */
+export function meterStep<T>(stepId: number, fn: () => Promise<T>): Promise<T> {
+    const current = scope.getStore();
+    return current ? scope.run({ ...current, stepId }, fn) : fn();
+}
+
+/**
+ * The plan step the current call chain runs for (see meterStep). Steps
+ * run in parallel, so this is the only reliable way to tell them apart
+ * deep inside a call.
+ */
+export function activeStepId(): number | undefined {
+    return scope.getStore()?.stepId;
+}
+
+/**
+ * Records a call on the current run's meter. Calls made outside a
+ * metered run are not counted.
+ */
+export function recordUsage(report: UsageReport): TokenUsage | undefined {
+    const current = scope.getStore();
+    return current?.meter.record(report, current.stepId);
+}
+
+// ------------------------------------------------------------
+// Claude CLI Output
+// ------------------------------------------------------------
+/**
+ * Reads the claude CLI's `--output-format json` or `stream-json` output.
+ * Assistant text in stream-json is passed to onText as it arrives; the
+ * final result carries the reply, the token counts and the cost.
+ */
+export class ClaudeOutputReader {
+    private raw = '';
+    private buffer = '';
+    private streamed = '';
+    private result: any = null;
+    private model: string | undefined;
+
+    constructor(private onText?: (text: string) => void) { }
+
+    public push(chunk: string) {
+        this.raw += chunk;
+        this.buffer += chunk;
+        let end: number;
+        while ((end = this.buffer.indexOf('\n')) !== -1) {
+            this.line(this.buffer.slice(0, end));
+            this.buffer = this.buffer.slice(end + 1);
+        }
+    }
+
+    /**
+     * The assistant text streamed so far, for replies cut off by a timeout.
+     */
+    public partial(): string {
+        return this.streamed.trim();
+    }
+
+    /**
+     * The reply and its usage, priced by the CLI. Output that isn't JSON
+     * is returned as it is, without usage. Throws if the CLI reported an
+     * error.
+     */
+    public finish(fallbackModel: string): AgentReply {
+        this.line(this.buffer);
+        this.buffer = '';
+        if (!this.result) {
+            // --output-format json may be pretty-printed over several lines
+            this.line(this.raw.replace(/\r?\n/g, ' '));
+        }
+        const result = this.result;
+        if (!result) {
+            return { text: this.streamed.trim() || this.raw.trim() };
+        }
+        if (result.is_error) {
+            throw new Error(`claude reported ${result.subtype || 'an error'}: ${String(result.result ?? '').slice(0, 500)}`);
+        }
+
+        const usage = result.usage || {};
+        const cacheRead = usage.cache_read_input_tokens || 0;
+        const cacheWrite = usage.cache_creation_input_tokens || 0;
+        const models = Object.entries<any>(result.modelUsage || {})
+            .sort((a, b) => (b[1]?.costUSD || 0) - (a[1]?.costUSD || 0));
+        return {
+            text: String(result.result ?? this.streamed).trim(),
+            usage: {
+                model: models[0]?.[0] || this.model || fallbackModel,
+                inputTokens: (usage.input_tokens || 0) + cacheRead + cacheWrite,
+                outputTokens: usage.output_tokens || 0,
+                cacheReadTokens: cacheRead,
+                cacheWriteTokens: cacheWrite,
+                costUsd: typeof result.total_cost_usd === 'number' ? result.total_cost_usd : undefined
+            }
+        };
+    }
+
+    private line(text: string) {
+        if (!text.trim().startsWith('{')) {
+            return;
+        }
+        let event: any;
+        try {
+            event = JSON.parse(text);
+        } catch {
+            return;
+        }
+
+        if (event.type === 'result') {
+            this.result = event;
+        } else if (event.type === 'assistant' && event.message) {
+            this.model = event.message.model || this.model;
+            const text = (event.message.content || [])
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('');
+            if (text) {
+                const piece = this.streamed ? `\n\n${text}` : text;
+                this.streamed += piece;
+                this.onText?.(piece);
+            }
+        }
+    }
+}
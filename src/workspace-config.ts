@@ -0,0 +1,47 @@
+// ============================================================
+// Workspace Configuration - ai-collab.config.json
+// Per-project settings that live next to the code they govern.
+// ============================================================
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { StepApprovalPolicy } from './step-policy';
+import { ContextOptions } from './context-builder';
+import { PluginSpec } from './plugins';
+import { UsageConfig } from './usage';
+
+export const WORKSPACE_CONFIG_FILE = 'ai-collab.config.json';
+
+export interface WorkspaceConfig {
+    stepApproval?: Partial<StepApprovalPolicy>;
+    /**
+     * How much workspace file content goes into each step prompt.
+     */
+    context?: ContextOptions;
+    /**
+     * Plugin modules whose hooks run around planning, steps and reviews.
+     */
+    plugins?: PluginSpec[];
+    /**
+     * Model prices and the run and daily budgets that stop a run.
+     */
+    usage?: UsageConfig;
+}
+
+/**
+ * Reads ai-collab.config.json from the workspace root. A missing or
+ * unreadable file yields an empty config so defaults apply.
+ */
+export async function loadWorkspaceConfig(workspaceDir: string): Promise<WorkspaceConfig> {
+    const file = path.join(workspaceDir, WORKSPACE_CONFIG_FILE);
+    if (!await fs.pathExists(file)) {
+        return {};
+    }
+
+    try {
+        return await fs.readJson(file);
+    } catch (error) {
+        console.warn(`[Config] Ignoring invalid ${WORKSPACE_CONFIG_FILE}:`, error);
+        return {};
+    }
+}
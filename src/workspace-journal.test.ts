@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceJournal } from './workspace-journal';
+
+describe('WorkspaceJournal', () => {
+  let dir: string;
+  let journal: WorkspaceJournal;
+
+  const write = (file: string, content: string) => fs.outputFile(path.join(dir, file), content);
+  const read = (file: string) => fs.readFile(path.join(dir, file), 'utf-8');
+  const exists = (file: string) => fs.pathExists(path.join(dir, file));
+
+  const runStep = async (stepId: number, edit: () => Promise<void>) => {
+    await journal.beforeStep('plan-1', stepId);
+    await edit();
+    return journal.afterStep('plan-1', stepId);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'journal-test-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' });
+    git('init', '-q');
+    git('config', 'user.email', 'test@localhost');
+    git('config', 'user.name', 'test');
+    await write('app.ts', 'original app');
+    await write('util.ts', 'original util');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+
+    journal = new WorkspaceJournal(dir);
+    await journal.beginRun('plan-1');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('reports the files each step changed', async () => {
+    const changes = await runStep(1, async () => {
+      await write('app.ts', 'step 1 app');
+      await write('new.ts', 'step 1 new');
+    });
+
+    expect(changes).toEqual([
+      { path: 'app.ts', status: 'modified' },
+      { path: 'new.ts', status: 'added' }
+    ]);
+  });
+
+  it('rolls back only what the run changed and keeps files edited since', async () => {
+    await runStep(1, async () => {
+      await write('app.ts', 'step 1 app');
+      await write('new.ts', 'step 1 new');
+    });
+    await runStep(2, async () => {
+      await write('util.ts', 'step 2 util');
+      await write('generated.ts', 'step 2 generated');
+    });
+
+    // Made by hand after the run
+    await write('util.ts', 'hand-edited util');
+    await write('notes.md', 'untracked user notes');
+
+    const result = await journal.rollbackRun('plan-1');
+
+    expect(result.restored).toEqual(['app.ts']);
+    expect(result.deleted.sort()).toEqual(['generated.ts', 'new.ts']);
+    expect(result.kept).toEqual(['util.ts']);
+    expect(await read('app.ts')).toBe('original app');
+    expect(await exists('new.ts')).toBe(false);
+    expect(await exists('generated.ts')).toBe(false);
+    expect(await read('util.ts')).toBe('hand-edited util');
+    expect(await read('notes.md')).toBe('untracked user notes');
+    expect((await journal.load('plan-1'))!.rolledBack).toBe(true);
+  });
+
+  it('rolls back a single step and leaves the others in place', async () => {
+    await runStep(1, async () => {
+      await write('app.ts', 'step 1 app');
+    });
+    await runStep(2, async () => {
+      await write('util.ts', 'step 2 util');
+      await write('new.ts', 'step 2 new');
+    });
+
+    const result = await journal.rollbackStep('plan-1', 2);
+
+    expect(result).toMatchObject({ stepId: 2, restored: ['util.ts'], deleted: ['new.ts'], kept: [] });
+    expect(await read('util.ts')).toBe('original util');
+    expect(await exists('new.ts')).toBe(false);
+    expect(await read('app.ts')).toBe('step 1 app');
+    expect((await journal.load('plan-1'))!.steps.map(s => s.stepId)).toEqual([1]);
+  });
+
+  it('keeps a step\'s file when a later step changed it again', async () => {
+    await runStep(1, async () => {
+      await write('app.ts', 'step 1 app');
+    });
+    await runStep(2, async () => {
+      await write('app.ts', 'step 2 app');
+    });
+
+    const result = await journal.rollbackStep('plan-1', 1);
+
+    expect(result.kept).toEqual(['app.ts']);
+    expect(await read('app.ts')).toBe('step 2 app');
+  });
+
+  it('refuses to roll back one of two steps that ran at the same time', async () => {
+    await Promise.all([journal.beforeStep('plan-1', 1), journal.beforeStep('plan-1', 2)]);
+    await write('app.ts', 'step 1 app');
+    await write('util.ts', 'step 2 util');
+    await Promise.all([journal.afterStep('plan-1', 1), journal.afterStep('plan-1', 2)]);
+    await runStep(3, async () => {
+      await write('new.ts', 'step 3 new');
+    });
+
+    await expect(journal.rollbackStep('plan-1', 1)).rejects.toThrow('Step 1 of run plan-1 ran alongside step(s) 2');
+    await expect(journal.rollbackStep('plan-1', 2)).rejects.toThrow('ran alongside step(s) 1');
+    expect(await read('app.ts')).toBe('step 1 app');
+    expect(await read('util.ts')).toBe('step 2 util');
+
+    expect((await journal.rollbackStep('plan-1', 3)).deleted).toEqual(['new.ts']);
+    const result = await journal.rollbackRun('plan-1');
+    expect(result.restored.sort()).toEqual(['app.ts', 'util.ts']);
+    expect(await read('app.ts')).toBe('original app');
+    expect(await read('util.ts')).toBe('original util');
+  });
+});
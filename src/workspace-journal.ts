@@ -0,0 +1,419 @@
+// ============================================================
+// WorkspaceJournal - Snapshots and Rollback for Plan Runs
+// Records a git tree of the workspace before and after every
+// step so a run, or a single step, can be undone.
+// ============================================================
+
+import { execFile } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { FileChange } from './types';
+
+export interface StepSnapshot {
+    stepId: number;
+    before: string;                    // Tree hash before the step ran
+    after?: string;                    // Tree hash once it finished
+    overlaps?: number[];               // Steps that ran at the same time
+}
+
+export interface RunJournal {
+    planId: string;
+    baseTree: string;                  // Workspace before the first step
+    steps: StepSnapshot[];
+    rolledBack: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface RollbackResult {
+    planId: string;
+    stepId?: number;
+    restored: string[];
+    deleted: string[];
+    kept: string[];                    // Changed since the run left them, so not touched
+}
+
+// Run state lives in the workspace but must survive a rollback
+const EXCLUDE = ':(exclude).ai-collab';
+
+/**
+ * Snapshots are written with a throwaway index (GIT_INDEX_FILE), so the
+ * user's staging area, HEAD and branches are never touched. Each snapshot is
+ * chained onto refs/ai-collab/<planId> to keep it from being garbage
+ * collected. Workspaces that aren't git repositories get no journal.
+ */
+export class WorkspaceJournal {
+    private journalDir: string;
+    private queue: Promise<unknown> = Promise.resolve();
+    private available: Promise<boolean> | null = null;
+    private inFlight = new Map<string, Set<number>>();
+
+    constructor(private workspaceDir: string) {
+        this.journalDir = path.join(workspaceDir, '.ai-collab', 'journal');
+    }
+
+    public isAvailable(): Promise<boolean> {
+        if (!this.available) {
+            this.available = this.git(['rev-parse', '--is-inside-work-tree'])
+                .then(out => out.trim() === 'true')
+                .catch(() => false);
+        }
+        return this.available;
+    }
+
+    // --------------------------------------------------------
+    // Recording
+    // --------------------------------------------------------
+    /**
+     * Records the workspace state a run starts from. Resuming a run keeps
+     * the original base so undo still goes all the way back.
+     */
+    public beginRun(planId: string): Promise<void> {
+        return this.serialize(async () => {
+            if (!await this.isAvailable()) {
+                console.warn("[Journal] Workspace is not a git repository - rollback disabled");
+                return;
+            }
+
+            const existing = await this.load(planId);
+            if (existing && !existing.rolledBack) {
+                return;
+            }
+
+            const now = new Date().toISOString();
+            await this.save({
+                planId,
+                baseTree: await this.snapshot(planId),
+                steps: [],
+                rolledBack: false,
+                createdAt: existing?.createdAt || now,
+                updatedAt: now
+            });
+        });
+    }
+
+    /**
+     * Records the workspace before a step. Steps running in parallel share
+     * the working tree, so a step's before/after pair can include edits made
+     * by its siblings meanwhile; steps whose runs overlap are noted on both
+     * entries and can only be rolled back together with the run.
+     */
+    public beforeStep(planId: string, stepId: number): Promise<void> {
+        const running = this.inFlight.get(planId) || new Set<number>();
+        const overlaps = [...running].filter(id => id !== stepId);
+        this.inFlight.set(planId, running.add(stepId));
+
+        return this.record(planId, async journal => {
+            const tree = await this.snapshot(planId);
+            journal.steps = journal.steps.filter(s => s.stepId !== stepId);
+            for (const sibling of journal.steps.filter(s => overlaps.includes(s.stepId))) {
+                sibling.overlaps = [...new Set([...(sibling.overlaps || []), stepId])];
+            }
+            journal.steps.push({ stepId, before: tree, ...(overlaps.length > 0 ? { overlaps } : {}) });
+        });
+    }
+
+    /**
+     * Records the workspace after a step and returns the files that changed
+     * while it ran.
+     */
+    public async afterStep(planId: string, stepId: number): Promise<FileChange[]> {
+        let changes: FileChange[] = [];
+        this.inFlight.get(planId)?.delete(stepId);
+        await this.record(planId, async journal => {
+            const entry = journal.steps.find(s => s.stepId === stepId);
+            if (entry) {
+                entry.after = await this.snapshot(planId);
+                changes = await this.diff(entry.before, entry.after);
+            }
+        });
+        return changes;
+    }
+
+    // --------------------------------------------------------
+    // Rollback
+    // --------------------------------------------------------
+    /**
+     * Reverts the files the run's steps changed. Files edited since the
+     * last step that touched them, and files no step touched, are left alone.
+     */
+    public rollbackRun(planId: string): Promise<RollbackResult> {
+        return this.serialize(async () => {
+            const journal = await this.require(planId);
+            const result = await this.undo(planId, journal.steps);
+
+            journal.rolledBack = true;
+            await this.save(journal);
+            console.log(`[Journal] Rolled back run ${planId}: ${this.describe(result)}`);
+            return { planId, ...result };
+        });
+    }
+
+    /**
+     * Reverts only the files a single step changed. Files a later step (or
+     * the user) edited afterwards are kept. A step that ran alongside others
+     * is refused, since its snapshots also hold their edits.
+     */
+    public rollbackStep(planId: string, stepId: number): Promise<RollbackResult> {
+        return this.serialize(async () => {
+            const journal = await this.require(planId);
+            const entry = journal.steps.find(s => s.stepId === stepId);
+            if (!entry) {
+                throw new Error(`No snapshot recorded for step ${stepId} of run ${planId}`);
+            }
+            if (entry.overlaps?.length) {
+                throw new Error(`Step ${stepId} of run ${planId} ran alongside step(s) ${entry.overlaps.join(', ')} - roll back the whole run instead`);
+            }
+
+            const result = await this.undo(planId, [entry]);
+
+            journal.steps = journal.steps.filter(s => s.stepId !== stepId);
+            await this.save(journal);
+            console.log(`[Journal] Rolled back step ${stepId} of ${planId}: ${this.describe(result)}`);
+            return { planId, stepId, ...result };
+        });
+    }
+
+    /**
+     * The most recently updated run that hasn't been rolled back yet.
+     */
+    public async lastRun(): Promise<RunJournal | null> {
+        if (!await fs.pathExists(this.journalDir)) {
+            return null;
+        }
+
+        const journals: RunJournal[] = [];
+        for (const file of await fs.readdir(this.journalDir)) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                journals.push(await fs.readJson(path.join(this.journalDir, file)));
+            } catch {
+                // Ignore unreadable journals
+            }
+        }
+
+        return journals
+            .filter(j => !j.rolledBack)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null;
+    }
+
+    public async load(planId: string): Promise<RunJournal | null> {
+        const file = this.fileFor(planId);
+        if (!await fs.pathExists(file)) {
+            return null;
+        }
+        try {
+            return await fs.readJson(file);
+        } catch (error) {
+            console.error(`[Journal] Corrupt journal ${file}:`, error);
+            return null;
+        }
+    }
+
+    // --------------------------------------------------------
+    // Git Plumbing
+    // --------------------------------------------------------
+    /**
+     * Writes the current workspace (respecting .gitignore) as a tree object
+     * and returns its hash.
+     */
+    private async snapshot(planId: string): Promise<string> {
+        return this.withTempIndex(async env => {
+            // Seed from the real index so unchanged files aren't rehashed
+            const realIndex = path.resolve(this.workspaceDir, (await this.git(['rev-parse', '--git-path', 'index'])).trim());
+            if (await fs.pathExists(realIndex)) {
+                await fs.copy(realIndex, env.GIT_INDEX_FILE);
+            }
+
+            await this.git(['add', '-A', '--', '.', EXCLUDE], env);
+            const tree = (await this.git(['write-tree'], env)).trim();
+            await this.keepAlive(planId, tree);
+            return tree;
+        });
+    }
+
+    /**
+     * Puts the files the given steps changed back to how they were before
+     * the first of those steps touched them. A file is only reverted while
+     * it still matches the last step's `after` snapshot; anything edited
+     * since is reported as kept.
+     */
+    private async undo(planId: string, steps: StepSnapshot[]): Promise<{ restored: string[]; deleted: string[]; kept: string[] }> {
+        const origins = new Map<string, { from: string; added: boolean; last: string }>();
+        for (const step of steps) {
+            if (!step.after) {
+                console.warn(`[Journal] Step ${step.stepId} of ${planId} never finished - its changes are not rolled back`);
+                continue;
+            }
+            for (const change of await this.diff(step.before, step.after)) {
+                const origin = origins.get(change.path);
+                if (origin) {
+                    origin.last = step.after;
+                } else {
+                    origins.set(change.path, { from: step.before, added: change.status === 'added', last: step.after });
+                }
+            }
+        }
+        if (origins.size === 0) {
+            return { restored: [], deleted: [], kept: [] };
+        }
+
+        // Paths whose current content no longer matches each step's result
+        const current = await this.snapshot(planId);
+        const edited = new Map<string, Set<string>>();
+        for (const { last } of origins.values()) {
+            if (!edited.has(last)) {
+                edited.set(last, new Set((await this.diff(last, current)).map(c => c.path)));
+            }
+        }
+
+        const restored = new Map<string, string[]>();
+        const deleted: string[] = [];
+        const kept: string[] = [];
+        for (const [file, origin] of origins) {
+            if (edited.get(origin.last)!.has(file)) {
+                kept.push(file);
+            } else if (origin.added) {
+                deleted.push(file);
+            } else {
+                restored.set(origin.from, [...(restored.get(origin.from) || []), file]);
+            }
+        }
+
+        for (const file of deleted) {
+            await fs.remove(path.join(this.workspaceDir, file));
+        }
+        for (const [from, files] of restored) {
+            await this.withTempIndex(async env => {
+                await this.git(['read-tree', from], env);
+                await this.git(['checkout-index', '-f', '--', ...files], env);
+            });
+        }
+
+        return { restored: [...restored.values()].flat(), deleted, kept };
+    }
+
+    private describe(result: { restored: string[]; deleted: string[]; kept: string[] }): string {
+        const kept = result.kept.length > 0 ? `, ${result.kept.length} kept (edited since)` : '';
+        return `${result.restored.length} restored, ${result.deleted.length} deleted${kept}`;
+    }
+
+    /**
+     * Files that differ between two snapshots, relative to the workspace.
+     */
+    private async diff(from: string, to: string): Promise<FileChange[]> {
+        if (from === to) {
+            return [];
+        }
+
+        const output = await this.git(['diff', '--relative', '--name-status', '--no-renames', '-z', from, to, '--', '.', EXCLUDE]);
+        const fields = output.split('\0').filter(Boolean);
+
+        const changes: FileChange[] = [];
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            const status = fields[i] === 'A' ? 'added' : fields[i] === 'D' ? 'deleted' : 'modified';
+            changes.push({ path: fields[i + 1], status });
+        }
+        return changes;
+    }
+
+    /**
+     * Chains the tree onto the run's ref so `git gc` keeps it.
+     */
+    private async keepAlive(planId: string, tree: string) {
+        const ref = `refs/ai-collab/${this.safeId(planId)}`;
+        const parent = await this.git(['rev-parse', '--verify', '--quiet', ref]).catch(() => '');
+        const args = ['commit-tree', tree, '-m', `ai-collab snapshot for ${planId}`];
+        if (parent.trim()) {
+            args.push('-p', parent.trim());
+        }
+
+        const commit = (await this.git(args, {
+            GIT_AUTHOR_NAME: 'ai-collab',
+            GIT_AUTHOR_EMAIL: 'ai-collab@localhost',
+            GIT_COMMITTER_NAME: 'ai-collab',
+            GIT_COMMITTER_EMAIL: 'ai-collab@localhost'
+        })).trim();
+        await this.git(['update-ref', ref, commit]);
+    }
+
+    private async withTempIndex<T>(fn: (env: { GIT_INDEX_FILE: string }) => Promise<T>): Promise<T> {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-collab-index-'));
+        try {
+            return await fn({ GIT_INDEX_FILE: path.join(dir, 'index') });
+        } finally {
+            await fs.remove(dir);
+        }
+    }
+
+    private git(args: string[], env: Record<string, string> = {}): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile('git', args, {
+                cwd: this.workspaceDir,
+                env: { ...process.env, ...env },
+                maxBuffer: 64 * 1024 * 1024
+            }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(`git ${args[0]} failed: ${stderr || error.message}`));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
+    // --------------------------------------------------------
+    // Journal Files
+    // --------------------------------------------------------
+    private record(planId: string, update: (journal: RunJournal) => Promise<void>): Promise<void> {
+        return this.serialize(async () => {
+            const journal = await this.load(planId);
+            if (!journal) {
+                return;
+            }
+            await update(journal);
+            await this.save(journal);
+        }).catch(error => {
+            // A missed snapshot must not fail the step itself
+            console.error(`[Journal] Failed to record snapshot for ${planId}:`, error);
+        });
+    }
+
+    private async require(planId: string): Promise<RunJournal> {
+        const journal = await this.load(planId);
+        if (!journal) {
+            throw new Error(`No journal found for run ${planId}`);
+        }
+        if (journal.rolledBack) {
+            throw new Error(`Run ${planId} has already been rolled back`);
+        }
+        return journal;
+    }
+
+    private async save(journal: RunJournal) {
+        journal.updatedAt = new Date().toISOString();
+        await fs.ensureDir(this.journalDir);
+        const file = this.fileFor(journal.planId);
+        const tmpFile = `${file}.tmp`;
+        await fs.writeFile(tmpFile, JSON.stringify(journal, null, 2), 'utf-8');
+        await fs.rename(tmpFile, file);
+    }
+
+    /**
+     * Git operations and journal updates run one at a time.
+     */
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private safeId(planId: string): string {
+        return planId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    }
+
+    private fileFor(planId: string): string {
+        return path.join(this.journalDir, `${this.safeId(planId)}.json`);
+    }
+}